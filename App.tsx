@@ -6,6 +6,7 @@ import { useFonts } from "expo-font";
 import { PromptProvider } from "./app/context/PromptContext";
 import "react-native-gesture-handler";
 import DrawerNavigator from "./app/navigation/DrawerNavigator";
+import { linking } from "./app/navigation/linking";
 
 
 export default function App() {
@@ -31,7 +32,7 @@ export default function App() {
 
   return (
     <PromptProvider>
-      <NavigationContainer>
+      <NavigationContainer linking={linking}>
         <DrawerNavigator />
       </NavigationContainer>
     </PromptProvider>
@@ -37,6 +37,10 @@ export default {
       perplexityApiKey: process.env.PERPLEXITY_API_KEY,
       // Vous pouvez ajouter d'autres variables ici
       apiUrl: process.env.API_URL || "https://api.perplexity.ai",
+      // Fournisseurs IA alternatifs (optionnels)
+      openaiApiKey: process.env.OPENAI_API_KEY,
+      openaiBaseUrl: process.env.OPENAI_BASE_URL,
+      ollamaBaseUrl: process.env.OLLAMA_BASE_URL,
       environment: process.env.NODE_ENV || "development"
     }
   }
@@ -11,9 +11,26 @@ import {
   Animated,
   Pressable,
 } from "react-native";
-import Markdown from "react-native-markdown-display";
+import Markdown, {
+  renderRules,
+  RenderRules,
+} from "react-native-markdown-display";
 import AppText from "./AppText";
 import { useHaptic } from "../hooks/useHaptic"; // ✅ NOUVEAU : Import haptic
+import { Sparkle, Stop, WarningCircle } from "phosphor-react-native";
+import {
+  Citation,
+  CITATION_LINK_PREFIX,
+  citationsFromLegacySource,
+  getCitationDomain,
+  linkCitationMarkers,
+} from "../utils/citations";
+import {
+  WatchRule,
+  WATCH_LINK_PREFIX,
+  highlightWatchMatches,
+  matchesDomain,
+} from "../utils/watchRules";
 
 const { width } = Dimensions.get("window");
 
@@ -21,7 +38,15 @@ type Props = {
   title: string;
   content: string;
   source: string;
-  isLoading?: boolean;
+  citations?: Citation[]; // Sources structurées (sinon `source` est relu)
+  isLoading?: boolean; // Aucune réponse encore (en file ou en attente du premier morceau)
+  isQueued?: boolean; // En attente dans la file d'exécution
+  isStreaming?: boolean; // Réponse en cours de réception
+  errorMessage?: string; // Dernière exécution échouée (la réponse affichée reste la précédente)
+  whatsNew?: string; // Résumé du changement par rapport à la veille
+  watchRules?: WatchRule[]; // Correspondances surlignées (texte et sources)
+  onWhatsNewPress?: () => void; // Ouvre la comparaison mot à mot
+  onStop?: () => void; // Interrompt le streaming (texte reçu conservé) ou annule
   index?: number; // Pour l'animation décalée
 };
 
@@ -35,6 +60,25 @@ type Props = {
  * - Long-press avec pattern progressif
  * - Liens avec feedback de confirmation
  *
+ * 🌊 STREAMING :
+ * - Le Markdown se construit au fil de la réception
+ * - Bouton "Arrêter" qui conserve le texte déjà reçu
+ *
+ * ✨ DU NOUVEAU :
+ * - Badge quand la réponse du jour diffère nettement de celle de la veille
+ *
+ * ⚠️ ÉCHECS :
+ * - Bandeau d'erreur au-dessus de la dernière réponse valide
+ *
+ * 📚 CITATIONS :
+ * - Marqueurs [n] du texte cliquables (mise en avant dans la liste)
+ * - Liste numérotée dépliable : titre, date, extrait, lien
+ * - Les anciens prompts (URLs séparées par des virgules) restent lisibles
+ *
+ * 👀 RÈGLES DE SURVEILLANCE :
+ * - Mots-clés et regex surlignés dans le Markdown
+ * - Sources des domaines surveillés mises en avant dans la liste
+ *
  * ✨ Animations d'apparition spectaculaires conservées :
  * - Slide + Fade in avec décalage par index
  * - Scale animation au tap coordonnée avec haptic
@@ -46,7 +90,15 @@ function Cards({
   title,
   content,
   source,
+  citations,
   isLoading = false,
+  isQueued = false,
+  isStreaming = false,
+  errorMessage,
+  whatsNew,
+  watchRules,
+  onWhatsNewPress,
+  onStop,
   index = 0,
 }: Props) {
   // ✅ NOUVEAU : Hook haptic pour feedback tactile premium
@@ -63,6 +115,10 @@ function Cards({
   const [sourceScale] = useState(new Animated.Value(1));
   const [pulseAnim] = useState(new Animated.Value(1));
 
+  // 📚 Liste des citations dépliée, et citation mise en avant via un marqueur
+  const [citationsExpanded, setCitationsExpanded] = useState(false);
+  const [activeCitation, setActiveCitation] = useState<number | null>(null);
+
   // ✅ Animations d'entrée sophistiquées
   const [slideY] = useState(new Animated.Value(50)); // Démarre 50px plus bas
   const [opacity] = useState(new Animated.Value(0)); // Démarre invisible
@@ -107,9 +163,9 @@ function Cards({
     }, staggerDelay + 700);
   }, [index, hapticMicro]);
 
-  // ✅ Animation de pulse pour le chargement
+  // ✅ Animation de pulse pour le chargement (et pendant le streaming)
   useEffect(() => {
-    if (isLoading) {
+    if (isLoading || isStreaming) {
       const pulseAnimation = Animated.loop(
         Animated.sequence([
           Animated.timing(pulseAnim, {
@@ -127,48 +183,80 @@ function Cards({
       pulseAnimation.start();
       return () => pulseAnimation.stop();
     }
-  }, [isLoading, pulseAnim]);
+  }, [isLoading, isStreaming, pulseAnim]);
+
+  /**
+   * ✋ Arrêt du streaming avec haptic de confirmation
+   */
+  const handleStopPress = useCallback(() => {
+    hapticMedium();
+    onStop?.();
+  }, [hapticMedium, onStop]);
+
+  /**
+   * 📚 Citations affichées : structurées si disponibles, sinon relues
+   * depuis l'ancien champ `source` (URLs séparées par des virgules)
+   */
+  const citationList = useMemo(
+    () =>
+      citations && citations.length > 0
+        ? citations
+        : citationsFromLegacySource(source),
+    [citations, source]
+  );
+
+  /**
+   * 🔗 Marqueurs [n] transformés en liens vers la liste des citations
+   */
+  const linkedContent = useMemo(() => {
+    const linked = linkCitationMarkers(content, citationList);
+    return watchRules?.length
+      ? highlightWatchMatches(linked, watchRules)
+      : linked;
+  }, [content, citationList, watchRules]);
+
+  /**
+   * 👀 Citations issues d'un domaine surveillé
+   */
+  const watchedCitations = useMemo(() => {
+    const domainRules = (watchRules ?? []).filter(
+      (rule) => rule.type === "domain"
+    );
+    return new Set(
+      citationList
+        .filter((citation) =>
+          domainRules.some((rule) => matchesDomain(citation.url, rule.pattern))
+        )
+        .map((citation) => citation.index)
+    );
+  }, [citationList, watchRules]);
 
   /**
    * 🔗 Détection intelligente du type de source
    */
   const sourceInfo = useMemo(() => {
-    const isUrl = source.startsWith("http://") || source.startsWith("https://");
-
-    if (isUrl) {
-      if (!source.includes(",")) {
-        return {
-          type: "single_url" as const,
-          displayText: `🔗 ${extractDomainName(source)}`,
-          url: source,
-        };
-      } else {
-        const urls = source.split(",").map((url) => url.trim());
-        return {
-          type: "multiple_urls" as const,
-          displayText: `🔗 ${urls.length} sources`,
-          urls: urls,
-        };
-      }
-    } else {
+    if (citationList.length === 1) {
       return {
-        type: "text" as const,
-        displayText: `📚 ${source}`,
-        url: null,
+        type: "single_url" as const,
+        displayText: `🔗 ${getCitationDomain(citationList[0].url)}`,
+        url: citationList[0].url,
       };
     }
-  }, [source]);
 
-  /**
-   * 🌐 Extraction du nom de domaine
-   */
-  const extractDomainName = useCallback((url: string): string => {
-    try {
-      return new URL(url).hostname.replace("www.", "");
-    } catch {
-      return url.substring(0, 30) + "...";
+    if (citationList.length > 1) {
+      return {
+        type: "multiple_urls" as const,
+        displayText: `🔗 ${citationList.length} sources`,
+        url: null,
+      };
     }
-  }, []);
+
+    return {
+      type: "text" as const,
+      displayText: source ? `📚 ${source}` : "",
+      url: null,
+    };
+  }, [citationList, source]);
 
   /**
    * 🎭 Animations de feedback tactile avec haptic coordination
@@ -256,17 +344,17 @@ function Cards({
   }, [sourceScale, sourceInfo.type]);
 
   /**
-   * 🎯 Gestion des clics sur les sources avec haptic feedback
+   * 🌐 Ouverture d'un lien avec haptic de confirmation
    */
-  const handleSourcePress = useCallback(async () => {
-    if (sourceInfo.type === "single_url" && sourceInfo.url) {
+  const openUrl = useCallback(
+    async (url: string) => {
       try {
         // ✅ NOUVEAU : Haptic de confirmation avant ouverture du lien
         hapticMedium(); // Action importante confirmée
 
-        const supported = await Linking.canOpenURL(sourceInfo.url);
+        const supported = await Linking.canOpenURL(url);
         if (supported) {
-          await Linking.openURL(sourceInfo.url);
+          await Linking.openURL(url);
         } else {
           // ✅ NOUVEAU : Haptic d'erreur si lien non supporté
           setTimeout(() => hapticError(), 100);
@@ -277,31 +365,48 @@ function Cards({
         setTimeout(() => hapticError(), 100);
         Alert.alert("Erreur", "Problème lors de l'ouverture du lien");
       }
-    } else if (sourceInfo.type === "multiple_urls" && sourceInfo.urls) {
-      // ✅ NOUVEAU : Haptic pour ouverture du sélecteur de sources
-      hapticSoft(); // Feedback d'ouverture de menu
-
-      const urlOptions = sourceInfo.urls.map((url, index) => ({
-        text: extractDomainName(url),
-        onPress: () => {
-          hapticMedium(); // Confirmation de sélection
-          Linking.openURL(url);
-        },
-      }));
-
-      Alert.alert("Choisir une source", "Plusieurs sources disponibles :", [
-        ...urlOptions.map((option, index) => ({
-          text: option.text,
-          onPress: option.onPress,
-        })),
-        {
-          text: "Annuler",
-          style: "cancel",
-          onPress: () => hapticMicro(), // Feedback discret d'annulation
-        },
-      ]);
+    },
+    [hapticMedium, hapticError]
+  );
+
+  /**
+   * 🎯 Gestion des clics sur les sources avec haptic feedback
+   *
+   * Plusieurs sources : la liste des citations se déplie sous la carte.
+   */
+  const handleSourcePress = useCallback(() => {
+    if (sourceInfo.type === "single_url" && sourceInfo.url) {
+      openUrl(sourceInfo.url);
+    } else if (sourceInfo.type === "multiple_urls") {
+      hapticSoft(); // Feedback d'ouverture de la liste
+      setCitationsExpanded((expanded) => !expanded);
+      setActiveCitation(null);
     }
-  }, [sourceInfo, extractDomainName, hapticMedium, hapticSoft, hapticMicro]);
+  }, [sourceInfo, openUrl, hapticSoft]);
+
+  /**
+   * 🔢 Clic sur un lien du Markdown
+   *
+   * Les marqueurs [n] déplient la liste et mettent la citation en avant ;
+   * les autres liens gardent le comportement par défaut (navigateur).
+   */
+  const handleLinkPress = useCallback(
+    (url: string) => {
+      if (!url.startsWith(CITATION_LINK_PREFIX)) return true;
+
+      const citationIndex = Number(url.slice(CITATION_LINK_PREFIX.length));
+      const citation = citationList.find((c) => c.index === citationIndex);
+      if (citation && citationList.length === 1) {
+        openUrl(citation.url);
+      } else if (citation) {
+        hapticSoft();
+        setCitationsExpanded(true);
+        setActiveCitation(citation.index);
+      }
+      return false;
+    },
+    [citationList, openUrl, hapticSoft]
+  );
 
   /**
    * 🎨 Styles dynamiques avec support des animations
@@ -345,21 +450,81 @@ function Cards({
             },
           ]}
         >
-          {/* ✅ Indicateur de chargement avec animation */}
+          {/* ✅ Indicateur de chargement avec bouton d'annulation */}
           {isLoading && (
-            <View style={styles.loadingIndicator}>
-              <Animated.View
-                style={[
-                  styles.loadingDot,
-                  { transform: [{ scale: pulseAnim }] },
-                ]}
-              />
-              <AppText style={styles.loadingText}>
-                Génération en cours...
-              </AppText>
+            <View style={styles.streamingRow}>
+              <View style={styles.loadingIndicator}>
+                <Animated.View
+                  style={[
+                    styles.loadingDot,
+                    { transform: [{ scale: pulseAnim }] },
+                  ]}
+                />
+                <AppText style={styles.loadingText}>
+                  {isQueued ? "En attente..." : "Génération en cours..."}
+                </AppText>
+              </View>
+              {onStop && (
+                <TouchableOpacity
+                  style={styles.stopButton}
+                  onPress={handleStopPress}
+                  accessibilityLabel="Annuler la requête"
+                  accessibilityRole="button"
+                >
+                  <Stop size={14} color="#ff4757" weight="fill" />
+                  <AppText style={styles.stopText}>Annuler</AppText>
+                </TouchableOpacity>
+              )}
             </View>
           )}
 
+          {/* 🌊 Réception en cours avec bouton d'arrêt */}
+          {isStreaming && (
+            <View style={styles.streamingRow}>
+              <View style={styles.loadingIndicator}>
+                <Animated.View
+                  style={[
+                    styles.loadingDot,
+                    { transform: [{ scale: pulseAnim }] },
+                  ]}
+                />
+                <AppText style={styles.loadingText}>Réponse en cours...</AppText>
+              </View>
+              {onStop && (
+                <TouchableOpacity
+                  style={styles.stopButton}
+                  onPress={handleStopPress}
+                  accessibilityLabel="Arrêter la génération"
+                  accessibilityRole="button"
+                >
+                  <Stop size={14} color="#ff4757" weight="fill" />
+                  <AppText style={styles.stopText}>Arrêter</AppText>
+                </TouchableOpacity>
+              )}
+            </View>
+          )}
+
+          {/* ⚠️ Échec de la dernière exécution */}
+          {errorMessage && (
+            <View style={styles.errorRow}>
+              <WarningCircle size={14} color="#ff4757" weight="fill" />
+              <AppText style={styles.errorText}>{errorMessage}</AppText>
+            </View>
+          )}
+
+          {/* ✨ Changement notable depuis la veille */}
+          {whatsNew && (
+            <TouchableOpacity
+              style={styles.whatsNewBadge}
+              onPress={onWhatsNewPress}
+              accessibilityLabel="Voir les changements depuis hier"
+              accessibilityRole="button"
+            >
+              <Sparkle size={12} color="#f9ca24" weight="fill" />
+              <AppText style={styles.whatsNewText}>{whatsNew}</AppText>
+            </TouchableOpacity>
+          )}
+
           {/* 📝 Titre avec style amélioré */}
           <AppText 
             style={[styles.title, isLoading && styles.titleLoading]}
@@ -369,10 +534,18 @@ function Cards({
           </AppText>
 
           {/* 🎨 Contenu markdown */}
-          {!isLoading && <Markdown style={markdownStyles}>{content}</Markdown>}
+          {!isLoading && (
+            <Markdown
+              style={markdownStyles}
+              rules={markdownRules}
+              onLinkPress={handleLinkPress}
+            >
+              {linkedContent}
+            </Markdown>
+          )}
 
           {/* 🔗 Source interactive avec haptic feedback */}
-          {!isLoading && (
+          {!isLoading && sourceInfo.displayText !== "" && (
             <Pressable
               onPressIn={handleSourcePressIn}
               onPressOut={handleSourcePressOut}
@@ -409,6 +582,44 @@ function Cards({
               </Animated.View>
             </Pressable>
           )}
+
+          {/* 📚 Liste numérotée des citations */}
+          {!isLoading && citationsExpanded && citationList.length > 1 && (
+            <View style={styles.citationList}>
+              {citationList.map((citation) => (
+                <TouchableOpacity
+                  key={citation.index}
+                  style={[
+                    styles.citationItem,
+                    activeCitation === citation.index &&
+                      styles.citationItemActive,
+                    watchedCitations.has(citation.index) &&
+                      styles.citationItemWatched,
+                  ]}
+                  onPress={() => openUrl(citation.url)}
+                  accessibilityRole="link"
+                >
+                  <AppText style={styles.citationIndex} bold>
+                    [{citation.index}]
+                  </AppText>
+                  <View style={styles.citationBody}>
+                    <AppText style={styles.citationTitle} numberOfLines={2}>
+                      {citation.title || getCitationDomain(citation.url)}
+                    </AppText>
+                    <AppText style={styles.citationMeta}>
+                      {getCitationDomain(citation.url)}
+                      {citation.date ? ` · ${citation.date}` : ""}
+                    </AppText>
+                    {citation.snippet && (
+                      <AppText style={styles.citationSnippet} numberOfLines={3}>
+                        {citation.snippet}
+                      </AppText>
+                    )}
+                  </View>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
         </Animated.View>
       </Pressable>
     </View>
@@ -423,7 +634,13 @@ export default memo(Cards, (prevProps, nextProps) => {
     prevProps.title === nextProps.title &&
     prevProps.content === nextProps.content &&
     prevProps.source === nextProps.source &&
+    prevProps.citations === nextProps.citations &&
     prevProps.isLoading === nextProps.isLoading &&
+    prevProps.isQueued === nextProps.isQueued &&
+    prevProps.isStreaming === nextProps.isStreaming &&
+    prevProps.errorMessage === nextProps.errorMessage &&
+    prevProps.whatsNew === nextProps.whatsNew &&
+    prevProps.watchRules === nextProps.watchRules &&
     prevProps.index === nextProps.index
   );
 });
@@ -489,6 +706,62 @@ const styles = StyleSheet.create({
     opacity: 0.7,
   },
 
+  streamingRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+
+  stopButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: "rgba(255, 71, 87, 0.1)",
+  },
+
+  stopText: {
+    fontSize: 12,
+    color: "#ff4757",
+    marginLeft: 4,
+  },
+
+  whatsNewBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    marginBottom: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: "rgba(249, 202, 36, 0.12)",
+  },
+
+  whatsNewText: {
+    fontSize: 12,
+    color: "#f9ca24",
+    marginLeft: 4,
+  },
+
+  errorRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    marginBottom: 12,
+    padding: 8,
+    borderRadius: 8,
+    backgroundColor: "rgba(255, 71, 87, 0.1)",
+  },
+
+  errorText: {
+    flex: 1,
+    fontSize: 12,
+    color: "#ff4757",
+    marginLeft: 6,
+    lineHeight: 17,
+  },
+
   sourceContainer: {
     marginTop: 16,
     paddingHorizontal: 10,
@@ -519,8 +792,73 @@ const styles = StyleSheet.create({
     color: "#81b0ff",
     fontWeight: "bold",
   },
+
+  citationList: {
+    marginTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: "rgba(255, 255, 255, 0.06)",
+    paddingTop: 8,
+  },
+
+  citationItem: {
+    flexDirection: "row",
+    paddingVertical: 8,
+    paddingHorizontal: 6,
+    borderRadius: 8,
+  },
+
+  citationItemActive: {
+    backgroundColor: "rgba(129, 176, 255, 0.12)",
+  },
+
+  citationItemWatched: {
+    borderLeftWidth: 3,
+    borderLeftColor: "#f9ca24",
+  },
+
+  citationIndex: {
+    fontSize: 13,
+    color: "#81b0ff",
+    width: 32,
+  },
+
+  citationBody: {
+    flex: 1,
+  },
+
+  citationTitle: {
+    fontSize: 14,
+    color: "#fff",
+  },
+
+  citationMeta: {
+    fontSize: 12,
+    color: "#888",
+    marginTop: 2,
+  },
+
+  citationSnippet: {
+    fontSize: 12,
+    color: "#aaa",
+    marginTop: 4,
+    lineHeight: 17,
+  },
 });
 
+/**
+ * 👀 Liens `watch:` rendus comme du texte surligné, non cliquable
+ */
+const markdownRules: RenderRules = {
+  link: (node, children, parent, styles, onLinkPress) =>
+    String(node.attributes.href ?? "").startsWith(WATCH_LINK_PREFIX) ? (
+      <Text key={node.key} style={styles.watch_match}>
+        {children}
+      </Text>
+    ) : (
+      renderRules.link!(node, children, parent, styles, onLinkPress)
+    ),
+};
+
 /**
  * 🎨 Styles Markdown inchangés
  */
@@ -596,6 +934,11 @@ const markdownStyles = StyleSheet.create({
     fontFamily: "Satoshi-Bold",
   },
 
+  watch_match: {
+    backgroundColor: "rgba(249, 202, 36, 0.25)",
+    color: "#FFFFFF",
+  },
+
   code_inline: {
     backgroundColor: "rgba(129, 176, 255, 0.15)",
     color: "#81b0ff",
@@ -630,7 +973,8 @@ const markdownStyles = StyleSheet.create({
  *
  * 🔗 ACTIONS SUR SOURCES :
  * - Lien simple : hapticMedium() avant ouverture (action importante)
- * - Multi-sources : hapticSoft() pour menu + hapticMedium() pour sélection
+ * - Multi-sources : hapticSoft() pour déplier la liste + hapticMedium() pour ouvrir
+ * - Marqueur [n] : hapticSoft() et mise en avant de la citation
  * - Erreur lien : hapticError() pour feedback négatif
  * - Annulation : hapticMicro() pour action discrète
  *
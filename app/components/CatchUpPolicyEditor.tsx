@@ -0,0 +1,133 @@
+import React from "react";
+import { View, TouchableOpacity, StyleSheet } from "react-native";
+import AppText from "./AppText";
+import {
+  CatchUpMode,
+  CatchUpPolicy,
+  CATCH_UP_LABELS,
+  CATCH_UP_HOURS_OPTIONS,
+  describeCatchUpPolicy,
+} from "../utils/scheduler";
+
+type Props = {
+  value: CatchUpPolicy;
+  onChange: (policy: CatchUpPolicy) => void;
+};
+
+/**
+ * ⏪ Politique de rattrapage d'un prompt récurrent
+ *
+ * Utilisé dans AddScheduledPromptScreen et dans le modal d'édition de
+ * ManagePromptsScreen. Le délai maximal n'est proposé qu'en mode
+ * "Si récent".
+ */
+export default function CatchUpPolicyEditor({ value, onChange }: Props) {
+  const selectMode = (mode: CatchUpMode) =>
+    onChange(
+      mode === "within"
+        ? { mode, withinHours: value.withinHours ?? CATCH_UP_HOURS_OPTIONS[2] }
+        : { mode }
+    );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        {(Object.keys(CATCH_UP_LABELS) as CatchUpMode[]).map((mode) => (
+          <Chip
+            key={mode}
+            label={CATCH_UP_LABELS[mode]}
+            selected={value.mode === mode}
+            onPress={() => selectMode(mode)}
+          />
+        ))}
+      </View>
+
+      {value.mode === "within" && (
+        <View style={styles.row}>
+          {CATCH_UP_HOURS_OPTIONS.map((hours) => (
+            <Chip
+              key={hours}
+              label={`< ${hours} h`}
+              selected={value.withinHours === hours}
+              onPress={() => onChange({ ...value, withinHours: hours })}
+            />
+          ))}
+        </View>
+      )}
+
+      <AppText style={styles.hint}>
+        {describeCatchUpPolicy(value)} si l'app était fermée à l'heure
+        prévue.
+      </AppText>
+    </View>
+  );
+}
+
+function Chip({
+  label,
+  selected,
+  onPress,
+}: {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <TouchableOpacity
+      style={[styles.chip, selected && styles.chipActive]}
+      onPress={onPress}
+    >
+      <AppText style={[styles.chipText, selected && styles.chipTextActive]}>
+        {label}
+      </AppText>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#252525",
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.06)",
+  },
+
+  row: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    paddingVertical: 4,
+  },
+
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    marginRight: 6,
+    marginVertical: 4,
+    backgroundColor: "#333",
+    borderWidth: 1,
+    borderColor: "transparent",
+  },
+
+  chipActive: {
+    borderColor: "#81b0ff",
+  },
+
+  chipText: {
+    fontSize: 13,
+    color: "#ccc",
+  },
+
+  chipTextActive: {
+    color: "#81b0ff",
+  },
+
+  hint: {
+    fontSize: 12,
+    color: "#888",
+    fontStyle: "italic",
+    paddingBottom: 8,
+  },
+});
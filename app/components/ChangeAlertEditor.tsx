@@ -0,0 +1,128 @@
+import React from "react";
+import { View, Switch, TouchableOpacity, StyleSheet } from "react-native";
+import AppText from "./AppText";
+import {
+  ChangeAlert,
+  CHANGE_ALERT_THRESHOLDS,
+} from "../utils/changeDetection";
+
+type Props = {
+  value: ChangeAlert;
+  onChange: (alert: ChangeAlert) => void;
+};
+
+/**
+ * 🔔 Réglage "alerter seulement si la réponse change"
+ *
+ * Utilisé dans AddScheduledPromptScreen et dans le modal d'édition de
+ * ManagePromptsScreen. Le seuil n'est proposé que si l'alerte est active.
+ */
+export default function ChangeAlertEditor({ value, onChange }: Props) {
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <AppText style={styles.label}>
+          Alerter seulement si la réponse change
+        </AppText>
+        <Switch
+          value={value.enabled}
+          onValueChange={(enabled) => onChange({ ...value, enabled })}
+          trackColor={{ false: "#333", true: "#333" }}
+          thumbColor={value.enabled ? "#81b0ff" : "grey"}
+        />
+      </View>
+
+      {value.enabled && (
+        <>
+          <View style={styles.row}>
+            <AppText style={styles.label}>Seuil de changement</AppText>
+            <View style={styles.chips}>
+              {CHANGE_ALERT_THRESHOLDS.map((threshold) => {
+                const isSelected = value.threshold === threshold;
+                return (
+                  <TouchableOpacity
+                    key={threshold}
+                    style={[styles.chip, isSelected && styles.chipActive]}
+                    onPress={() => onChange({ ...value, threshold })}
+                  >
+                    <AppText
+                      style={[
+                        styles.chipText,
+                        isSelected && styles.chipTextActive,
+                      ]}
+                    >
+                      {Math.round(threshold * 100)} %
+                    </AppText>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+          <AppText style={styles.hint}>
+            Texte et sources sont comparés à la réponse précédente ; pas de
+            rappel à l'heure prévue.
+          </AppText>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#252525",
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.06)",
+  },
+
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: 8,
+  },
+
+  label: {
+    flex: 1,
+    fontSize: 14,
+    color: "#ccc",
+    marginRight: 8,
+  },
+
+  chips: {
+    flexDirection: "row",
+  },
+
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    marginLeft: 6,
+    backgroundColor: "#333",
+    borderWidth: 1,
+    borderColor: "transparent",
+  },
+
+  chipActive: {
+    borderColor: "#81b0ff",
+  },
+
+  chipText: {
+    fontSize: 13,
+    color: "#ccc",
+  },
+
+  chipTextActive: {
+    color: "#81b0ff",
+  },
+
+  hint: {
+    fontSize: 12,
+    color: "#888",
+    fontStyle: "italic",
+    paddingBottom: 8,
+  },
+});
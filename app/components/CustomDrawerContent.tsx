@@ -9,7 +9,14 @@ import {
 } from "react-native";
 import { DrawerContentComponentProps } from "@react-navigation/drawer";
 import { useHaptic } from "../hooks/useHaptic"; // ✅ Import haptic
-import { House, Wrench, CalendarPlus, User, Gear } from "phosphor-react-native";
+import {
+  House,
+  Wrench,
+  CalendarPlus,
+  Robot,
+  User,
+  Gear,
+} from "phosphor-react-native";
 
 /**
  * 🎨 CustomDrawerContent avec Items Custom et Haptic Feedback Complet
@@ -115,6 +122,21 @@ export default function CustomDrawerContent(
           </View>
         </TouchableOpacity>
 
+        {/* 🎭 Personas */}
+        <TouchableOpacity
+          style={styles.drawerItem}
+          onPress={() => navigateToScreen("Personas")}
+          onPressIn={handleItemPressIn}
+          activeOpacity={0.7}
+          accessibilityLabel="Personas - Gérer les prompts système"
+          accessibilityRole="button"
+        >
+          <View style={styles.itemContent}>
+            <Robot size={22} color="#fff" weight="regular" />
+            <AppText style={styles.drawerItemText}>Personas</AppText>
+          </View>
+        </TouchableOpacity>
+
         {/* 👤 Profil */}
         <TouchableOpacity
           style={styles.drawerItem}
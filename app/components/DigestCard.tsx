@@ -0,0 +1,157 @@
+import React, { memo } from "react";
+import { View, StyleSheet, Dimensions, TouchableOpacity } from "react-native";
+import AppText from "./AppText";
+import { CATEGORIES } from "../utils/categories";
+import type { Digest } from "../utils/digest";
+
+const { width } = Dimensions.get("window");
+
+type Props = {
+  digest: Digest;
+  onItemPress: (promptId: string) => void;
+};
+
+/**
+ * 🗞️ Digest du jour, épinglé en tête du fil de l'accueil
+ *
+ * Résumé de l'IA s'il a été demandé, puis les réponses par catégorie ;
+ * un appui sur une réponse ouvre le détail du prompt.
+ */
+function DigestCard({ digest, onItemPress }: Props) {
+  return (
+    <View style={styles.container}>
+      <View style={styles.card}>
+        <AppText style={styles.title} bold>
+          🗞️ Digest du jour
+        </AppText>
+        <AppText style={styles.date}>
+          {new Date(digest.createdAt).toLocaleString("fr-FR", {
+            weekday: "long",
+            day: "numeric",
+            month: "long",
+            hour: "2-digit",
+            minute: "2-digit",
+          })}
+        </AppText>
+
+        {digest.summary && (
+          <AppText style={styles.summary}>{digest.summary}</AppText>
+        )}
+
+        {digest.sections.map((section) => {
+          const category =
+            CATEGORIES.find((cat) => cat.id === section.categoryId) ??
+            CATEGORIES[CATEGORIES.length - 1];
+          return (
+            <View key={section.categoryId} style={styles.section}>
+              <AppText
+                style={[styles.categoryName, { color: category.color }]}
+                bold
+              >
+                {category.name}
+              </AppText>
+              {section.items.map((item) => (
+                <TouchableOpacity
+                  key={item.promptId}
+                  style={styles.item}
+                  onPress={() => onItemPress(item.promptId)}
+                  accessibilityRole="button"
+                >
+                  <AppText style={styles.question} numberOfLines={2} bold>
+                    {item.question}
+                  </AppText>
+                  <AppText
+                    style={[styles.excerpt, item.failed && styles.failed]}
+                    numberOfLines={3}
+                  >
+                    {item.failed ? `⚠️ ${item.excerpt}` : item.excerpt}
+                  </AppText>
+                  {item.topSource && (
+                    <AppText style={styles.source}>
+                      🔗 {item.topSource}
+                    </AppText>
+                  )}
+                </TouchableOpacity>
+              ))}
+            </View>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+export default memo(DigestCard);
+
+const styles = StyleSheet.create({
+  container: {
+    width: width * 0.9,
+    alignSelf: "center",
+    marginVertical: 8,
+  },
+
+  card: {
+    backgroundColor: "#252525",
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: "#81b0ff55",
+  },
+
+  title: {
+    fontSize: 18,
+    color: "#FFFFFF",
+    letterSpacing: -0.3,
+  },
+
+  date: {
+    fontSize: 12,
+    color: "#888",
+    marginTop: 2,
+    marginBottom: 8,
+  },
+
+  summary: {
+    fontSize: 15,
+    color: "#FFFFFF",
+    lineHeight: 22,
+    marginBottom: 8,
+  },
+
+  section: {
+    marginTop: 8,
+  },
+
+  categoryName: {
+    fontSize: 13,
+    marginBottom: 4,
+  },
+
+  item: {
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: "rgba(255, 255, 255, 0.06)",
+  },
+
+  question: {
+    fontSize: 14,
+    color: "#FFFFFF",
+    marginBottom: 2,
+  },
+
+  excerpt: {
+    fontSize: 13,
+    color: "#ccc",
+    lineHeight: 18,
+  },
+
+  failed: {
+    color: "#ff4757",
+  },
+
+  source: {
+    fontSize: 12,
+    color: "#81b0ff",
+    marginTop: 2,
+  },
+});
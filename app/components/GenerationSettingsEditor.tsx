@@ -0,0 +1,186 @@
+import React, { useCallback } from "react";
+import { View, TextInput, StyleSheet } from "react-native";
+import AppText from "./AppText";
+import { GenerationParams, DEFAULT_GENERATION } from "../utils/aiProviders";
+
+/**
+ * 📝 Brouillon éditable des paramètres de génération
+ *
+ * Les champs restent des chaînes pendant la saisie (virgule, champ vide...)
+ * et ne sont convertis qu'à l'enregistrement via parseGenerationDraft().
+ */
+export type GenerationDraft = {
+  model: string;
+  temperature: string;
+  maxTokens: string;
+  topP: string;
+};
+
+export const EMPTY_GENERATION_DRAFT: GenerationDraft = {
+  model: "",
+  temperature: "",
+  maxTokens: "",
+  topP: "",
+};
+
+/**
+ * 🔄 Conversion GenerationParams → brouillon de formulaire
+ */
+export function toGenerationDraft(generation?: GenerationParams): GenerationDraft {
+  return {
+    model: generation?.model ?? "",
+    temperature: generation?.temperature?.toString() ?? "",
+    maxTokens: generation?.maxTokens?.toString() ?? "",
+    topP: generation?.topP?.toString() ?? "",
+  };
+}
+
+/**
+ * ✅ Validation et conversion brouillon → GenerationParams
+ *
+ * Un champ vide signifie "valeur par défaut". Retourne un message d'erreur
+ * si une valeur est hors bornes, `undefined` si rien n'est personnalisé.
+ */
+export function parseGenerationDraft(
+  draft: GenerationDraft
+): { generation?: GenerationParams; error?: string } {
+  const toNumber = (value: string) =>
+    value.trim() === "" ? undefined : Number(value.replace(",", "."));
+
+  const temperature = toNumber(draft.temperature);
+  const maxTokens = toNumber(draft.maxTokens);
+  const topP = toNumber(draft.topP);
+
+  if (temperature !== undefined && !(temperature >= 0 && temperature <= 2)) {
+    return { error: "La temperature doit être comprise entre 0 et 2." };
+  }
+  if (
+    maxTokens !== undefined &&
+    !(Number.isInteger(maxTokens) && maxTokens > 0)
+  ) {
+    return { error: "Le nombre max de tokens doit être un entier positif." };
+  }
+  if (topP !== undefined && !(topP >= 0 && topP <= 1)) {
+    return { error: "Le top_p doit être compris entre 0 et 1." };
+  }
+
+  const generation: GenerationParams = {
+    ...(draft.model.trim() && { model: draft.model.trim() }),
+    ...(temperature !== undefined && { temperature }),
+    ...(maxTokens !== undefined && { maxTokens }),
+    ...(topP !== undefined && { topP }),
+  };
+
+  return {
+    generation: Object.keys(generation).length > 0 ? generation : undefined,
+  };
+}
+
+type Props = {
+  value: GenerationDraft;
+  onChange: (draft: GenerationDraft) => void;
+  defaultModel: string; // Affiché en placeholder du champ modèle
+};
+
+/**
+ * 🎚️ Éditeur des paramètres de génération d'un prompt
+ *
+ * Utilisé dans AddScheduledPromptScreen et dans le modal d'édition de
+ * ManagePromptsScreen. Les placeholders rappellent les valeurs par défaut.
+ */
+export default function GenerationSettingsEditor({
+  value,
+  onChange,
+  defaultModel,
+}: Props) {
+  const setField = useCallback(
+    (field: keyof GenerationDraft) => (text: string) =>
+      onChange({ ...value, [field]: text }),
+    [value, onChange]
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <AppText style={styles.label}>Modèle</AppText>
+        <TextInput
+          style={styles.input}
+          value={value.model}
+          onChangeText={setField("model")}
+          placeholder={defaultModel}
+          placeholderTextColor="#666"
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+      </View>
+
+      <View style={styles.row}>
+        <AppText style={styles.label}>Temperature</AppText>
+        <TextInput
+          style={styles.input}
+          value={value.temperature}
+          onChangeText={setField("temperature")}
+          placeholder={DEFAULT_GENERATION.temperature.toString()}
+          placeholderTextColor="#666"
+          keyboardType="decimal-pad"
+        />
+      </View>
+
+      <View style={styles.row}>
+        <AppText style={styles.label}>Max tokens</AppText>
+        <TextInput
+          style={styles.input}
+          value={value.maxTokens}
+          onChangeText={setField("maxTokens")}
+          placeholder={DEFAULT_GENERATION.maxTokens.toString()}
+          placeholderTextColor="#666"
+          keyboardType="number-pad"
+        />
+      </View>
+
+      <View style={styles.row}>
+        <AppText style={styles.label}>Top P</AppText>
+        <TextInput
+          style={styles.input}
+          value={value.topP}
+          onChangeText={setField("topP")}
+          placeholder="auto"
+          placeholderTextColor="#666"
+          keyboardType="decimal-pad"
+        />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#252525",
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.06)",
+  },
+
+  row: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: 8,
+  },
+
+  label: {
+    fontSize: 14,
+    color: "#ccc",
+  },
+
+  input: {
+    minWidth: 120,
+    textAlign: "right",
+    fontSize: 14,
+    color: "#81b0ff",
+    paddingVertical: 4,
+    fontFamily: "Satoshi-Regular",
+  },
+});
@@ -0,0 +1,108 @@
+import React from "react";
+import { View, TouchableOpacity, StyleSheet } from "react-native";
+import AppText from "./AppText";
+import {
+  MAX_RETRIES_OPTIONS,
+  RETRY_DELAYS_MINUTES,
+} from "../utils/scheduler";
+
+type Props = {
+  value: number;
+  onChange: (maxRetries: number) => void;
+};
+
+const LAST_DELAY = RETRY_DELAYS_MINUTES[RETRY_DELAYS_MINUTES.length - 1];
+
+const formatDelay = (minutes: number) =>
+  minutes < 60 ? `+${minutes} min` : `+${minutes / 60} h`;
+
+/**
+ * 🔁 Nombre de nouvelles tentatives après l'échec d'une exécution planifiée
+ *
+ * Utilisé dans AddScheduledPromptScreen et dans le modal d'édition de
+ * ManagePromptsScreen. Les délais affichés sont ceux du moteur.
+ */
+export default function RetryLimitEditor({ value, onChange }: Props) {
+  const delays = RETRY_DELAYS_MINUTES.slice(0, value).map(formatDelay);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        {MAX_RETRIES_OPTIONS.map((count) => {
+          const isSelected = value === count;
+          return (
+            <TouchableOpacity
+              key={count}
+              style={[styles.chip, isSelected && styles.chipActive]}
+              onPress={() => onChange(count)}
+            >
+              <AppText
+                style={[styles.chipText, isSelected && styles.chipTextActive]}
+              >
+                {count === 0 ? "Aucune" : count}
+              </AppText>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <AppText style={styles.hint}>
+        {value === 0
+          ? "Un échec attend la prochaine exécution prévue."
+          : `Nouvel essai à ${delays.join(", ")}${
+              value > RETRY_DELAYS_MINUTES.length
+                ? `, puis ${formatDelay(LAST_DELAY)} à chaque essai`
+                : ""
+            }.`}
+      </AppText>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#252525",
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.06)",
+  },
+
+  row: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    paddingVertical: 4,
+  },
+
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    marginRight: 6,
+    marginVertical: 4,
+    backgroundColor: "#333",
+    borderWidth: 1,
+    borderColor: "transparent",
+  },
+
+  chipActive: {
+    borderColor: "#81b0ff",
+  },
+
+  chipText: {
+    fontSize: 13,
+    color: "#ccc",
+  },
+
+  chipTextActive: {
+    color: "#81b0ff",
+  },
+
+  hint: {
+    fontSize: 12,
+    color: "#888",
+    fontStyle: "italic",
+    paddingBottom: 8,
+  },
+});
@@ -0,0 +1,144 @@
+import React, { useMemo } from "react";
+import { View, StyleSheet, ScrollView } from "react-native";
+import AppText from "./AppText";
+import { PromptRun } from "../utils/runHistory";
+import { diffWords, summarizeChange } from "../utils/textDiff";
+
+type Props = {
+  before: PromptRun;
+  after: PromptRun;
+};
+
+const formatRunDate = (run: PromptRun) =>
+  new Date(run.startedAt).toLocaleString("fr-FR", {
+    day: "2-digit",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+/**
+ * 🔀 Comparaison mot à mot de deux exécutions
+ *
+ * Le texte de l'exécution la plus récente est affiché tel quel, les mots
+ * ajoutés surlignés en vert et les mots disparus barrés en rouge.
+ * Utilisé par PromptHistoryScreen (sélection libre de deux exécutions
+ * ou ouverture depuis le badge "du nouveau" du feed).
+ */
+export default function RunDiffView({ before, after }: Props) {
+  const segments = useMemo(
+    () => diffWords(before.response, after.response),
+    [before.response, after.response]
+  );
+  const summary = useMemo(
+    () => summarizeChange(before.response, after.response),
+    [before.response, after.response]
+  );
+
+  return (
+    <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
+      <View style={styles.header}>
+        <AppText style={styles.runLabel}>
+          Avant :{" "}
+          <AppText style={styles.runDate}>{formatRunDate(before)}</AppText>
+        </AppText>
+        <AppText style={styles.runLabel}>
+          Après :{" "}
+          <AppText style={styles.runDate}>{formatRunDate(after)}</AppText>
+        </AppText>
+      </View>
+
+      <View style={styles.summaryRow}>
+        <AppText style={styles.addedCount} bold>
+          +{summary.addedWords} mots
+        </AppText>
+        <AppText style={styles.removedCount} bold>
+          −{summary.removedWords} mots
+        </AppText>
+        <AppText style={styles.ratioText}>
+          {Math.round(summary.ratio * 100)} % modifié
+        </AppText>
+      </View>
+
+      <AppText style={styles.diffText}>
+        {segments.map((segment, index) => (
+          <AppText
+            key={index}
+            style={
+              segment.type === "added"
+                ? styles.added
+                : segment.type === "removed"
+                ? styles.removed
+                : undefined
+            }
+          >
+            {segment.text}
+          </AppText>
+        ))}
+      </AppText>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+  },
+
+  header: {
+    marginBottom: 12,
+  },
+
+  runLabel: {
+    fontSize: 14,
+    color: "#888",
+    marginBottom: 4,
+  },
+
+  runDate: {
+    fontSize: 14,
+    color: "#fff",
+  },
+
+  summaryRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 16,
+  },
+
+  addedCount: {
+    fontSize: 14,
+    color: "#4CAF50",
+    marginRight: 12,
+  },
+
+  removedCount: {
+    fontSize: 14,
+    color: "#ff4757",
+    marginRight: 12,
+  },
+
+  ratioText: {
+    fontSize: 13,
+    color: "#888",
+  },
+
+  diffText: {
+    fontSize: 15,
+    color: "#ccc",
+    lineHeight: 22,
+    paddingBottom: 32,
+  },
+
+  added: {
+    color: "#fff",
+    backgroundColor: "rgba(76, 175, 80, 0.3)",
+  },
+
+  removed: {
+    color: "#ff4757",
+    textDecorationLine: "line-through",
+    backgroundColor: "rgba(255, 71, 87, 0.12)",
+  },
+});
@@ -0,0 +1,319 @@
+import React, { useMemo } from "react";
+import {
+  View,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+} from "react-native";
+import AppText from "./AppText";
+import {
+  ScheduleFrequency,
+  ScheduleRule,
+  FREQUENCY_LABELS,
+  WEEKDAY_OPTIONS,
+  INTERVAL_HOURS_OPTIONS,
+  MAX_DAY_OF_MONTH,
+  getNextOccurrences,
+  validateScheduleRule,
+} from "../utils/schedule";
+
+/**
+ * 📝 Brouillon de fréquence : toutes les options restent mémorisées
+ * pendant l'édition, seules celles de la fréquence choisie sont gardées
+ * à l'enregistrement via toScheduleFields().
+ */
+export type ScheduleDraft = {
+  frequency: ScheduleFrequency;
+  weekdays: number[];
+  intervalHours: number;
+  dayOfMonth: number;
+  cron: string;
+};
+
+type ScheduleFields = Pick<
+  ScheduleRule,
+  "frequency" | "weekdays" | "intervalHours" | "dayOfMonth" | "cron"
+>;
+
+export const DEFAULT_SCHEDULE_DRAFT: ScheduleDraft = {
+  frequency: "daily",
+  weekdays: [1],
+  intervalHours: 6,
+  dayOfMonth: 1,
+  cron: "",
+};
+
+/**
+ * 🔄 Planification existante → brouillon de formulaire
+ */
+export function toScheduleDraft(rule?: ScheduleFields): ScheduleDraft {
+  return {
+    frequency: rule?.frequency ?? DEFAULT_SCHEDULE_DRAFT.frequency,
+    weekdays: rule?.weekdays ?? DEFAULT_SCHEDULE_DRAFT.weekdays,
+    intervalHours: rule?.intervalHours ?? DEFAULT_SCHEDULE_DRAFT.intervalHours,
+    dayOfMonth: rule?.dayOfMonth ?? DEFAULT_SCHEDULE_DRAFT.dayOfMonth,
+    cron: rule?.cron ?? DEFAULT_SCHEDULE_DRAFT.cron,
+  };
+}
+
+/**
+ * ✅ Brouillon → champs de planification de la fréquence choisie
+ */
+export function toScheduleFields(draft: ScheduleDraft): ScheduleFields {
+  return {
+    frequency: draft.frequency,
+    weekdays: draft.frequency === "weekly" ? draft.weekdays : undefined,
+    intervalHours:
+      draft.frequency === "hourly" ? draft.intervalHours : undefined,
+    dayOfMonth: draft.frequency === "monthly" ? draft.dayOfMonth : undefined,
+    cron: draft.frequency === "cron" ? draft.cron.trim() : undefined,
+  };
+}
+
+type Props = {
+  value: ScheduleDraft;
+  onChange: (draft: ScheduleDraft) => void;
+  hour: number; // Heure de référence choisie avec le DateTimePicker
+  minute: number;
+  timeZone?: string; // Fuseau de la planification (appareil à défaut)
+};
+
+/**
+ * 🔢 Nombre d'exécutions affichées dans l'aperçu
+ */
+const PREVIEW_COUNT = 5;
+
+const DAYS_OF_MONTH = Array.from(
+  { length: MAX_DAY_OF_MONTH },
+  (_, i) => i + 1
+);
+
+/**
+ * 📅 Choix de la fréquence d'un prompt récurrent
+ *
+ * Utilisé dans AddScheduledPromptScreen et dans le modal d'édition de
+ * ManagePromptsScreen ; l'heure reste choisie avec le DateTimePicker
+ * (sauf en mode cron). Les cinq prochaines exécutions sont affichées,
+ * dans le fuseau de la planification, pour repérer une erreur avant
+ * l'enregistrement.
+ */
+export default function SchedulePicker({
+  value,
+  onChange,
+  hour,
+  minute,
+  timeZone,
+}: Props) {
+  const preview = useMemo(() => {
+    const rule: ScheduleRule = {
+      hour,
+      minute,
+      timeZone,
+      ...toScheduleFields(value),
+    };
+    const error = validateScheduleRule(rule);
+    return error
+      ? { error, runs: [] }
+      : { error: undefined, runs: getNextOccurrences(rule, PREVIEW_COUNT) };
+  }, [value, hour, minute, timeZone]);
+
+  const toggleWeekday = (day: number) =>
+    onChange({
+      ...value,
+      weekdays: value.weekdays.includes(day)
+        ? value.weekdays.filter((d) => d !== day)
+        : [...value.weekdays, day],
+    });
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.chipRow}>
+        {(Object.keys(FREQUENCY_LABELS) as ScheduleFrequency[]).map(
+          (frequency) => (
+            <Chip
+              key={frequency}
+              label={FREQUENCY_LABELS[frequency]}
+              selected={value.frequency === frequency}
+              onPress={() => onChange({ ...value, frequency })}
+            />
+          )
+        )}
+      </View>
+
+      {value.frequency === "weekly" && (
+        <View style={styles.chipRow}>
+          {WEEKDAY_OPTIONS.map(({ day, short }) => (
+            <Chip
+              key={day}
+              label={short}
+              selected={value.weekdays.includes(day)}
+              onPress={() => toggleWeekday(day)}
+            />
+          ))}
+        </View>
+      )}
+
+      {value.frequency === "hourly" && (
+        <View style={styles.chipRow}>
+          {INTERVAL_HOURS_OPTIONS.map((hours) => (
+            <Chip
+              key={hours}
+              label={`${hours} h`}
+              selected={value.intervalHours === hours}
+              onPress={() => onChange({ ...value, intervalHours: hours })}
+            />
+          ))}
+        </View>
+      )}
+
+      {value.frequency === "monthly" && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          style={styles.dayScroll}
+        >
+          {DAYS_OF_MONTH.map((day) => (
+            <Chip
+              key={day}
+              label={day.toString()}
+              selected={value.dayOfMonth === day}
+              onPress={() => onChange({ ...value, dayOfMonth: day })}
+            />
+          ))}
+        </ScrollView>
+      )}
+
+      {value.frequency === "cron" && (
+        <TextInput
+          style={styles.cronInput}
+          value={value.cron}
+          onChangeText={(cron) => onChange({ ...value, cron })}
+          placeholder="30 7 * * 1-5"
+          placeholderTextColor="#666"
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+      )}
+
+      {/* Aperçu des prochaines exécutions */}
+      <View style={styles.preview}>
+        <AppText style={styles.previewTitle}>Prochaines exécutions</AppText>
+        {preview.error ? (
+          <AppText style={styles.previewError}>{preview.error}</AppText>
+        ) : (
+          preview.runs.map((run) => (
+            <AppText key={run.getTime()} style={styles.previewRun}>
+              {run.toLocaleString("fr-FR", {
+                weekday: "short",
+                day: "2-digit",
+                month: "short",
+                hour: "2-digit",
+                minute: "2-digit",
+                timeZone,
+              })}
+            </AppText>
+          ))
+        )}
+      </View>
+    </View>
+  );
+}
+
+function Chip({
+  label,
+  selected,
+  onPress,
+}: {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <TouchableOpacity
+      style={[styles.chip, selected && styles.chipActive]}
+      onPress={onPress}
+    >
+      <AppText style={[styles.chipText, selected && styles.chipTextActive]}>
+        {label}
+      </AppText>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#252525",
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.06)",
+  },
+
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    paddingVertical: 4,
+  },
+
+  dayScroll: {
+    paddingVertical: 8,
+  },
+
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    marginRight: 6,
+    marginVertical: 4,
+    backgroundColor: "#333",
+    borderWidth: 1,
+    borderColor: "transparent",
+  },
+
+  chipActive: {
+    borderColor: "#81b0ff",
+  },
+
+  chipText: {
+    fontSize: 13,
+    color: "#ccc",
+  },
+
+  chipTextActive: {
+    color: "#81b0ff",
+  },
+
+  cronInput: {
+    fontSize: 15,
+    color: "#81b0ff",
+    paddingVertical: 8,
+    fontFamily: "Satoshi-Regular",
+    letterSpacing: 1,
+  },
+
+  preview: {
+    borderTopWidth: 1,
+    borderTopColor: "rgba(255, 255, 255, 0.06)",
+    paddingVertical: 8,
+    marginTop: 4,
+  },
+
+  previewTitle: {
+    fontSize: 12,
+    color: "#888",
+    marginBottom: 4,
+  },
+
+  previewRun: {
+    fontSize: 13,
+    color: "#ccc",
+    lineHeight: 19,
+  },
+
+  previewError: {
+    fontSize: 13,
+    color: "#ff4757",
+  },
+});
@@ -0,0 +1,161 @@
+import React from "react";
+import { View, TouchableOpacity, StyleSheet } from "react-native";
+import AppText from "./AppText";
+import type { ScheduleRule } from "../utils/schedule";
+import {
+  TimeZoneMode,
+  DEFAULT_TIME_ZONE_MODE,
+  TIME_ZONE_MODE_LABELS,
+  TIME_ZONE_OPTIONS,
+  getDeviceTimeZone,
+  formatTimeZone,
+} from "../utils/timeZone";
+
+export type TimeZoneValue = {
+  mode: TimeZoneMode;
+  timeZone: string; // Fuseau IANA, utilisé si mode === "pinned"
+};
+
+/**
+ * 🔄 Planification existante → valeur du formulaire
+ */
+export function toTimeZoneValue(
+  rule?: Pick<ScheduleRule, "timeZone" | "timeZoneMode">
+): TimeZoneValue {
+  return {
+    mode: rule?.timeZoneMode ?? DEFAULT_TIME_ZONE_MODE,
+    timeZone: rule?.timeZone ?? getDeviceTimeZone(),
+  };
+}
+
+/**
+ * 📍 Fuseau fixé, à passer aux aperçus (absent = suivre l'appareil)
+ */
+export const pinnedTimeZone = (value: TimeZoneValue) =>
+  value.mode === "pinned" ? value.timeZone : undefined;
+
+type Props = {
+  value: TimeZoneValue;
+  onChange: (value: TimeZoneValue) => void;
+};
+
+/**
+ * 🌍 Fuseau horaire d'une planification
+ *
+ * Utilisé dans AddScheduledPromptScreen et dans le modal d'édition de
+ * ManagePromptsScreen. Par défaut, les heures suivent l'appareil (07:00
+ * là où l'on se trouve) ; un fuseau fixe garde l'heure d'une ville
+ * donnée, même en voyage.
+ */
+export default function TimeZoneEditor({ value, onChange }: Props) {
+  const deviceTimeZone = getDeviceTimeZone();
+  const zones = [
+    deviceTimeZone,
+    ...TIME_ZONE_OPTIONS.filter((zone) => zone !== deviceTimeZone),
+  ];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        {(Object.keys(TIME_ZONE_MODE_LABELS) as TimeZoneMode[]).map((mode) => (
+          <Chip
+            key={mode}
+            label={TIME_ZONE_MODE_LABELS[mode]}
+            selected={value.mode === mode}
+            onPress={() => onChange({ ...value, mode })}
+          />
+        ))}
+      </View>
+
+      {value.mode === "pinned" && (
+        <View style={styles.row}>
+          {zones.map((zone) => (
+            <Chip
+              key={zone}
+              label={formatTimeZone(zone)}
+              selected={value.timeZone === zone}
+              onPress={() => onChange({ ...value, timeZone: zone })}
+            />
+          ))}
+        </View>
+      )}
+
+      <AppText style={styles.hint}>
+        {value.mode === "pinned"
+          ? `Heures de ${formatTimeZone(value.timeZone)}, où que soit l'appareil.`
+          : `Heures de l'appareil (actuellement ${formatTimeZone(
+              deviceTimeZone
+            )}).`}
+      </AppText>
+    </View>
+  );
+}
+
+function Chip({
+  label,
+  selected,
+  onPress,
+}: {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}) {
+  return (
+    <TouchableOpacity
+      style={[styles.chip, selected && styles.chipActive]}
+      onPress={onPress}
+    >
+      <AppText style={[styles.chipText, selected && styles.chipTextActive]}>
+        {label}
+      </AppText>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#252525",
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.06)",
+  },
+
+  row: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    paddingVertical: 4,
+  },
+
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    marginRight: 6,
+    marginVertical: 4,
+    backgroundColor: "#333",
+    borderWidth: 1,
+    borderColor: "transparent",
+  },
+
+  chipActive: {
+    borderColor: "#81b0ff",
+  },
+
+  chipText: {
+    fontSize: 13,
+    color: "#ccc",
+  },
+
+  chipTextActive: {
+    color: "#81b0ff",
+  },
+
+  hint: {
+    fontSize: 12,
+    color: "#888",
+    fontStyle: "italic",
+    paddingBottom: 8,
+  },
+});
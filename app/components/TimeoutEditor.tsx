@@ -0,0 +1,102 @@
+import React from "react";
+import { View, TouchableOpacity, StyleSheet } from "react-native";
+import AppText from "./AppText";
+import { REQUEST_TIMEOUT_OPTIONS } from "../utils/fetchAiResponse";
+
+type Props = {
+  value?: number; // Secondes (absent = délais par défaut)
+  onChange: (timeoutSeconds: number | undefined) => void;
+};
+
+const formatTimeout = (seconds: number) =>
+  seconds < 60 ? `${seconds} s` : `${seconds / 60} min`;
+
+/**
+ * ⏱️ Durée maximale d'une exécution, nouvelles tentatives comprises
+ *
+ * Utilisé dans AddScheduledPromptScreen et dans le modal d'édition de
+ * ManagePromptsScreen. Au-delà, l'exécution échoue avec le code "timeout".
+ */
+export default function TimeoutEditor({ value, onChange }: Props) {
+  const options: (number | undefined)[] = [
+    undefined,
+    ...REQUEST_TIMEOUT_OPTIONS,
+  ];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        {options.map((seconds) => {
+          const isSelected = value === seconds;
+          return (
+            <TouchableOpacity
+              key={seconds ?? "default"}
+              style={[styles.chip, isSelected && styles.chipActive]}
+              onPress={() => onChange(seconds)}
+            >
+              <AppText
+                style={[styles.chipText, isSelected && styles.chipTextActive]}
+              >
+                {seconds ? formatTimeout(seconds) : "Par défaut"}
+              </AppText>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <AppText style={styles.hint}>
+        {value
+          ? `Annulée après ${formatTimeout(value)}, attentes comprises.`
+          : "30 s par tentative, jusqu'à 2 min en cas de limite de taux."}
+      </AppText>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#252525",
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.06)",
+  },
+
+  row: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    paddingVertical: 4,
+  },
+
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    marginRight: 6,
+    marginVertical: 4,
+    backgroundColor: "#333",
+    borderWidth: 1,
+    borderColor: "transparent",
+  },
+
+  chipActive: {
+    borderColor: "#81b0ff",
+  },
+
+  chipText: {
+    fontSize: 13,
+    color: "#ccc",
+  },
+
+  chipTextActive: {
+    color: "#81b0ff",
+  },
+
+  hint: {
+    fontSize: 12,
+    color: "#888",
+    fontStyle: "italic",
+    paddingBottom: 8,
+  },
+});
@@ -0,0 +1,198 @@
+import React, { useState, useCallback } from "react";
+import {
+  View,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+} from "react-native";
+import { Plus, X } from "phosphor-react-native";
+import AppText from "./AppText";
+import {
+  WatchRule,
+  WatchRuleType,
+  WATCH_RULE_LABELS,
+  normalizeDomain,
+  validateWatchRule,
+} from "../utils/watchRules";
+
+type Props = {
+  value: WatchRule[];
+  onChange: (rules: WatchRule[]) => void;
+};
+
+const PLACEHOLDERS: Record<WatchRuleType, string> = {
+  keyword: "ex. rappel produit",
+  regex: "ex. hausse de \\d+ ?%",
+  domain: "ex. lemonde.fr",
+};
+
+/**
+ * 👀 Éditeur des règles de surveillance d'un prompt
+ *
+ * Utilisé dans AddScheduledPromptScreen et dans le modal d'édition de
+ * ManagePromptsScreen. Chaque règle est validée avant d'être ajoutée.
+ */
+export default function WatchRulesEditor({ value, onChange }: Props) {
+  const [type, setType] = useState<WatchRuleType>("keyword");
+  const [pattern, setPattern] = useState("");
+
+  const addRule = useCallback(() => {
+    const error = validateWatchRule(type, pattern);
+    if (error) {
+      Alert.alert("Règle invalide", error);
+      return;
+    }
+
+    onChange([
+      ...value,
+      {
+        id: Date.now().toString(),
+        type,
+        pattern: type === "domain" ? normalizeDomain(pattern) : pattern.trim(),
+      },
+    ]);
+    setPattern("");
+  }, [type, pattern, value, onChange]);
+
+  const removeRule = useCallback(
+    (id: string) => onChange(value.filter((rule) => rule.id !== id)),
+    [value, onChange]
+  );
+
+  return (
+    <View style={styles.container}>
+      {value.map((rule) => (
+        <View key={rule.id} style={styles.ruleRow}>
+          <AppText style={styles.ruleType}>
+            {WATCH_RULE_LABELS[rule.type]}
+          </AppText>
+          <AppText style={styles.rulePattern} numberOfLines={1}>
+            {rule.pattern}
+          </AppText>
+          <TouchableOpacity
+            onPress={() => removeRule(rule.id)}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          >
+            <X size={16} color="#ff4757" />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <View style={styles.typeRow}>
+        {(Object.keys(WATCH_RULE_LABELS) as WatchRuleType[]).map(
+          (ruleType) => (
+            <TouchableOpacity
+              key={ruleType}
+              style={[styles.chip, type === ruleType && styles.chipActive]}
+              onPress={() => setType(ruleType)}
+            >
+              <AppText
+                style={[
+                  styles.chipText,
+                  type === ruleType && styles.chipTextActive,
+                ]}
+              >
+                {WATCH_RULE_LABELS[ruleType]}
+              </AppText>
+            </TouchableOpacity>
+          )
+        )}
+      </View>
+
+      <View style={styles.inputRow}>
+        <TextInput
+          style={styles.input}
+          value={pattern}
+          onChangeText={setPattern}
+          placeholder={PLACEHOLDERS[type]}
+          placeholderTextColor="#666"
+          autoCapitalize="none"
+          autoCorrect={false}
+          onSubmitEditing={addRule}
+        />
+        <TouchableOpacity style={styles.addButton} onPress={addRule}>
+          <Plus size={16} color="#81b0ff" />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: "#252525",
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.06)",
+  },
+
+  ruleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 6,
+    borderBottomWidth: 1,
+    borderBottomColor: "rgba(255, 255, 255, 0.06)",
+  },
+
+  ruleType: {
+    fontSize: 12,
+    color: "#f9ca24",
+    width: 64,
+  },
+
+  rulePattern: {
+    flex: 1,
+    fontSize: 14,
+    color: "#fff",
+    marginRight: 8,
+  },
+
+  typeRow: {
+    flexDirection: "row",
+    marginTop: 8,
+  },
+
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    marginRight: 6,
+    backgroundColor: "#333",
+    borderWidth: 1,
+    borderColor: "transparent",
+  },
+
+  chipActive: {
+    borderColor: "#81b0ff",
+  },
+
+  chipText: {
+    fontSize: 13,
+    color: "#ccc",
+  },
+
+  chipTextActive: {
+    color: "#81b0ff",
+  },
+
+  inputRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 4,
+  },
+
+  input: {
+    flex: 1,
+    fontSize: 14,
+    color: "#81b0ff",
+    paddingVertical: 8,
+    fontFamily: "Satoshi-Regular",
+  },
+
+  addButton: {
+    padding: 8,
+  },
+});
@@ -8,47 +8,272 @@ import React, {
   useMemo,
   useRef,
 } from "react";
-import { fetchAiResponseWithSources } from "../utils/fetchAiResponse";
+import { fetchAiResponseWithSources, AiError } from "../utils/fetchAiResponse";
+import {
+  ProviderConfig,
+  GenerationParams,
+  resolveModel,
+} from "../utils/aiProviders";
+import { Citation } from "../utils/citations";
+import {
+  PromptRun,
+  RunHistory,
+  HistoryRetention,
+  appendRun,
+  pruneHistory,
+  mergeHistories,
+  removeRunsFor,
+} from "../utils/runHistory";
+import {
+  ChangeAlert,
+  shouldAlertOnChange,
+  buildChangeExcerpt,
+} from "../utils/changeDetection";
+import {
+  WatchRule,
+  evaluateWatchRules,
+  describeWatchMatches,
+} from "../utils/watchRules";
+import { ScheduleRule, ScheduleFrequency } from "../utils/schedule";
+import {
+  TriggerSpec,
+  CatchUpPolicy,
+  CatchUpPlan,
+  RetryState,
+  buildTriggerSpecs,
+  usesDatedTriggers,
+  reanchorTimeZones,
+  snoozePrompt,
+  skipToday,
+  getMissedRuns,
+  getDueRetries,
+  planCatchUp,
+  markSkippedRuns,
+  scheduleRetry,
+} from "../utils/scheduler";
+import { BUILT_IN_PERSONA, resolveSystemPrompt } from "../utils/personas";
+import { TimeZoneMode, getDeviceTimeZone } from "../utils/timeZone";
+import {
+  Job,
+  JobKind,
+  createJob,
+  hasJobFor,
+  enqueueJob,
+  nextJobs,
+  markRunning,
+  removeJob,
+} from "../utils/jobQueue";
+import * as storage from "../utils/storage";
+import {
+  ReminderAction,
+  SNOOZE_MINUTES,
+  RESULT_EXCERPT_LENGTH,
+  buildResultBody,
+  buildPromptNotificationRequest,
+  buildReminderContent,
+} from "../utils/notifications";
+import {
+  NotificationPrefs,
+  NotificationLevel,
+  applyQuietHours,
+  getNotificationBehavior,
+} from "../utils/notificationPrefs";
+import {
+  registerNotificationCategories,
+  parseReminderResponse,
+  handledByBackgroundTask,
+  scheduleSnoozeReminder,
+} from "../utils/notificationActions";
+import { registerBackgroundTask } from "../utils/backgroundRunner";
+import {
+  NotificationSyncReport,
+  planNotificationSync,
+  expectsReminders,
+} from "../utils/notificationSync";
+import {
+  Digest,
+  DigestSettings,
+  getDayKey,
+  getFinishedDigestPrompts,
+  assembleDailyDigest,
+  buildDigestNotificationRequest,
+} from "../utils/digest";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 // ✅ NOUVEAU : Imports pour notifications
 import * as Notifications from "expo-notifications";
 import * as Device from "expo-device";
-import { Platform } from "react-native";
+import { AppState, Platform } from "react-native";
 
-const STORAGE_KEY = "prompts";
-const LAST_CHECK_KEY = "lastScheduleCheck"; // ✅ NOUVEAU : Pour tracker les prompts manqués
 
-// ✅ NOUVEAU : Configuration des notifications
+// ✅ NOUVEAU : Configuration des notifications (niveau d'alerte de la
+// catégorie, gardé dans les données de la notification)
 Notifications.setNotificationHandler({
-  handleNotification: async () => ({
-    shouldShowAlert: true,
-    shouldPlaySound: true,
-    shouldSetBadge: false,
-    shouldShowBanner: true, // ✅ AJOUTÉ
-    shouldShowList: true, // ✅ AJOUTÉ
-  }),
+  handleNotification: async (notification) =>
+    getNotificationBehavior(
+      notification.request.content.data?.level as
+        | NotificationLevel
+        | undefined
+    ),
 });
 
+/**
+ * 🚦 État d'exécution d'un prompt
+ *
+ * - idle : jamais exécuté (prompt planifié en attente)
+ * - queued : en attente d'exécution
+ * - running : requête en cours (streaming éventuel dans `response`)
+ * - succeeded : `response` contient la dernière réponse
+ * - failed : voir `error` ; `response` garde la dernière réponse valide
+ * - cancelled : interrompu par l'utilisateur (texte partiel conservé)
+ */
+export type RunStatus =
+  | "idle"
+  | "queued"
+  | "running"
+  | "succeeded"
+  | "failed"
+  | "cancelled";
+
 /**
  * 📝 Type d'un prompt étendu avec support des catégories (Phase 2)
  */
 export type Prompt = {
   id: string;
   question: string;
-  response: string;
-  source: string;
+  response: string; // Dernière vraie réponse (jamais un message d'erreur)
+  status: RunStatus;
+  error?: AiError; // Dernier échec, si status === "failed"
+  source: string; // URLs séparées par des virgules (format historique)
+  citations?: Citation[]; // Sources structurées des marqueurs [n]
   updatedAt: string;
   category?: string;
-  scheduled?: {
-    hour: number;
-    minute: number;
-    frequency: "daily";
+  provider?: ProviderConfig; // Backend IA ciblé (Perplexity par défaut)
+  generation?: GenerationParams; // Modèle, temperature, max tokens, top_p
+  personaId?: string; // Persona utilisée (persona par défaut si absente)
+  changeAlert?: ChangeAlert; // Notifier seulement si la réponse change
+  watchRules?: WatchRule[]; // Mots-clés, regex, domaines surveillés
+  catchUp?: CatchUpPolicy; // Rattrapage des exécutions manquées (une fois par défaut)
+  maxRetries?: number; // Nouvelles tentatives après un échec (3 par défaut)
+  timeoutSeconds?: number; // Durée maximale d'une exécution (délais par défaut sinon)
+  scheduled?: ScheduleRule & {
     lastRun?: string;
+    skippedUntil?: string; // Dernière occurrence manquée non rattrapée
+    snoozedUntil?: string; // Exécution reportée depuis une notification
+    retry?: RetryState; // Nouvelle tentative en attente (persistée)
     isRecurring?: boolean;
-    notificationId?: string; // ✅ NOUVEAU : ID de la notification planifiée
+    notificationIds?: string[]; // Notifications planifiées (une par déclencheur)
   };
 };
 
+/**
+ * 🎭 Persona : prompt système nommé, réutilisable entre prompts
+ */
+export type Persona = {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  isDefault?: boolean; // Une seule persona par défaut dans la bibliothèque
+};
+
+/**
+ * ⚙️ Réglages persistés de l'application
+ */
+export type AppSettings = {
+  history: HistoryRetention; // Rétention de l'historique des exécutions
+  catchUpWindowHours: number; // Âge maximal d'un rattrapage (0 = illimité)
+  concurrency: number; // Exécutions simultanées de la file
+  notifications: NotificationPrefs; // Heures calmes et niveau par catégorie
+  digest: DigestSettings; // Digest quotidien des prompts planifiés
+};
+
+const latestDate = (a?: string, b?: string) =>
+  a && b ? (a > b ? a : b) : a ?? b;
+
+/**
+ * 🌙 Résultats de la tâche d'arrière-plan → état en mémoire
+ *
+ * Un prompt stocké remplace celui en mémoire s'il a été exécuté plus
+ * récemment ; les notifications planifiées restent celles en mémoire.
+ * Les reports et journées ignorées choisis depuis une notification, app
+ * en arrière-plan, sont conservés.
+ */
+function mergeStoredResults(current: Prompt[], stored: Prompt[]): Prompt[] {
+  return current.map((prompt) => {
+    const saved = stored.find((p) => p.id === prompt.id);
+    if (!saved?.scheduled || !prompt.scheduled) return prompt;
+
+    const marks = {
+      skippedUntil: latestDate(
+        prompt.scheduled.skippedUntil,
+        saved.scheduled.skippedUntil
+      ),
+      snoozedUntil: latestDate(
+        prompt.scheduled.snoozedUntil,
+        saved.scheduled.snoozedUntil
+      ),
+    };
+    const savedRun = saved.scheduled.lastRun;
+    if (
+      !savedRun ||
+      prompt.status === "running" ||
+      (prompt.scheduled.lastRun && prompt.scheduled.lastRun >= savedRun)
+    ) {
+      return { ...prompt, scheduled: { ...prompt.scheduled, ...marks } };
+    }
+
+    return {
+      ...prompt,
+      response: saved.response,
+      status: saved.status,
+      error: saved.error,
+      source: saved.source,
+      citations: saved.citations,
+      updatedAt: saved.updatedAt,
+      scheduled: {
+        ...prompt.scheduled,
+        ...marks,
+        lastRun: savedRun,
+        retry: saved.scheduled.retry,
+      },
+    };
+  });
+}
+
+/**
+ * 🔔 Déclencheur calculé par le moteur → déclencheur expo-notifications
+ */
+function toNotificationTrigger(
+  spec: TriggerSpec
+): Notifications.NotificationTriggerInput {
+  switch (spec.type) {
+    case "date":
+      return {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: spec.date,
+      };
+    case "weekly":
+      return {
+        type: Notifications.SchedulableTriggerInputTypes.WEEKLY,
+        weekday: spec.weekday + 1, // expo : 1 = dimanche
+        hour: spec.hour,
+        minute: spec.minute,
+      };
+    case "monthly":
+      return {
+        type: Notifications.SchedulableTriggerInputTypes.MONTHLY,
+        day: spec.day,
+        hour: spec.hour,
+        minute: spec.minute,
+      };
+    case "daily":
+      return {
+        type: Notifications.SchedulableTriggerInputTypes.DAILY,
+        hour: spec.hour,
+        minute: spec.minute,
+      };
+  }
+}
+
 /**
  * 🎯 Interface du contexte étendue pour la Phase 2
  */
@@ -67,6 +292,23 @@ type PromptContextType = {
   error: string | null;
   notificationsEnabled: boolean; // ✅ NOUVEAU
   requestNotificationPermissions: () => Promise<boolean>; // ✅ NOUVEAU
+  streamingPromptIds: string[]; // Prompts dont la réponse arrive en streaming
+  stopPrompt: (id: string) => void; // Interrompt en gardant le texte reçu
+  personas: Persona[];
+  addPersona: (name: string, systemPrompt: string) => void;
+  updatePersona: (id: string, updates: Partial<Omit<Persona, "id">>) => void;
+  removePersona: (id: string) => void;
+  setDefaultPersona: (id: string) => void;
+  getPromptRuns: (promptId: string) => PromptRun[]; // Plus récentes en premier
+  settings: AppSettings;
+  updateSettings: (updates: Partial<AppSettings>) => void;
+  catchUpSummary: CatchUpPlan | null; // Rattrapage effectué au lancement
+  dismissCatchUpSummary: () => void;
+  jobs: Job[]; // File d'exécution (en attente et en cours)
+  cancelJob: (jobId: string) => void;
+  notificationSync: NotificationSyncReport | null; // Dernière réconciliation
+  reconcileNotifications: () => Promise<void>;
+  dailyDigest: Digest | null; // Dernier digest quotidien assemblé
 };
 
 /**
@@ -75,10 +317,24 @@ type PromptContextType = {
 type AddPromptOptions = {
   hour?: number;
   minute?: number;
-  frequency?: "daily";
+  frequency?: ScheduleFrequency;
+  weekdays?: number[];
+  intervalHours?: number;
+  dayOfMonth?: number;
+  cron?: string;
+  timeZone?: string; // Fuseau choisi si timeZoneMode === "pinned"
+  timeZoneMode?: TimeZoneMode;
   lastRun?: string;
   isRecurring?: boolean;
   category?: string;
+  provider?: ProviderConfig;
+  generation?: GenerationParams;
+  personaId?: string;
+  changeAlert?: ChangeAlert;
+  watchRules?: WatchRule[];
+  catchUp?: CatchUpPolicy;
+  maxRetries?: number;
+  timeoutSeconds?: number;
 };
 
 /**
@@ -95,10 +351,116 @@ export function PromptProvider({ children }: { children: ReactNode }) {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [notificationsEnabled, setNotificationsEnabled] = useState(false); // ✅ NOUVEAU
+  const [personas, setPersonas] = useState<Persona[]>([BUILT_IN_PERSONA]);
+  const [runHistory, setRunHistory] = useState<RunHistory>({});
+  const [settings, setSettings] = useState<AppSettings>(
+    storage.DEFAULT_SETTINGS
+  );
+  const [catchUpSummary, setCatchUpSummary] = useState<CatchUpPlan | null>(
+    null
+  );
+  const [notificationSync, setNotificationSync] =
+    useState<NotificationSyncReport | null>(null);
+  const [dailyDigest, setDailyDigest] = useState<Digest | null>(null);
+  const digestInFlightRef = useRef(false); // Un seul assemblage à la fois
+
+  // Référence à jour des personas pour les callbacks sans dépendances
+  const personasRef = useRef<Persona[]>(personas);
+  personasRef.current = personas;
+  const settingsRef = useRef<AppSettings>(settings);
+  settingsRef.current = settings;
+  const notificationsEnabledRef = useRef(notificationsEnabled);
+  notificationsEnabledRef.current = notificationsEnabled;
+  const promptsRef = useRef<Prompt[]>(prompts);
+  promptsRef.current = prompts;
 
   // ✅ SUPPRIMÉ : timeoutsRef (remplacé par notifications)
   const isInitializedRef = useRef(false);
 
+  // Fuseau de l'appareil lors de la dernière vérification
+  const deviceTimeZoneRef = useRef(getDeviceTimeZone());
+
+  // Tâche d'arrière-plan inscrite : elle notifie la réponse des prompts
+  // récurrents, qui n'ont alors plus de rappel
+  const backgroundRunsRef = useRef(false);
+
+  // Requêtes en cours (non persistées) : permettent le bouton "stop"
+  const activeRequestsRef = useRef(new Map<string, AbortController>());
+  const [streamingPromptIds, setStreamingPromptIds] = useState<string[]>([]);
+
+  // File d'exécution persistée : la référence fait foi, l'état sert au rendu
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const jobsRef = useRef<Job[]>(jobs);
+
+  /**
+   * 🌊 Début / fin de suivi d'une requête en streaming
+   */
+  const beginRequest = useCallback((id: string): AbortController => {
+    const controller = new AbortController();
+    activeRequestsRef.current.set(id, controller);
+    setStreamingPromptIds((prev) => [...prev, id]);
+    return controller;
+  }, []);
+
+  const endRequest = useCallback((id: string) => {
+    activeRequestsRef.current.delete(id);
+    setStreamingPromptIds((prev) => prev.filter((promptId) => promptId !== id));
+  }, []);
+
+  /**
+   * 🌊 Remplace la réponse affichée par le texte partiel reçu
+   */
+  const pushPartialResponse = useCallback((id: string, text: string) => {
+    if (!text) return; // Garder l'affichage précédent jusqu'au premier morceau
+    setPrompts((prev: Prompt[]) =>
+      prev.map((p: Prompt) => (p.id === id ? { ...p, response: text } : p))
+    );
+  }, []);
+
+  /**
+   * 🗂️ Enregistrement d'une exécution dans l'historique
+   */
+  const recordRun = useCallback(
+    (run: Omit<PromptRun, "id" | "durationMs">) => {
+      const entry: PromptRun = {
+        ...run,
+        id: `${run.promptId}-${Date.now()}`,
+        durationMs: Date.now() - new Date(run.startedAt).getTime(),
+      };
+      setRunHistory((prev) =>
+        appendRun(prev, entry, settingsRef.current.history)
+      );
+    },
+    []
+  );
+
+  /**
+   * 📬 Mise à jour de la file (référence et état ensemble)
+   */
+  const updateJobs = useCallback((update: (queue: Job[]) => Job[]) => {
+    jobsRef.current = update(jobsRef.current);
+    setJobs(jobsRef.current);
+  }, []);
+
+  /**
+   * ➕ Mise en file d'un prompt (ignorée s'il y est déjà)
+   */
+  const enqueuePrompt = useCallback(
+    (promptId: string, kind: JobKind) => {
+      if (hasJobFor(jobsRef.current, promptId)) return;
+
+      updateJobs((queue) => enqueueJob(queue, createJob(promptId, kind)));
+      setPrompts((prev: Prompt[]) =>
+        prev.map((p: Prompt) =>
+          p.id === promptId && p.status !== "running"
+            ? { ...p, status: "queued" }
+            : p
+        )
+      );
+    },
+    [updateJobs]
+  );
+
   /**
    * ✅ NOUVEAU : Demander les permissions de notification
    */
@@ -120,6 +482,7 @@ export function PromptProvider({ children }: { children: ReactNode }) {
 
       if (finalStatus !== "granted") {
         console.log("❌ Permission de notification refusée");
+        notificationsEnabledRef.current = false;
         setNotificationsEnabled(false);
         return false;
       }
@@ -134,73 +497,62 @@ export function PromptProvider({ children }: { children: ReactNode }) {
       }
 
       console.log("✅ Permissions de notification accordées");
+      notificationsEnabledRef.current = true; // Utilisable avant le rendu suivant
       setNotificationsEnabled(true);
       return true;
     }, []);
 
   /**
-   * ✅ NOUVEAU : Planifier une notification pour un prompt
+   * ✅ NOUVEAU : Planifier les notifications d'un prompt
+   *
+   * Une notification par déclencheur (voir buildTriggerSpecs). Aucune
+   * pour un prompt en mode alerte, regroupé dans le digest ou exécuté
+   * par la tâche d'arrière-plan (voir expectsReminders).
    */
   const scheduleNotification = useCallback(
-    async (prompt: Prompt): Promise<string | null> => {
-      if (!prompt.scheduled || !notificationsEnabled) return null;
+    async (prompt: Prompt): Promise<string[]> => {
+      if (!prompt.scheduled || !notificationsEnabledRef.current) return [];
+      if (
+        !expectsReminders(
+          prompt,
+          settingsRef.current.digest,
+          backgroundRunsRef.current
+        )
+      ) {
+        return [];
+      }
+
+      // Rappels décalés hors des heures calmes, avec boutons d'action
+      const prefs = settingsRef.current.notifications;
+      const specs = applyQuietHours(
+        buildTriggerSpecs(prompt.scheduled),
+        prefs.quietHours
+      );
 
+      const notificationIds: string[] = [];
       try {
-        // ✅ CORRIGÉ : Calculer le trigger de notification avec types corrects (sans repeats)
-        const trigger: Notifications.NotificationTriggerInput = prompt.scheduled
-          .isRecurring
-          ? {
-              type: Notifications.SchedulableTriggerInputTypes.DAILY, // ✅ DAILY = répétition automatique
-              hour: prompt.scheduled.hour,
-              minute: prompt.scheduled.minute,
-              // repeats est implicite pour DAILY - SUPPRIMÉ
+        for (const spec of specs) {
+          const notificationId = await Notifications.scheduleNotificationAsync(
+            {
+              content: buildReminderContent(prompt, prefs),
+              trigger: toNotificationTrigger(spec),
             }
-          : {
-              type: Notifications.SchedulableTriggerInputTypes.DATE, // ✅ DATE = exécution unique
-              date: (() => {
-                const scheduleDate = new Date();
-                scheduleDate.setHours(
-                  prompt.scheduled!.hour,
-                  prompt.scheduled!.minute,
-                  0,
-                  0
-                );
-
-                // Si l'heure est déjà passée aujourd'hui, programmer pour demain
-                if (scheduleDate <= new Date()) {
-                  scheduleDate.setDate(scheduleDate.getDate() + 1);
-                }
-
-                return scheduleDate;
-              })(),
-              // repeats est implicite pour DATE (false) - SUPPRIMÉ
-            };
-
-        const notificationId = await Notifications.scheduleNotificationAsync({
-          content: {
-            title: "🤖 Prompt planifié",
-            body:
-              prompt.question.length > 100
-                ? prompt.question.substring(0, 100) + "..."
-                : prompt.question,
-            data: { promptId: prompt.id },
-          },
-          trigger,
-        });
+          );
+          notificationIds.push(notificationId);
+        }
 
         console.log(
-          `📅 Notification planifiée pour "${prompt.question.substring(
+          `📅 ${notificationIds.length} notification(s) planifiée(s) pour "${prompt.question.substring(
             0,
             30
-          )}..." (ID: ${notificationId})`
+          )}..."`
         );
-        return notificationId;
       } catch (error) {
         console.error("❌ Erreur planification notification:", error);
-        return null;
       }
+      return notificationIds;
     },
-    [notificationsEnabled]
+    []
   );
 
   /**
@@ -215,12 +567,144 @@ export function PromptProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
+  /**
+   * 🗑️ Annuler toutes les notifications planifiées d'un prompt
+   */
+  const cancelPromptNotifications = useCallback(
+    (prompt: Prompt) =>
+      Promise.all(
+        (prompt.scheduled?.notificationIds ?? []).map((notificationId) =>
+          cancelNotification(notificationId)
+        )
+      ),
+    [cancelNotification]
+  );
+
+  /**
+   * 🔁 Replanifier les notifications d'un prompt et mémoriser leurs IDs
+   */
+  const refreshPromptNotifications = useCallback(
+    async (prompt: Prompt) => {
+      await cancelPromptNotifications(prompt);
+      const notificationIds = await scheduleNotification(prompt);
+      setPrompts((prev) =>
+        prev.map((p) =>
+          p.id === prompt.id && p.scheduled
+            ? { ...p, scheduled: { ...p.scheduled, notificationIds } }
+            : p
+        )
+      );
+    },
+    [cancelPromptNotifications, scheduleNotification]
+  );
+
+  /**
+   * 🔄 Réconciliation avec les notifications enregistrées par le système
+   *
+   * Orphelines et doublons annulés, seuls les prompts dont des rappels
+   * manquent sont replanifiés (voir planNotificationSync). Le résultat
+   * est affiché dans le diagnostic des paramètres.
+   */
+  const reconcileNotifications = useCallback(
+    async (promptsToCheck: Prompt[] = promptsRef.current) => {
+      const checkedAt = new Date().toISOString();
+      if (!notificationsEnabledRef.current) {
+        setNotificationSync({
+          checkedAt,
+          registered: 0,
+          kept: 0,
+          orphansCancelled: 0,
+          duplicatesCancelled: 0,
+          rescheduled: 0,
+          error: "Notifications non autorisées",
+        });
+        return;
+      }
+
+      try {
+        const registered =
+          await Notifications.getAllScheduledNotificationsAsync();
+        const plan = planNotificationSync(
+          promptsToCheck,
+          registered,
+          settingsRef.current,
+          { backgroundRuns: backgroundRunsRef.current }
+        );
+
+        for (const notificationId of [
+          ...plan.orphanIds,
+          ...plan.duplicateIds,
+        ]) {
+          await cancelNotification(notificationId);
+        }
+        for (const prompt of promptsToCheck) {
+          if (plan.missingPromptIds.includes(prompt.id)) {
+            await refreshPromptNotifications(prompt);
+          }
+        }
+
+        console.log(
+          `🔄 Notifications : ${plan.orphanIds.length} orpheline(s), ${plan.duplicateIds.length} doublon(s), ${plan.missingPromptIds.length} prompt(s) replanifié(s)`
+        );
+        setNotificationSync({
+          checkedAt,
+          registered: registered.length,
+          kept: plan.keptIds.length,
+          orphansCancelled: plan.orphanIds.length,
+          duplicatesCancelled: plan.duplicateIds.length,
+          rescheduled: plan.missingPromptIds.length,
+        });
+      } catch (syncError) {
+        console.error(
+          "❌ Erreur réconciliation des notifications:",
+          syncError
+        );
+        setNotificationSync({
+          checkedAt,
+          registered: 0,
+          kept: 0,
+          orphansCancelled: 0,
+          duplicatesCancelled: 0,
+          rescheduled: 0,
+          error: "Lecture des notifications planifiées impossible",
+        });
+      }
+    },
+    [cancelNotification, refreshPromptNotifications]
+  );
+
+  /**
+   * 🔔 Notification immédiate liée à un prompt (changement, règle déclenchée)
+   *
+   * Le titre est suivi de la question, tronquée. Pendant les heures
+   * calmes, la notification est retenue jusqu'à la fin de la plage.
+   */
+  const notifyPrompt = useCallback(
+    async (prompt: Prompt, title: string, body: string) => {
+      if (!notificationsEnabledRef.current) return;
+
+      try {
+        await Notifications.scheduleNotificationAsync(
+          buildPromptNotificationRequest(
+            prompt,
+            title,
+            body,
+            settingsRef.current.notifications
+          )
+        );
+      } catch (error) {
+        console.error("❌ Erreur notification immédiate:", error);
+      }
+    },
+    []
+  );
+
   /**
    * 💾 Fonction de sauvegarde optimisée avec gestion d'erreurs
    */
   const savePrompts = useCallback(async (promptsToSave: Prompt[]) => {
     try {
-      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(promptsToSave));
+      await storage.savePrompts(promptsToSave);
       setError(null);
     } catch (saveError) {
       console.error("Erreur de sauvegarde:", saveError);
@@ -242,45 +726,63 @@ export function PromptProvider({ children }: { children: ReactNode }) {
         // 1. Demander les permissions de notification dès le démarrage
         await requestNotificationPermissions();
 
-        // 2. Charger les prompts sauvegardés
-        const saved = await AsyncStorage.getItem(STORAGE_KEY);
-        if (saved) {
-          let loadedPrompts: Prompt[] = JSON.parse(saved);
-
-          // Migration : Ajouter la catégorie "other" aux anciens prompts
-          loadedPrompts = loadedPrompts.map((prompt) => ({
-            ...prompt,
-            category: prompt.category || "other",
-          }));
+        // 1bis. Charger la bibliothèque de personas (persona initiale si vide)
+        const loadedPersonas = await storage.loadPersonas();
+        if (loadedPersonas.length > 0) {
+          personasRef.current = loadedPersonas;
+          setPersonas(loadedPersonas);
+        }
 
+        // 1ter. Charger les réglages puis l'historique (rétention appliquée)
+        const loadedSettings = await storage.loadSettings();
+        settingsRef.current = loadedSettings;
+        setSettings(loadedSettings);
+
+        setRunHistory(await storage.loadRunHistory(loadedSettings.history));
+        setDailyDigest(await storage.loadDigest());
+
+        // 1quater. Exécution des prompts dus même app fermée, avant de
+        // planifier les rappels (qu'elle remplace)
+        backgroundRunsRef.current = await registerBackgroundTask();
+
+        // 2. Charger les prompts sauvegardés (migrés : catégorie "other",
+        // statut typé pour les anciens prompts)
+        let loadedPrompts = await storage.loadPrompts();
+        if (loadedPrompts.length > 0) {
+          // 2bis. Reprendre la file interrompue ; un prompt resté "en
+          // attente" ou "en cours" sans exécution en file est annulé
+          const restoredJobs = (await storage.loadJobQueue()).filter((job) =>
+            loadedPrompts.some((p) => p.id === job.promptId)
+          );
+          updateJobs(() => restoredJobs);
+          loadedPrompts = loadedPrompts.map((p) =>
+            hasJobFor(restoredJobs, p.id)
+              ? { ...p, status: "queued" }
+              : p.status === "queued" || p.status === "running"
+              ? { ...p, status: "cancelled" }
+              : p
+          );
           setPrompts(loadedPrompts);
 
           // 3. ✅ NOUVEAU : Vérifier les prompts manqués depuis la dernière ouverture
-          await checkMissedScheduledPrompts(loadedPrompts);
+          await checkMissedScheduledPrompts(loadedPrompts, true);
 
-          // 4. ✅ NOUVEAU : Replanifier les notifications pour les prompts récurrents
-          for (const prompt of loadedPrompts) {
-            if (prompt.scheduled && (prompt.scheduled.isRecurring ?? true)) {
-              const notificationId = await scheduleNotification(prompt);
-              if (
-                notificationId &&
-                notificationId !== prompt.scheduled.notificationId
-              ) {
-                // Mettre à jour l'ID de notification si nécessaire
-                setPrompts((prev) =>
-                  prev.map((p) =>
-                    p.id === prompt.id && p.scheduled
-                      ? { ...p, scheduled: { ...p.scheduled, notificationId } }
-                      : p
-                  )
-                );
-              }
-            }
-          }
+          // 4. Réconcilier les notifications enregistrées avec les prompts,
+          // dans le fuseau actuel de l'appareil : orphelines et doublons
+          // annulés, rappels manquants (dont occurrences cron) replanifiés
+          await reconcileNotifications(
+            reanchorTimeZones(loadedPrompts).prompts
+          );
         }
 
         // 5. Sauvegarder le timestamp de cette vérification
-        await AsyncStorage.setItem(LAST_CHECK_KEY, new Date().toISOString());
+        await AsyncStorage.setItem(
+          storage.LAST_CHECK_KEY,
+          new Date().toISOString()
+        );
+
+        // 6. Boutons des rappels : lancer, reporter, passer la journée
+        await registerNotificationCategories();
 
         isInitializedRef.current = true;
       } catch (loadError) {
@@ -302,10 +804,21 @@ export function PromptProvider({ children }: { children: ReactNode }) {
 
     const responseListener =
       Notifications.addNotificationResponseReceivedListener((response) => {
+        // Bouton d'action d'un rappel (sur Android, app en arrière-plan,
+        // la tâche de notifications s'en charge)
+        const reminder = parseReminderResponse(response);
+        if (reminder) {
+          if (!handledByBackgroundTask()) {
+            reminderActionRef.current(reminder.promptId, reminder.action);
+          }
+          return;
+        }
+
+        // Simple appui : la navigation vers le détail du prompt passe par
+        // la configuration des liens (app/navigation/linking.ts)
         const promptId = response.notification.request.content.data?.promptId;
         if (promptId) {
           console.log("👆 Notification cliquée pour prompt:", promptId);
-          // Ici on pourrait naviguer vers le prompt ou l'exécuter directement
         }
       });
 
@@ -313,75 +826,120 @@ export function PromptProvider({ children }: { children: ReactNode }) {
       notificationListener.remove();
       responseListener.remove();
     };
-  }, [requestNotificationPermissions, scheduleNotification]);
+  }, [requestNotificationPermissions, reconcileNotifications, updateJobs]);
+
+  /**
+   * 🌙 Retour au premier plan : relire les résultats de la tâche
+   * d'arrière-plan avant que la sauvegarde automatique ne les écrase
+   */
+  useEffect(() => {
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state !== "active" || !isInitializedRef.current) return;
+
+      Promise.all([
+        storage.loadPrompts(),
+        storage.loadRunHistory(settingsRef.current.history),
+        storage.loadDigest(),
+      ])
+        .then(([storedPrompts, storedRuns, storedDigest]) => {
+          setPrompts((prev) => mergeStoredResults(prev, storedPrompts));
+          setRunHistory((prev) =>
+            mergeHistories(prev, storedRuns, settingsRef.current.history)
+          );
+          if (storedDigest) setDailyDigest(storedDigest);
+        })
+        .catch((loadError) =>
+          console.error("❌ Erreur relecture arrière-plan:", loadError)
+        );
+    });
+
+    return () => subscription.remove();
+  }, []);
 
   /**
    * ✅ NOUVEAU : Vérifier et exécuter les prompts manqués avec logique améliorée
    */
   const checkMissedScheduledPrompts = useCallback(
-    async (promptsToCheck: Prompt[]) => {
+    async (promptsToCheck: Prompt[], summarize: boolean = false) => {
       try {
-        const lastCheckStr = await AsyncStorage.getItem(LAST_CHECK_KEY);
+        const lastCheckStr = await AsyncStorage.getItem(
+          storage.LAST_CHECK_KEY
+        );
         const lastCheck = lastCheckStr
           ? new Date(lastCheckStr)
           : new Date(Date.now() - 24 * 60 * 60 * 1000);
-        const now = new Date();
 
         console.log(
           `🔍 Vérification prompts manqués depuis ${lastCheck.toLocaleString()}`
         );
 
-        const missedPrompts: Prompt[] = [];
+        // ✅ Occurrences passées depuis la dernière exécution, quelle que
+        // soit la fréquence (délai de grâce, prompts en cours ou en file
+        // exclus)
+        const isRunning = (id: string) =>
+          activeRequestsRef.current.has(id) || hasJobFor(jobsRef.current, id);
+        const dueRuns = getMissedRuns(promptsToCheck, { isRunning });
 
-        for (const prompt of promptsToCheck) {
-          if (!prompt.scheduled) continue;
-
-          const { hour, minute, lastRun, isRecurring } = prompt.scheduled;
-
-          // ✅ NOUVEAU : Logique plus conservatrice pour éviter les faux positifs
-          if (isRecurring ?? true) {
-            const todayScheduled = new Date();
-            todayScheduled.setHours(hour, minute, 0, 0);
+        // Politique de chaque prompt et fenêtre globale de rattrapage
+        const plan = planCatchUp(promptsToCheck, dueRuns, {
+          windowHours: settingsRef.current.catchUpWindowHours,
+        });
+        const missedPrompts = promptsToCheck.filter((prompt) =>
+          plan.run.some((run) => run.promptId === prompt.id)
+        );
 
-            const actualLastRun = lastRun ? new Date(lastRun) : new Date(0);
-            const today = new Date().toDateString();
+        console.log(
+          `📝 ${missedPrompts.length} prompt(s) manqué(s) à rattraper, ${plan.skipped.length} ignoré(s)`
+        );
 
-            // ✅ AMÉLIORATION : Conditions plus strictes pour éviter double exécution
-            const isScheduledTimeInPast = todayScheduled < now;
-            const wasNotExecutedToday = actualLastRun.toDateString() !== today;
-            const isNotCurrentlyExecuting = !prompt.response.startsWith("⏳"); // ✅ NOUVEAU
-            const isOldEnough =
-              now.getTime() - todayScheduled.getTime() > 10000; // ✅ Au moins 10 secondes après l'heure prévue
+        // Occurrences ignorées : ne plus les proposer au rattrapage
+        if (plan.skipped.length > 0) {
+          setPrompts((prev) => markSkippedRuns(prev, plan.skipped));
+        }
 
-            if (
-              isScheduledTimeInPast &&
-              wasNotExecutedToday &&
-              isNotCurrentlyExecuting &&
-              isOldEnough
-            ) {
-              missedPrompts.push(prompt);
+        // Fuseau de l'appareil changé : les planifications qui le suivent
+        // l'adoptent, une fois les occurrences manquées détectées
+        const reanchored = reanchorTimeZones(promptsToCheck);
+        if (reanchored.changedIds.length > 0) {
+          setPrompts((prev) => reanchorTimeZones(prev).prompts);
+        }
+        const deviceTimeZone = getDeviceTimeZone();
+        if (deviceTimeZone !== deviceTimeZoneRef.current) {
+          // Rappels répétitifs ou datés selon le nouveau fuseau
+          deviceTimeZoneRef.current = deviceTimeZone;
+          for (const prompt of reanchored.prompts) {
+            if (prompt.scheduled && (prompt.scheduled.isRecurring ?? true)) {
+              refreshPromptNotifications(prompt);
             }
           }
         }
 
-        console.log(
-          `📝 ${missedPrompts.length} prompt(s) manqué(s) détecté(s)`
-        );
+        if (summarize && (plan.run.length > 0 || plan.skipped.length > 0)) {
+          setCatchUpSummary(plan);
+        }
 
-        // Exécuter les prompts manqués avec un délai entre chaque
+        // Mise en file : la limite de concurrence remplace l'attente fixe
+        // entre deux exécutions
         for (const prompt of missedPrompts) {
-          // ✅ NOUVEAU : Vérifier une dernière fois avant exécution
-          const currentPrompt = promptsToCheck.find((p) => p.id === prompt.id);
-          if (currentPrompt && !currentPrompt.response.startsWith("⏳")) {
-            await executeScheduledPrompt(prompt);
-            await new Promise((resolve) => setTimeout(resolve, 2000)); // 2s entre exécutions
-          }
+          enqueuePrompt(prompt.id, "scheduled");
+        }
+
+        // Nouvelles tentatives dues après un échec (hors prompts déjà relancés)
+        const retryIds = getDueRetries(promptsToCheck, { isRunning }).filter(
+          (id) => !missedPrompts.some((p) => p.id === id)
+        );
+        for (const id of retryIds) {
+          const prompt = promptsToCheck.find((p) => p.id === id)!;
+          console.log(
+            `🔁 Nouvelle tentative n°${prompt.scheduled!.retry!.attempt}: ${prompt.question}`
+          );
+          enqueuePrompt(id, "retry");
         }
       } catch (error) {
         console.error("❌ Erreur vérification prompts manqués:", error);
       }
     },
-    []
+    [enqueuePrompt, refreshPromptNotifications]
   );
 
   /**
@@ -397,81 +955,489 @@ export function PromptProvider({ children }: { children: ReactNode }) {
     return () => clearTimeout(timeoutId);
   }, [prompts, savePrompts]);
 
+  /**
+   * 💾 Sauvegarde de l'historique des exécutions (même debounce que les prompts)
+   */
+  useEffect(() => {
+    if (!isInitializedRef.current) return;
+
+    const timeoutId = setTimeout(() => {
+      storage.saveRunHistory(runHistory).catch((saveError) => {
+        console.error("Erreur de sauvegarde de l'historique:", saveError);
+        setError("Erreur lors de la sauvegarde de l'historique");
+      });
+    }, 500);
+
+    return () => clearTimeout(timeoutId);
+  }, [runHistory]);
+
+  /**
+   * 💾 Sauvegarde des réglages
+   */
+  useEffect(() => {
+    if (!isInitializedRef.current) return;
+
+    storage.saveSettings(settings).catch((saveError) => {
+      console.error("Erreur de sauvegarde des réglages:", saveError);
+      setError("Erreur lors de la sauvegarde des réglages");
+    });
+  }, [settings]);
+
+  /**
+   * 💾 Sauvegarde de la file d'exécution (reprise au prochain lancement)
+   */
+  useEffect(() => {
+    if (!isInitializedRef.current) return;
+
+    storage.saveJobQueue(jobs).catch((saveError) => {
+      console.error("Erreur de sauvegarde de la file:", saveError);
+    });
+  }, [jobs]);
+
+  /**
+   * 💾 Sauvegarde de la bibliothèque de personas
+   */
+  useEffect(() => {
+    if (!isInitializedRef.current) return;
+
+    storage.savePersonas(personas).catch((saveError) => {
+      console.error("Erreur de sauvegarde des personas:", saveError);
+      setError("Erreur lors de la sauvegarde des personas");
+    });
+  }, [personas]);
+
+  /**
+   * 🗞️ Digest du jour, dès que les prompts du digest attendus aujourd'hui
+   * ont terminé : enregistré, notifié une fois, épinglé sur l'accueil
+   */
+  useEffect(() => {
+    if (!isInitializedRef.current || digestInFlightRef.current) return;
+    if (!settings.digest.enabled || dailyDigest?.day === getDayKey()) return;
+    if (!getFinishedDigestPrompts(prompts, settings.digest)) return;
+
+    const publishDigest = async () => {
+      // Relu du stockage : la tâche d'arrière-plan a pu l'assembler
+      const digest = await assembleDailyDigest(
+        prompts,
+        settings.digest,
+        await storage.loadDigest()
+      );
+      if (!digest) return;
+
+      setDailyDigest(digest);
+      await storage.saveDigest(digest);
+      if (notificationsEnabledRef.current) {
+        await Notifications.scheduleNotificationAsync(
+          buildDigestNotificationRequest(
+            digest,
+            settingsRef.current.notifications
+          )
+        );
+      }
+    };
+
+    digestInFlightRef.current = true;
+    publishDigest()
+      .catch((digestError) =>
+        console.error("❌ Erreur digest quotidien:", digestError)
+      )
+      .finally(() => {
+        digestInFlightRef.current = false;
+      });
+  }, [prompts, settings.digest, dailyDigest]);
+
   /**
    * 🚀 Exécution optimisée des prompts planifiés avec protection contre double exécution
    */
-  const executeScheduledPrompt = useCallback(async (prompt: Prompt) => {
-    if (!prompt.scheduled) return;
+  const executeScheduledPrompt = useCallback(
+    async (prompt: Prompt, isRetry: boolean = false) => {
+      if (!prompt.scheduled) return;
+
+      // Échec : nouvelle tentative avec backoff, la série reprend à zéro pour
+      // une nouvelle occurrence
+      const retryAfter = (code: AiError["code"]) =>
+        scheduleRetry(
+          code,
+          isRetry ? prompt.scheduled!.retry : undefined,
+          prompt.maxRetries
+        );
 
-    console.log(`🤖 Exécution du prompt planifié: ${prompt.question}`);
+      console.log(`🤖 Exécution du prompt planifié: ${prompt.question}`);
 
-    try {
-      // ✅ NOUVEAU : Marquer immédiatement le prompt comme "en cours" pour éviter double exécution
-      const now = new Date().toISOString();
+      const model = resolveModel(prompt);
+      let startedAt = new Date().toISOString();
+
+      try {
+        // ✅ NOUVEAU : Marquer immédiatement le prompt comme "en cours" pour éviter double exécution
+        const now = new Date().toISOString();
+        startedAt = now;
+
+        setPrompts((prev: Prompt[]) =>
+          prev.map((p: Prompt) =>
+            p.id === prompt.id
+              ? {
+                  ...p,
+                  status: "running",
+                  error: undefined,
+                  scheduled: {
+                    ...p.scheduled!,
+                    lastRun: now, // ✅ CRITIQUE : Marquer comme exécuté AVANT l'appel API
+                  },
+                }
+              : p
+          )
+        );
+
+        // Cron ou fuseau fixe : renouveler les rappels datés des
+        // prochaines occurrences
+        if (usesDatedTriggers(prompt.scheduled)) {
+          refreshPromptNotifications(prompt);
+        }
+
+        const controller = beginRequest(prompt.id);
+        const result = await fetchAiResponseWithSources(prompt.question, {
+          provider: prompt.provider,
+          generation: prompt.generation,
+          systemPrompt: resolveSystemPrompt(
+            personasRef.current,
+            prompt.personaId
+          ),
+          onPartial: (text) => pushPartialResponse(prompt.id, text),
+          signal: controller.signal,
+          timeoutSeconds: prompt.timeoutSeconds,
+        }).finally(() => endRequest(prompt.id));
+        const completionTime = new Date().toISOString();
+
+        recordRun({
+          promptId: prompt.id,
+          startedAt,
+          model,
+          response: result.response,
+          citations: result.citations,
+          status: result.error
+            ? "failed"
+            : result.cancelled || !result.response
+            ? "cancelled"
+            : "succeeded",
+          error: result.error,
+        });
+
+        // Échec ou arrêt sans texte : la réponse précédente est restaurée
+        if (result.error || !result.response) {
+          setPrompts((prev: Prompt[]) =>
+            prev.map((p: Prompt) =>
+              p.id === prompt.id
+                ? {
+                    ...p,
+                    response: prompt.response,
+                    status: result.error ? "failed" : "cancelled",
+                    error: result.error,
+                    scheduled: {
+                      ...p.scheduled!,
+                      lastRun: completionTime,
+                      // Arrêt volontaire : pas de nouvelle tentative
+                      retry: result.error
+                        ? retryAfter(result.error.code)
+                        : undefined,
+                    },
+                  }
+                : p
+            )
+          );
+          console.log(
+            `⚠️ Prompt "${prompt.question.substring(0, 30)}..." non abouti (${
+              result.error?.code ?? "cancelled"
+            })`
+          );
+          return;
+        }
+
+        // Alerte si la réponse a suffisamment changé depuis la précédente
+        if (
+          !result.cancelled &&
+          shouldAlertOnChange(prompt.changeAlert, prompt, result)
+        ) {
+          notifyPrompt(
+            prompt,
+            "🔔 Du nouveau",
+            buildResultBody(
+              { response: result.response, citations: result.citations },
+              buildChangeExcerpt(
+                prompt.response,
+                result.response,
+                RESULT_EXCERPT_LENGTH
+              )
+            )
+          );
+        }
+
+        // Règles de surveillance : une notification avec le premier extrait
+        if (!result.cancelled && prompt.watchRules?.length) {
+          const matches = evaluateWatchRules(prompt.watchRules, result);
+          if (matches.length > 0) {
+            notifyPrompt(
+              prompt,
+              "👀 Règle déclenchée",
+              describeWatchMatches(matches)
+            );
+          }
+        }
+
+        // Mettre à jour avec la réponse finale
+        setPrompts((prev: Prompt[]) =>
+          prev.map((p: Prompt) =>
+            p.id === prompt.id
+              ? {
+                  ...p,
+                  response: result.response,
+                  status: result.cancelled ? "cancelled" : "succeeded",
+                  source: result.sourcesFormatted,
+                  citations: result.citations,
+                  updatedAt: completionTime,
+                  scheduled: {
+                    ...p.scheduled!,
+                    lastRun: completionTime, // Confirmer l'heure de fin
+                    retry: undefined,
+                  },
+                }
+              : p
+          )
+        );
 
+        console.log(
+          `✅ Prompt "${prompt.question.substring(0, 30)}..." exécuté avec succès`
+        );
+      } catch (error) {
+        console.error("❌ Erreur lors de l'exécution du prompt planifié:", error);
+
+        // En cas d'erreur, garder le timestamp de début pour éviter les re-tentatives immédiates
+        const errorTime = new Date().toISOString();
+        const runError: AiError = {
+          code: "unknown",
+          message: "❌ Erreur lors de l'exécution du prompt planifié",
+        };
+        recordRun({
+          promptId: prompt.id,
+          startedAt,
+          model,
+          response: "",
+          status: "failed",
+          error: runError,
+        });
+
+        setPrompts((prev: Prompt[]) =>
+          prev.map((p: Prompt) =>
+            p.id === prompt.id
+              ? {
+                  ...p,
+                  response: prompt.response, // Dernière réponse valide conservée
+                  status: "failed",
+                  error: runError,
+                  scheduled: {
+                    ...p.scheduled!,
+                    lastRun: errorTime, // ✅ Marquer comme tenté même en cas d'erreur
+                    retry: retryAfter(runError.code),
+                  },
+                }
+              : p
+          )
+        );
+      }
+    },
+    [recordRun, notifyPrompt, refreshPromptNotifications]
+  );
+
+  /**
+   * 💬 Exécution d'une question saisie, en streaming vers la carte du feed
+   */
+  const executeQuestion = useCallback(
+    async (prompt: Prompt) => {
+      const startedAt = new Date().toISOString();
       setPrompts((prev: Prompt[]) =>
         prev.map((p: Prompt) =>
           p.id === prompt.id
-            ? {
-                ...p,
-                response: "⏳ Exécution en cours...",
-                scheduled: {
-                  ...p.scheduled!,
-                  lastRun: now, // ✅ CRITIQUE : Marquer comme exécuté AVANT l'appel API
-                },
-              }
+            ? { ...p, status: "running", source: "En cours" }
             : p
         )
       );
 
-      const result = await fetchAiResponseWithSources(prompt.question);
-      const completionTime = new Date().toISOString();
+      const controller = beginRequest(prompt.id);
+      const result = await fetchAiResponseWithSources(prompt.question, {
+        provider: prompt.provider,
+        generation: prompt.generation,
+        systemPrompt: resolveSystemPrompt(
+          personasRef.current,
+          prompt.personaId
+        ),
+        onPartial: (text) => pushPartialResponse(prompt.id, text),
+        signal: controller.signal,
+        timeoutSeconds: prompt.timeoutSeconds,
+      }).finally(() => endRequest(prompt.id));
+
+      // Arrêt avant le premier morceau : rien à conserver
+      if (result.cancelled && !result.response) {
+        setPrompts((prev: Prompt[]) =>
+          prev.filter((p: Prompt) => p.id !== prompt.id)
+        );
+        return;
+      }
+
+      const status = result.error
+        ? "failed"
+        : result.cancelled
+        ? "cancelled"
+        : "succeeded";
+
+      recordRun({
+        promptId: prompt.id,
+        startedAt,
+        model: resolveModel(prompt),
+        response: result.response,
+        citations: result.citations,
+        status,
+        error: result.error,
+      });
 
-      // Mettre à jour avec la réponse finale
       setPrompts((prev: Prompt[]) =>
         prev.map((p: Prompt) =>
           p.id === prompt.id
             ? {
                 ...p,
                 response: result.response,
-                source: result.sourcesFormatted,
-                updatedAt: completionTime,
-                scheduled: {
-                  ...p.scheduled!,
-                  lastRun: completionTime, // Confirmer l'heure de fin
-                },
+                status,
+                error: result.error,
+                source: result.error ? "" : result.sourcesFormatted,
+                citations: result.citations,
+                updatedAt: new Date().toISOString(),
               }
             : p
         )
       );
+    },
+    [beginRequest, endRequest, pushPartialResponse, recordRun]
+  );
 
-      console.log(
-        `✅ Prompt "${prompt.question.substring(0, 30)}..." exécuté avec succès`
-      );
-    } catch (error) {
-      console.error("❌ Erreur lors de l'exécution du prompt planifié:", error);
+  /**
+   * 🏃 Exécution d'un élément de la file (prompt supprimé entre-temps :
+   * rien à faire)
+   */
+  const runJobRef = useRef<(job: Job) => Promise<void>>(async () => {});
+  runJobRef.current = async (job: Job) => {
+    const prompt = promptsRef.current.find((p) => p.id === job.promptId);
+    if (!prompt) return;
+
+    if (job.kind === "question") {
+      await executeQuestion(prompt);
+    } else {
+      await executeScheduledPrompt(prompt, job.kind === "retry");
+    }
+  };
 
-      // En cas d'erreur, garder le timestamp de début pour éviter les re-tentatives immédiates
-      const errorTime = new Date().toISOString();
+  /**
+   * 🚦 Démarrage des exécutions en attente, dans la limite de concurrence
+   */
+  const pumpQueue = useCallback(() => {
+    const ready = nextJobs(jobsRef.current, settingsRef.current.concurrency);
+    if (ready.length === 0) return;
+
+    updateJobs((queue) => markRunning(queue, ready.map((job) => job.id)));
+    for (const job of ready) {
+      runJobRef
+        .current(job)
+        .catch((runError) =>
+          console.error("❌ Erreur d'exécution de la file:", runError)
+        )
+        .finally(() => updateJobs((queue) => removeJob(queue, job.id)));
+    }
+  }, [updateJobs]);
+
+  // Après le rendu : les prompts ajoutés avec leur exécution sont à jour
+  // dans promptsRef
+  useEffect(() => {
+    pumpQueue();
+  }, [jobs, settings.concurrency, pumpQueue]);
+
+  /**
+   * ✋ Annulation depuis la file
+   *
+   * En cours : même effet que le bouton "stop". En attente : une question
+   * est retirée du feed ; une occurrence planifiée est ignorée (plus
+   * proposée au rattrapage) et la série de nouvelles tentatives s'arrête.
+   */
+  const cancelJob = useCallback(
+    (jobId: string) => {
+      const job = jobsRef.current.find((j) => j.id === jobId);
+      if (!job) return;
+
+      if (job.status === "running") {
+        activeRequestsRef.current.get(job.promptId)?.abort();
+        return;
+      }
 
+      updateJobs((queue) => removeJob(queue, jobId));
+      if (job.kind === "question") {
+        setPrompts((prev: Prompt[]) =>
+          prev.filter((p: Prompt) => p.id !== job.promptId)
+        );
+        return;
+      }
+
+      const now = new Date().toISOString();
       setPrompts((prev: Prompt[]) =>
         prev.map((p: Prompt) =>
-          p.id === prompt.id
+          p.id === job.promptId && p.scheduled
             ? {
                 ...p,
-                response: "❌ Erreur lors de l'exécution du prompt planifié",
-                source: "Erreur",
-                updatedAt: errorTime,
+                status: "cancelled",
                 scheduled: {
-                  ...p.scheduled!,
-                  lastRun: errorTime, // ✅ Marquer comme tenté même en cas d'erreur
+                  ...p.scheduled,
+                  skippedUntil: now,
+                  retry: undefined,
                 },
               }
             : p
         )
       );
+    },
+    [updateJobs]
+  );
+
+  /**
+   * 👆 Action choisie sur un rappel : lancer maintenant (mise en file),
+   * reporter de 15 ou 60 min (nouveau rappel à la fin du report) ou
+   * passer la journée (exécution en attente retirée de la file)
+   */
+  const reminderActionRef = useRef<
+    (promptId: string, action: ReminderAction) => void
+  >(() => {});
+  reminderActionRef.current = (promptId, action) => {
+    const prompt = promptsRef.current.find((p) => p.id === promptId);
+    if (!prompt?.scheduled) return;
+
+    if (action === "run-now") {
+      enqueuePrompt(promptId, "scheduled");
+      return;
     }
-  }, []);
+
+    const minutes = SNOOZE_MINUTES[action];
+    if (!minutes) {
+      const queued = jobsRef.current.find(
+        (job) => job.promptId === promptId && job.status === "queued"
+      );
+      if (queued) cancelJob(queued.id);
+    }
+
+    const apply = (p: Prompt) =>
+      minutes ? snoozePrompt(p, minutes) : skipToday(p);
+    setPrompts((prev) => prev.map((p) => (p.id === promptId ? apply(p) : p)));
+
+    if (minutes && notificationsEnabledRef.current) {
+      scheduleSnoozeReminder(
+        apply(prompt),
+        settingsRef.current.notifications
+      ).catch((error) => console.error("❌ Erreur rappel reporté:", error));
+    }
+  };
 
   /**
    * ✅ MODIFIÉ : Ajout optimisé de prompts avec notifications
@@ -486,61 +1452,72 @@ export function PromptProvider({ children }: { children: ReactNode }) {
       const now = new Date().toISOString();
       const isScheduled =
         !!options && options.hour !== undefined && options.minute !== undefined;
+      const promptId = Date.now().toString();
 
       try {
         setError(null);
 
-        // Pour les prompts immédiats, indiquer le chargement
+        // Prompt immédiat : en attente dans la file, les questions passent
+        // avant les exécutions planifiées
         if (!isScheduled) {
-          const loadingPrompt: Prompt = {
-            id: Date.now().toString(),
+          const queuedPrompt: Prompt = {
+            id: promptId,
             question,
-            response: "⏳ Génération en cours...",
-            source: "En cours",
+            response: "",
+            status: "queued",
+            source: "En attente",
             updatedAt: now,
             category: options?.category || "other",
+            provider: options?.provider,
+            generation: options?.generation,
+            personaId: options?.personaId,
+            timeoutSeconds: options?.timeoutSeconds,
           };
 
-          setPrompts((prev: Prompt[]) => [...prev, loadingPrompt]);
-
-          // Exécuter immédiatement
-          const result = await fetchAiResponseWithSources(question);
-
-          setPrompts((prev: Prompt[]) =>
-            prev.map((p: Prompt) =>
-              p.id === loadingPrompt.id
-                ? {
-                    ...p,
-                    response: result.response,
-                    source: result.sourcesFormatted,
-                    updatedAt: new Date().toISOString(),
-                  }
-                : p
-            )
-          );
+          setPrompts((prev: Prompt[]) => [...prev, queuedPrompt]);
+          enqueuePrompt(promptId, "question");
         } else {
           // ✅ MODIFIÉ : Pour les prompts planifiés avec notifications
           const newPrompt: Prompt = {
-            id: Date.now().toString(),
+            id: promptId,
             question,
             response: "",
+            status: "idle",
             source: "Planifié",
             updatedAt: now,
             category: options?.category || "other",
+            provider: options?.provider,
+            generation: options?.generation,
+            personaId: options?.personaId,
+            changeAlert: options?.changeAlert,
+            watchRules: options?.watchRules,
+            catchUp: options?.catchUp,
+            maxRetries: options?.maxRetries,
+            timeoutSeconds: options?.timeoutSeconds,
             scheduled: {
               hour: options?.hour ?? 7,
               minute: options?.minute ?? 0,
-              frequency: "daily",
+              frequency: options?.frequency ?? "daily",
+              weekdays: options?.weekdays,
+              intervalHours: options?.intervalHours,
+              dayOfMonth: options?.dayOfMonth,
+              cron: options?.cron,
+              // Fuseau de l'appareil, sauf fuseau fixe choisi
+              timeZone:
+                options?.timeZoneMode === "pinned" && options.timeZone
+                  ? options.timeZone
+                  : getDeviceTimeZone(),
+              timeZoneMode: options?.timeZoneMode,
               lastRun: undefined,
               isRecurring: options?.isRecurring ?? true,
             },
           };
 
-          // ✅ NOUVEAU : Planifier la notification
+          // ✅ NOUVEAU : Planifier les notifications
           if (options?.isRecurring ?? true) {
-            const notificationId = await scheduleNotification(newPrompt);
-            if (notificationId) {
-              newPrompt.scheduled!.notificationId = notificationId;
+            const notificationIds = await scheduleNotification(newPrompt);
+            if (notificationIds.length > 0) {
+              newPrompt.scheduled!.notificationIds = notificationIds;
             }
           }
 
@@ -550,17 +1527,15 @@ export function PromptProvider({ children }: { children: ReactNode }) {
         console.error("❌ Erreur lors de l'ajout du prompt:", error);
         setError("Erreur lors de l'ajout du prompt");
 
-        // Supprimer le prompt de chargement en cas d'erreur
+        // Supprimer le prompt en attente en cas d'erreur
         if (!isScheduled) {
           setPrompts((prev: Prompt[]) =>
-            prev.filter(
-              (p: Prompt) => p.response !== "⏳ Génération en cours..."
-            )
+            prev.filter((p: Prompt) => p.id !== promptId)
           );
         }
       }
     },
-    [scheduleNotification]
+    [scheduleNotification, enqueuePrompt]
   );
 
   /**
@@ -570,13 +1545,18 @@ export function PromptProvider({ children }: { children: ReactNode }) {
     (id: string) => {
       // ✅ NOUVEAU : Annuler la notification associée
       const promptToRemove = prompts.find((p) => p.id === id);
-      if (promptToRemove?.scheduled?.notificationId) {
-        cancelNotification(promptToRemove.scheduled.notificationId);
+      if (promptToRemove) {
+        cancelPromptNotifications(promptToRemove);
       }
 
+      // Exécution en file abandonnée, requête en cours interrompue
+      activeRequestsRef.current.get(id)?.abort();
+      updateJobs((queue) => queue.filter((job) => job.promptId !== id));
+
       setPrompts((prev: Prompt[]) => prev.filter((p: Prompt) => p.id !== id));
+      setRunHistory((prev) => removeRunsFor(prev, [id]));
     },
-    [prompts, cancelNotification]
+    [prompts, cancelPromptNotifications, updateJobs]
   );
 
   /**
@@ -589,13 +1569,22 @@ export function PromptProvider({ children }: { children: ReactNode }) {
     // ✅ NOUVEAU : Annuler les notifications des prompts supprimés
     const promptsToRemove = prompts.filter((p: Prompt) => !p.scheduled);
     for (const prompt of promptsToRemove) {
-      if (prompt.scheduled?.notificationId) {
-        await cancelNotification(prompt.scheduled.notificationId);
-      }
+      activeRequestsRef.current.get(prompt.id)?.abort();
+    }
+    updateJobs((queue) =>
+      queue.filter(
+        (job) => !promptsToRemove.some((p) => p.id === job.promptId)
+      )
+    );
+    setRunHistory((prev) =>
+      removeRunsFor(prev, promptsToRemove.map((p) => p.id))
+    );
+    for (const prompt of promptsToRemove) {
+      await cancelPromptNotifications(prompt);
     }
 
     await savePrompts(scheduledPrompts);
-  }, [prompts, savePrompts, cancelNotification]);
+  }, [prompts, savePrompts, cancelPromptNotifications, updateJobs]);
 
   /**
    * ✅ MODIFIÉ : Mise à jour optimisée avec replanification des notifications
@@ -608,32 +1597,28 @@ export function PromptProvider({ children }: { children: ReactNode }) {
             const updatedPrompt = { ...p, ...updates };
 
             // ✅ MODIFIÉ : Replanifier la notification si les paramètres ont changé
-            if (updates.scheduled && updatedPrompt.scheduled?.isRecurring) {
-              // Annuler l'ancienne notification
-              if (p.scheduled?.notificationId) {
-                cancelNotification(p.scheduled.notificationId);
-              }
+            if (
+              (updates.scheduled || updates.changeAlert) &&
+              updatedPrompt.scheduled?.isRecurring
+            ) {
+              // Annuler les anciennes notifications
+              cancelPromptNotifications(p);
 
-              // Planifier la nouvelle notification
+              // Planifier les nouvelles notifications
               setTimeout(async () => {
-                const newNotificationId = await scheduleNotification(
+                const notificationIds = await scheduleNotification(
                   updatedPrompt
                 );
-                if (newNotificationId) {
-                  setPrompts((prevPrompts) =>
-                    prevPrompts.map((prompt) =>
-                      prompt.id === id && prompt.scheduled
-                        ? {
-                            ...prompt,
-                            scheduled: {
-                              ...prompt.scheduled,
-                              notificationId: newNotificationId,
-                            },
-                          }
-                        : prompt
-                    )
-                  );
-                }
+                setPrompts((prevPrompts) =>
+                  prevPrompts.map((prompt) =>
+                    prompt.id === id && prompt.scheduled
+                      ? {
+                          ...prompt,
+                          scheduled: { ...prompt.scheduled, notificationIds },
+                        }
+                      : prompt
+                  )
+                );
               }, 100);
             }
 
@@ -643,9 +1628,101 @@ export function PromptProvider({ children }: { children: ReactNode }) {
         })
       );
     },
-    [scheduleNotification, cancelNotification]
+    [scheduleNotification, cancelPromptNotifications]
   );
 
+  /**
+   * ✋ Bouton "stop" : interrompt la requête (le texte déjà reçu est
+   * conservé) ou retire l'exécution de la file si elle n'a pas démarré
+   */
+  const stopPrompt = useCallback(
+    (id: string) => {
+      const job = jobsRef.current.find((j) => j.promptId === id);
+      if (job) {
+        cancelJob(job.id);
+      } else {
+        activeRequestsRef.current.get(id)?.abort();
+      }
+    },
+    [cancelJob]
+  );
+
+  /**
+   * 🎭 Gestion de la bibliothèque de personas
+   */
+  const addPersona = useCallback((name: string, systemPrompt: string) => {
+    setPersonas((prev) => [
+      ...prev,
+      {
+        id: Date.now().toString(),
+        name: name.trim(),
+        systemPrompt: systemPrompt.trim(),
+        isDefault: prev.length === 0,
+      },
+    ]);
+  }, []);
+
+  const updatePersona = useCallback(
+    (id: string, updates: Partial<Omit<Persona, "id">>) => {
+      setPersonas((prev) =>
+        prev.map((p) => (p.id === id ? { ...p, ...updates } : p))
+      );
+    },
+    []
+  );
+
+  const removePersona = useCallback((id: string) => {
+    setPersonas((prev) => {
+      // La bibliothèque garde toujours au moins une persona
+      if (prev.length <= 1) return prev;
+
+      const remaining = prev.filter((p) => p.id !== id);
+      // Si la persona par défaut disparaît, la première restante prend le relais
+      if (!remaining.some((p) => p.isDefault)) {
+        remaining[0] = { ...remaining[0], isDefault: true };
+      }
+      return remaining;
+    });
+  }, []);
+
+  const setDefaultPersona = useCallback((id: string) => {
+    setPersonas((prev) => prev.map((p) => ({ ...p, isDefault: p.id === id })));
+  }, []);
+
+  /**
+   * ⚙️ Mise à jour des réglages (la rétention et les préférences de
+   * notification sont appliquées immédiatement)
+   */
+  const updateSettings = useCallback(
+    (updates: Partial<AppSettings>) => {
+      const next = { ...settingsRef.current, ...updates };
+      settingsRef.current = next;
+      setSettings(next);
+
+      if (updates.history) {
+        setRunHistory((history) => pruneHistory(history, next.history));
+      }
+
+      // Rappels replanifiés avec les nouvelles heures calmes et niveaux,
+      // ou retirés des prompts regroupés dans le digest
+      if (updates.notifications || updates.digest) {
+        for (const prompt of promptsRef.current) {
+          if (prompt.scheduled && (prompt.scheduled.isRecurring ?? true)) {
+            refreshPromptNotifications(prompt);
+          }
+        }
+      }
+    },
+    [refreshPromptNotifications]
+  );
+
+  /**
+   * ⏪ Récapitulatif du rattrapage lu par l'utilisateur
+   */
+  const dismissCatchUpSummary = useCallback(() => {
+    setCatchUpSummary(null);
+  }, []);
+
   /**
    * ✅ MODIFIÉ : Vérification manuelle optimisée des prompts planifiés
    */
@@ -662,7 +1739,7 @@ export function PromptProvider({ children }: { children: ReactNode }) {
   );
 
   const getExecutedPrompts = useMemo(
-    () => () => prompts.filter((p: Prompt) => p.response && p.response !== ""),
+    () => () => prompts.filter((p: Prompt) => p.response !== ""),
     [prompts]
   );
 
@@ -672,6 +1749,11 @@ export function PromptProvider({ children }: { children: ReactNode }) {
     [prompts]
   );
 
+  const getPromptRuns = useMemo(
+    () => (promptId: string) => [...(runHistory[promptId] ?? [])].reverse(),
+    [runHistory]
+  );
+
   const getCategoryStats = useMemo(
     () => () => {
       const stats: Record<string, number> = {};
@@ -703,6 +1785,23 @@ export function PromptProvider({ children }: { children: ReactNode }) {
       error,
       notificationsEnabled, // ✅ NOUVEAU
       requestNotificationPermissions, // ✅ NOUVEAU
+      streamingPromptIds,
+      stopPrompt,
+      personas,
+      addPersona,
+      updatePersona,
+      removePersona,
+      setDefaultPersona,
+      getPromptRuns,
+      settings,
+      updateSettings,
+      catchUpSummary,
+      dismissCatchUpSummary,
+      jobs,
+      cancelJob,
+      notificationSync,
+      reconcileNotifications,
+      dailyDigest,
     }),
     [
       prompts,
@@ -719,6 +1818,23 @@ export function PromptProvider({ children }: { children: ReactNode }) {
       error,
       notificationsEnabled,
       requestNotificationPermissions,
+      streamingPromptIds,
+      stopPrompt,
+      personas,
+      addPersona,
+      updatePersona,
+      removePersona,
+      setDefaultPersona,
+      getPromptRuns,
+      settings,
+      updateSettings,
+      catchUpSummary,
+      dismissCatchUpSummary,
+      jobs,
+      cancelJob,
+      notificationSync,
+      reconcileNotifications,
+      dailyDigest,
     ]
   );
 
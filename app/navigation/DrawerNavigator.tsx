@@ -5,9 +5,31 @@ import AddScheduledPromptScreen from "../screens/AddScheduledPromptScreen";
 import ManagePromptsScreen from "../screens/ManagePromptsScreen"; // ✅ Nouveau import
 import ProfileScreen from "../screens/ProfileScreen";
 import SettingsScreen from "../screens/SettingsScreen";
+import PersonasScreen from "../screens/PersonasScreen";
+import PromptHistoryScreen from "../screens/PromptHistoryScreen";
+import QueueScreen from "../screens/QueueScreen";
+import PromptDetailScreen from "../screens/PromptDetailScreen";
 import CustomDrawerContent from "../components/CustomDrawerContent";
 
-const Drawer = createDrawerNavigator();
+/**
+ * 🧭 Écrans du drawer et leurs paramètres
+ */
+export type DrawerParamList = {
+  Accueil: { q?: string } | undefined; // Question pré-remplie (prism://ask)
+  "Gérer les prompts": undefined;
+  "Planifier un prompt": undefined;
+  Personas: undefined;
+  Profil: undefined;
+  Paramètres: undefined;
+  Historique: {
+    promptId: string;
+    compare?: [string, string]; // Exécutions à comparer dès l'ouverture
+  };
+  "File d'exécution": undefined;
+  "Détail du prompt": { promptId: string };
+};
+
+const Drawer = createDrawerNavigator<DrawerParamList>();
 
 /**
  * 🚀 Drawer Navigator avec nouvel écran de gestion
@@ -50,11 +72,23 @@ export default function DrawerNavigator() {
         component={AddScheduledPromptScreen}
       />
       
+      {/* Bibliothèque de personas (prompts système) */}
+      <Drawer.Screen name="Personas" component={PersonasScreen} />
+      
       {/* Profil utilisateur */}
       <Drawer.Screen name="Profil" component={ProfileScreen} />
       
       {/* Paramètres de l'application */}
       <Drawer.Screen name="Paramètres" component={SettingsScreen} />
+
+      {/* Historique d'un prompt (ouvert depuis la gestion, absent du menu) */}
+      <Drawer.Screen name="Historique" component={PromptHistoryScreen} />
+
+      {/* File d'exécution (ouverte depuis les paramètres, absente du menu) */}
+      <Drawer.Screen name="File d'exécution" component={QueueScreen} />
+
+      {/* Détail d'un prompt (liens profonds et notifications, absent du menu) */}
+      <Drawer.Screen name="Détail du prompt" component={PromptDetailScreen} />
     </Drawer.Navigator>
   );
 }
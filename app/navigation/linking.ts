@@ -0,0 +1,69 @@
+import { Linking } from "react-native";
+import * as Notifications from "expo-notifications";
+import type { LinkingOptions } from "@react-navigation/native";
+import type { DrawerParamList } from "./DrawerNavigator";
+
+/**
+ * 🔗 Liens profonds vers l'application
+ *
+ * - prism://prompt/<id> : détail d'un prompt (réponse, sources, historique)
+ * - prism://ask?q=... : question pré-remplie dans la barre de l'accueil
+ *
+ * Un appui sur une notification liée à un prompt ouvre son détail, que
+ * l'app soit déjà ouverte ou lancée par la notification. Les boutons
+ * d'action des rappels (lancer, reporter, passer) ne naviguent pas.
+ */
+
+export const LINK_PREFIX = "prism://";
+
+export const getPromptUrl = (promptId: string) =>
+  `${LINK_PREFIX}prompt/${encodeURIComponent(promptId)}`;
+
+/**
+ * 👆 Lien du prompt d'une notification touchée (null sinon)
+ */
+function getNotificationUrl(
+  response: Notifications.NotificationResponse | null
+): string | null {
+  if (response?.actionIdentifier !== Notifications.DEFAULT_ACTION_IDENTIFIER) {
+    return null;
+  }
+  const promptId = response.notification.request.content.data?.promptId;
+  return typeof promptId === "string" ? getPromptUrl(promptId) : null;
+}
+
+export const linking: LinkingOptions<DrawerParamList> = {
+  prefixes: [LINK_PREFIX],
+  config: {
+    screens: {
+      Accueil: "ask",
+      "Détail du prompt": "prompt/:promptId",
+    },
+  },
+
+  // Lancement par un lien, sinon par une notification
+  async getInitialURL() {
+    const url = await Linking.getInitialURL();
+    if (url) return url;
+    return getNotificationUrl(
+      await Notifications.getLastNotificationResponseAsync()
+    );
+  },
+
+  // App déjà ouverte : liens et notifications touchées
+  subscribe(listener) {
+    const linkSubscription = Linking.addEventListener("url", ({ url }) =>
+      listener(url)
+    );
+    const notificationSubscription =
+      Notifications.addNotificationResponseReceivedListener((response) => {
+        const url = getNotificationUrl(response);
+        if (url) listener(url);
+      });
+
+    return () => {
+      linkSubscription.remove();
+      notificationSubscription.remove();
+    };
+  },
+};
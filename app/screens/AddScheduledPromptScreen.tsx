@@ -24,16 +24,36 @@ import {
   Files,
 } from "phosphor-react-native";
 import { useNavigation, DrawerActions } from "@react-navigation/native";
-
-// ✅ Catégories prédéfinies avec icônes Phosphor (identiques à ManagePromptsScreen)
-const CATEGORIES = [
-  { id: "news", name: "Actualités", color: "#ff6b6b", icon: "Newspaper" },
-  { id: "tech", name: "Technologie", color: "#4ecdc4", icon: "Desktop" },
-  { id: "science", name: "Science", color: "#45b7d1", icon: "Flask" },
-  { id: "business", name: "Business", color: "#f9ca24", icon: "Briefcase" },
-  { id: "personal", name: "Personnel", color: "#6c5ce7", icon: "User" },
-  { id: "other", name: "Autre", color: "#a0a0a0", icon: "Files" },
-];
+import { AI_PROVIDERS, AiProviderType } from "../utils/aiProviders";
+import GenerationSettingsEditor, {
+  GenerationDraft,
+  EMPTY_GENERATION_DRAFT,
+  parseGenerationDraft,
+} from "../components/GenerationSettingsEditor";
+import ChangeAlertEditor from "../components/ChangeAlertEditor";
+import WatchRulesEditor from "../components/WatchRulesEditor";
+import CatchUpPolicyEditor from "../components/CatchUpPolicyEditor";
+import RetryLimitEditor from "../components/RetryLimitEditor";
+import TimeoutEditor from "../components/TimeoutEditor";
+import TimeZoneEditor, {
+  TimeZoneValue,
+  toTimeZoneValue,
+  pinnedTimeZone,
+} from "../components/TimeZoneEditor";
+import SchedulePicker, {
+  ScheduleDraft,
+  DEFAULT_SCHEDULE_DRAFT,
+  toScheduleFields,
+} from "../components/SchedulePicker";
+import { describeSchedule, validateScheduleRule } from "../utils/schedule";
+import { WatchRule } from "../utils/watchRules";
+import {
+  CatchUpPolicy,
+  DEFAULT_CATCH_UP_POLICY,
+  DEFAULT_MAX_RETRIES,
+} from "../utils/scheduler";
+import { ChangeAlert, DEFAULT_CHANGE_ALERT } from "../utils/changeDetection";
+import { CATEGORIES } from "../utils/categories";
 
 /**
  * 📅 Écran de planification de prompts - Phase 2 avec catégories
@@ -48,14 +68,38 @@ const CATEGORIES = [
 export default function AddScheduledPromptScreen() {
   // Hooks pour la navigation et le contexte des prompts
   const navigation = useNavigation();
-  const { addPrompt, notificationsEnabled, requestNotificationPermissions } =
-    usePrompt(); // ✅ NOUVEAU
+  const {
+    addPrompt,
+    notificationsEnabled,
+    requestNotificationPermissions,
+    personas,
+  } = usePrompt(); // ✅ NOUVEAU
 
   // États locaux du composant - identiques + catégorie
   const [prompt, setPrompt] = useState(""); // Texte du prompt saisi par l'utilisateur
   const [time, setTime] = useState(new Date(2025, 0, 1, 7, 0)); // Heure par défaut : 7h00
   const [isRecurring, setIsRecurring] = useState(true); // Mode récurrent activé par défaut
+  const [scheduleDraft, setScheduleDraft] = useState<ScheduleDraft>(
+    DEFAULT_SCHEDULE_DRAFT
+  ); // Fréquence des prompts récurrents
   const [selectedCategory, setSelectedCategory] = useState("other"); // ✅ NOUVEAU : Catégorie sélectionnée
+  const [selectedProvider, setSelectedProvider] =
+    useState<AiProviderType>("perplexity"); // Fournisseur IA du prompt
+  const [generationDraft, setGenerationDraft] = useState<GenerationDraft>(
+    EMPTY_GENERATION_DRAFT
+  ); // Paramètres de génération (vides = valeurs par défaut)
+  const [selectedPersonaId, setSelectedPersonaId] = useState<
+    string | undefined
+  >(undefined); // Persona choisie (undefined = persona par défaut)
+  const [changeAlert, setChangeAlert] =
+    useState<ChangeAlert>(DEFAULT_CHANGE_ALERT); // Alerte si la réponse change
+  const [watchRules, setWatchRules] = useState<WatchRule[]>([]); // Règles de surveillance
+  const [catchUp, setCatchUp] = useState<CatchUpPolicy>(
+    DEFAULT_CATCH_UP_POLICY
+  ); // Rattrapage des exécutions manquées
+  const [maxRetries, setMaxRetries] = useState(DEFAULT_MAX_RETRIES); // Nouvelles tentatives après un échec
+  const [timeoutSeconds, setTimeoutSeconds] = useState<number | undefined>(); // Durée maximale d'une exécution
+  const [timeZone, setTimeZone] = useState<TimeZoneValue>(toTimeZoneValue); // Fuseau : appareil ou fixe
 
   /**
    * ✅ NOUVEAU : Vérifier les permissions au montage du composant
@@ -96,6 +140,21 @@ export default function AddScheduledPromptScreen() {
     });
   }, [time]);
 
+  /**
+   * 📝 Description de la fréquence choisie ("Du lundi au vendredi à 07:00")
+   */
+  const scheduleDescription = useMemo(
+    () =>
+      describeSchedule({
+        hour: time.getHours(),
+        minute: time.getMinutes(),
+        timeZone: timeZone.timeZone,
+        timeZoneMode: timeZone.mode,
+        ...toScheduleFields(scheduleDraft),
+      }),
+    [time, scheduleDraft, timeZone]
+  );
+
   /**
    * 🔄 Gestion du changement d'heure via le DateTimePicker
    * @param event - Événement du picker (non utilisé)
@@ -172,13 +231,46 @@ export default function AddScheduledPromptScreen() {
       }
     }
 
+    // Validation de la fréquence (jours choisis, intervalle, jour du mois)
+    const scheduleFields = toScheduleFields(scheduleDraft);
+    if (isRecurring) {
+      const scheduleError = validateScheduleRule({
+        hour: time.getHours(),
+        minute: time.getMinutes(),
+        ...scheduleFields,
+      });
+      if (scheduleError) {
+        Alert.alert("Planification invalide", scheduleError);
+        return;
+      }
+    }
+
+    // Validation des paramètres de génération
+    const { generation, error: generationError } =
+      parseGenerationDraft(generationDraft);
+    if (generationError) {
+      Alert.alert("Paramètres invalides", generationError);
+      return;
+    }
+
     try {
       // ✅ Enregistrement du prompt avec catégorie
       await addPrompt(prompt, {
         hour: time.getHours(),
         minute: time.getMinutes(),
         isRecurring: isRecurring,
+        ...(isRecurring && scheduleFields),
+        timeZone: isRecurring ? timeZone.timeZone : undefined,
+        timeZoneMode: isRecurring ? timeZone.mode : undefined,
         category: selectedCategory,
+        provider: { type: selectedProvider },
+        generation,
+        personaId: selectedPersonaId,
+        changeAlert: changeAlert.enabled ? changeAlert : undefined,
+        watchRules: watchRules.length > 0 ? watchRules : undefined,
+        catchUp: isRecurring ? catchUp : undefined,
+        maxRetries: isRecurring ? maxRetries : undefined,
+        timeoutSeconds,
       });
 
       // Message de confirmation adapté au type de planification
@@ -188,19 +280,47 @@ export default function AddScheduledPromptScreen() {
       const categoryName = categoryInfo ? categoryInfo.name : "Autre";
 
       const message = isRecurring
-        ? `Prompt "${categoryName}" planifié pour tous les jours à ${formattedTime} ! 🔔`
+        ? `Prompt "${categoryName}" planifié : ${scheduleDescription.toLowerCase()} ! 🔔`
         : `Prompt "${categoryName}" planifié pour une seule fois à ${formattedTime} ! ⏰`;
 
       Alert.alert("✅", message);
       setPrompt(""); // Réinitialiser le champ de saisie
       setSelectedCategory("other"); // Réinitialiser la catégorie
+      setScheduleDraft(DEFAULT_SCHEDULE_DRAFT); // Revenir à "tous les jours"
+      setSelectedProvider("perplexity"); // Réinitialiser le fournisseur
+      setGenerationDraft(EMPTY_GENERATION_DRAFT); // Réinitialiser les paramètres
+      setSelectedPersonaId(undefined); // Revenir à la persona par défaut
+      setChangeAlert(DEFAULT_CHANGE_ALERT); // Désactiver l'alerte de changement
+      setWatchRules([]); // Vider les règles de surveillance
+      setCatchUp(DEFAULT_CATCH_UP_POLICY); // Rattraper une fois
+      setMaxRetries(DEFAULT_MAX_RETRIES); // Trois nouvelles tentatives
+      setTimeoutSeconds(undefined); // Délais par défaut
+      setTimeZone(toTimeZoneValue()); // Suivre l'appareil
 
       // Optionnel : rediriger vers l'accueil après planification
       // navigation.navigate("Accueil");
     } catch (error) {
       Alert.alert("Erreur", "Impossible de planifier le prompt. Réessayez.");
     }
-  }, [prompt, time, isRecurring, selectedCategory, addPrompt, formattedTime]);
+  }, [
+    prompt,
+    time,
+    isRecurring,
+    scheduleDraft,
+    scheduleDescription,
+    selectedCategory,
+    selectedProvider,
+    generationDraft,
+    selectedPersonaId,
+    changeAlert,
+    watchRules,
+    catchUp,
+    maxRetries,
+    timeoutSeconds,
+    timeZone,
+    addPrompt,
+    formattedTime,
+  ]);
 
   /**
    * 🎯 Fermeture du clavier optimisée
@@ -290,23 +410,122 @@ export default function AddScheduledPromptScreen() {
             </ScrollView>
           </View>
 
-          {/* Sélecteur d'heure toujours visible - STYLE ORIGINAL EXACT */}
-          <View style={styles.timePickerContainer}>
-            <DateTimePicker
-              mode="time"
-              value={time}
-              display="spinner"
-              onChange={handleTimeChange}
-              textColor="#81b0ff"
-              accentColor="#81b0ff"
+          {/* Sélection du fournisseur IA */}
+          <View style={styles.categorySection}>
+            <AppText style={styles.categoryLabel}>Fournisseur IA :</AppText>
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              style={styles.categoryScrollView}
+            >
+              {Object.values(AI_PROVIDERS).map((provider) => (
+                <TouchableOpacity
+                  key={provider.type}
+                  style={[
+                    styles.categoryButton,
+                    selectedProvider === provider.type && [
+                      styles.categoryButtonActive,
+                      { borderColor: "#81b0ff" },
+                    ],
+                  ]}
+                  onPress={() => setSelectedProvider(provider.type)}
+                >
+                  <AppText
+                    style={[
+                      styles.categoryText,
+                      selectedProvider === provider.type && {
+                        color: "#81b0ff",
+                      },
+                    ]}
+                  >
+                    {provider.label}
+                  </AppText>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+
+          {/* Sélection de la persona (prompt système) */}
+          <View style={styles.categorySection}>
+            <AppText style={styles.categoryLabel}>Persona :</AppText>
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              style={styles.categoryScrollView}
+            >
+              {personas.map((persona) => {
+                const isSelected = selectedPersonaId
+                  ? selectedPersonaId === persona.id
+                  : !!persona.isDefault;
+                return (
+                  <TouchableOpacity
+                    key={persona.id}
+                    style={[
+                      styles.categoryButton,
+                      isSelected && [
+                        styles.categoryButtonActive,
+                        { borderColor: "#81b0ff" },
+                      ],
+                    ]}
+                    onPress={() => setSelectedPersonaId(persona.id)}
+                  >
+                    <AppText
+                      style={[
+                        styles.categoryText,
+                        isSelected && { color: "#81b0ff" },
+                      ]}
+                    >
+                      {persona.name}
+                    </AppText>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          </View>
+
+          {/* Paramètres de génération du prompt */}
+          <View style={styles.categorySection}>
+            <AppText style={styles.categoryLabel}>
+              Paramètres de génération :
+            </AppText>
+            <GenerationSettingsEditor
+              value={generationDraft}
+              onChange={setGenerationDraft}
+              defaultModel={AI_PROVIDERS[selectedProvider].defaultModel}
             />
           </View>
 
+          {/* Notification seulement si la réponse change */}
+          <View style={styles.categorySection}>
+            <AppText style={styles.categoryLabel}>Notification :</AppText>
+            <ChangeAlertEditor value={changeAlert} onChange={setChangeAlert} />
+          </View>
+
+          {/* Règles de surveillance : mots-clés, regex, domaines */}
+          <View style={styles.categorySection}>
+            <AppText style={styles.categoryLabel}>
+              M'alerter si la réponse mentionne :
+            </AppText>
+            <WatchRulesEditor value={watchRules} onChange={setWatchRules} />
+          </View>
+
+          {/* Sélecteur d'heure (inutile pour une expression cron) - STYLE ORIGINAL EXACT */}
+          {!(isRecurring && scheduleDraft.frequency === "cron") && (
+            <View style={styles.timePickerContainer}>
+              <DateTimePicker
+                mode="time"
+                value={time}
+                display="spinner"
+                onChange={handleTimeChange}
+                textColor="#81b0ff"
+                accentColor="#81b0ff"
+              />
+            </View>
+          )}
+
           {/* Section pour activer/désactiver la récurrence - STYLE ORIGINAL EXACT */}
           <View style={styles.recurringContainer}>
-            <AppText style={styles.recurringLabel}>
-              Répéter tous les jours
-            </AppText>
+            <AppText style={styles.recurringLabel}>Répéter</AppText>
             <Switch
               value={isRecurring}
               onValueChange={toggleRecurring}
@@ -315,6 +534,51 @@ export default function AddScheduledPromptScreen() {
             />
           </View>
 
+          {/* Fréquence de répétition */}
+          {isRecurring && (
+            <View style={styles.categorySection}>
+              <SchedulePicker
+                value={scheduleDraft}
+                onChange={setScheduleDraft}
+                hour={time.getHours()}
+                minute={time.getMinutes()}
+                timeZone={pinnedTimeZone(timeZone)}
+              />
+            </View>
+          )}
+
+          {/* Fuseau horaire : suivre l'appareil ou garder celui d'une ville */}
+          {isRecurring && (
+            <View style={styles.categorySection}>
+              <AppText style={styles.categoryLabel}>Fuseau horaire :</AppText>
+              <TimeZoneEditor value={timeZone} onChange={setTimeZone} />
+            </View>
+          )}
+
+          {/* Exécutions manquées pendant que l'app était fermée */}
+          {isRecurring && (
+            <View style={styles.categorySection}>
+              <AppText style={styles.categoryLabel}>
+                Exécutions manquées :
+              </AppText>
+              <CatchUpPolicyEditor value={catchUp} onChange={setCatchUp} />
+            </View>
+          )}
+
+          {/* Nouvelles tentatives après un échec */}
+          {isRecurring && (
+            <View style={styles.categorySection}>
+              <AppText style={styles.categoryLabel}>En cas d'échec :</AppText>
+              <RetryLimitEditor value={maxRetries} onChange={setMaxRetries} />
+            </View>
+          )}
+
+          {/* Durée maximale d'une exécution, nouvelles tentatives comprises */}
+          <View style={styles.categorySection}>
+            <AppText style={styles.categoryLabel}>Durée maximale :</AppText>
+            <TimeoutEditor value={timeoutSeconds} onChange={setTimeoutSeconds} />
+          </View>
+
           {/* Texte explicatif de la récurrence - Amélioré avec catégorie */}
           <AppText style={styles.recurringInfo}>
             {(() => {
@@ -323,7 +587,7 @@ export default function AddScheduledPromptScreen() {
               );
               const categoryName = categoryInfo ? categoryInfo.name : "Autre";
               return isRecurring
-                ? `Ce prompt "${categoryName}" se répétera tous les jours à ${formattedTime}`
+                ? `Ce prompt "${categoryName}" se répétera : ${scheduleDescription.toLowerCase()}`
                 : `Ce prompt "${categoryName}" ne se lancera qu'une seule fois à ${formattedTime}`;
             })()}
           </AppText>
@@ -1,4 +1,10 @@
-import React, { useEffect, useState, useMemo, useCallback } from "react";
+import React, {
+  useEffect,
+  useState,
+  useMemo,
+  useCallback,
+  useRef,
+} from "react";
 import {
   SafeAreaView,
   StyleSheet,
@@ -10,15 +16,59 @@ import {
   RefreshControl,
   Keyboard,
   TouchableWithoutFeedback,
+  Alert,
 } from "react-native";
 import Cards from "../components/Cards";
 import { usePrompt, Prompt } from "../context/PromptContext";
 import { Trash, Plus, List } from "phosphor-react-native";
 import AddScheduledPromptScreen from "./AddScheduledPromptScreen";
-import { useNavigation, DrawerActions } from "@react-navigation/native";
+import {
+  useNavigation,
+  useRoute,
+  RouteProp,
+  DrawerActions,
+} from "@react-navigation/native";
+import { DrawerNavigationProp } from "@react-navigation/drawer";
+import type { DrawerParamList } from "../navigation/DrawerNavigator";
 import { Modal } from "react-native";
 import EmptyState from "../components/EmptyState";
+import DigestCard from "../components/DigestCard";
 import { useHaptic } from "../hooks/useHaptic"; // ✅ NOUVEAU : Import haptic
+import { findDailyComparison } from "../utils/runHistory";
+import { summarizeChange, ChangeSummary } from "../utils/textDiff";
+import { CatchUpPlan, SKIP_REASON_LABELS } from "../utils/scheduler";
+import { getDayKey } from "../utils/digest";
+
+/**
+ * ⏪ Texte du récapitulatif de rattrapage affiché au lancement
+ */
+function formatCatchUpSummary(plan: CatchUpPlan, prompts: Prompt[]): string {
+  const label = (promptId: string) => {
+    const question =
+      prompts.find((p) => p.id === promptId)?.question ?? "Prompt supprimé";
+    return question.length > 50 ? question.substring(0, 50) + "..." : question;
+  };
+
+  const sections: string[] = [];
+  if (plan.run.length > 0) {
+    sections.push(
+      `✅ Rattrapés (${plan.run.length}) :\n` +
+        plan.run.map((run) => `• ${label(run.promptId)}`).join("\n")
+    );
+  }
+  if (plan.skipped.length > 0) {
+    sections.push(
+      `⏭️ Ignorés (${plan.skipped.length}) :\n` +
+        plan.skipped
+          .map(
+            (run) =>
+              `• ${label(run.promptId)} (${SKIP_REASON_LABELS[run.reason]})`
+          )
+          .join("\n")
+    );
+  }
+  return sections.join("\n\n");
+}
 
 /**
  * 🏠 HomeScreen avec Haptic Feedback Premium Intégré
@@ -42,6 +92,8 @@ import { useHaptic } from "../hooks/useHaptic"; // ✅ NOUVEAU : Import haptic
  * - Planification de prompts récurrents + haptic
  * - Rafraîchissement manuel avec pattern haptic
  * - Empty State spécialisé pour outil de veille IA
+ * - Badge "du nouveau" quand la réponse du jour diffère de la veille
+ * - Récapitulatif des exécutions manquées rattrapées ou ignorées au lancement
  */
 export default function HomeScreen() {
   // ✅ NOUVEAU : Hook haptic pour feedback tactile premium
@@ -54,14 +106,37 @@ export default function HomeScreen() {
   } = useHaptic();
 
   // Navigation et contexte - pas de changement nécessaire
-  const navigation = useNavigation();
-  const { prompts, checkAndRunScheduledPrompts, addPrompt } = usePrompt();
+  const navigation =
+    useNavigation<DrawerNavigationProp<DrawerParamList, "Accueil">>();
+  const route = useRoute<RouteProp<DrawerParamList, "Accueil">>();
+  const {
+    prompts,
+    checkAndRunScheduledPrompts,
+    addPrompt,
+    streamingPromptIds,
+    stopPrompt,
+    getPromptRuns,
+    catchUpSummary,
+    dismissCatchUpSummary,
+    dailyDigest,
+  } = usePrompt();
 
   // États locaux optimisés
   const [refreshing, setRefreshing] = useState(false);
   const [showScheduleModal, setShowScheduleModal] = useState(false);
   const [searchPrompt, setSearchPrompt] = useState("");
 
+  /**
+   * 🔗 Question reçue par un lien prism://ask?q=... : pré-remplie dans la
+   * barre, l'utilisateur garde la main avant l'envoi
+   */
+  const linkedQuestion = route.params?.q;
+  useEffect(() => {
+    if (!linkedQuestion) return;
+    setSearchPrompt(linkedQuestion);
+    navigation.setParams({ q: undefined });
+  }, [linkedQuestion, navigation]);
+
   /**
    * 🔄 Vérification automatique des prompts planifiés
    * Optimisation : useCallback pour éviter les re-créations
@@ -79,6 +154,21 @@ export default function HomeScreen() {
     return () => clearInterval(interval);
   }, [checkScheduledPrompts]);
 
+  /**
+   * ⏪ Récapitulatif du rattrapage effectué au lancement
+   */
+  useEffect(() => {
+    if (!catchUpSummary) return;
+
+    Alert.alert(
+      "⏪ Exécutions manquées",
+      formatCatchUpSummary(catchUpSummary, prompts),
+      [{ text: "OK", onPress: dismissCatchUpSummary }],
+      { onDismiss: dismissCatchUpSummary }
+    );
+    // Affiché une fois par récapitulatif, pas à chaque mise à jour des prompts
+  }, [catchUpSummary, dismissCatchUpSummary]);
+
   /**
    * 🔽 Gestion du rafraîchissement avec pattern haptic spécialisé
    */
@@ -162,14 +252,14 @@ export default function HomeScreen() {
   const feedPrompts = useMemo(() => {
     return prompts
       .filter((p) => {
-        // ✅ Filtrage plus strict pour exclure les états de chargement
+        // ✅ Une réponse (éventuellement en cours de streaming), un échec à
+        // signaler ou une requête en attente (annulable depuis la carte)
         return (
-          p.response &&
-          p.response !== "" &&
-          p.response !== "⏳ Génération en cours..." &&
-          p.response !== "⏳ Exécution en cours..." &&
-          !p.response.startsWith("⏳")
-        ); // Sécurité pour tous les états de chargement
+          p.response !== "" ||
+          p.status === "failed" ||
+          p.status === "running" ||
+          p.status === "queued"
+        );
       })
       .slice() // Copie pour éviter la mutation
       .sort((a, b) => {
@@ -180,20 +270,96 @@ export default function HomeScreen() {
       });
   }, [prompts]);
 
+  /**
+   * ✨ Changements notables entre la réponse du jour et celle de la veille
+   *
+   * Uniquement pour les prompts planifiés : le badge ouvre la comparaison
+   * mot à mot dans l'historique du prompt. Le résumé (coûteux) est mis en
+   * cache par paire d'exécutions, le fil étant recalculé à chaque
+   * fragment de réponse en streaming.
+   */
+  const changeSummariesRef = useRef(new Map<string, ChangeSummary>());
+  const whatsNew = useMemo(() => {
+    const changes: Record<
+      string,
+      { label: string; compare: [string, string] }
+    > = {};
+
+    for (const prompt of feedPrompts) {
+      if (!prompt.scheduled) continue;
+
+      const comparison = findDailyComparison(getPromptRuns(prompt.id));
+      if (!comparison) continue;
+
+      const pairKey = `${comparison.previous.id}:${comparison.latest.id}`;
+      let summary = changeSummariesRef.current.get(pairKey);
+      if (!summary) {
+        summary = summarizeChange(
+          comparison.previous.response,
+          comparison.latest.response
+        );
+        changeSummariesRef.current.set(pairKey, summary);
+      }
+      if (summary.isMeaningful) {
+        changes[prompt.id] = {
+          label: `Du nouveau · +${summary.addedWords} / −${summary.removedWords} mots`,
+          compare: [comparison.previous.id, comparison.latest.id],
+        };
+      }
+    }
+
+    return changes;
+  }, [feedPrompts, getPromptRuns]);
+
+  /**
+   * 🔀 Ouverture de la comparaison depuis le badge
+   */
+  const openWhatsNew = useCallback(
+    (promptId: string) => {
+      const change = whatsNew[promptId];
+      if (!change) return;
+      hapticSoft();
+      navigation.navigate("Historique", {
+        promptId,
+        compare: change.compare,
+      });
+    },
+    [whatsNew, navigation, hapticSoft]
+  );
+
+  /**
+   * 🗞️ Digest du jour, épinglé en tête du fil
+   */
+  const todayDigest = dailyDigest?.day === getDayKey() ? dailyDigest : null;
+
+  const openDigestItem = useCallback(
+    (promptId: string) => {
+      hapticSoft();
+      navigation.navigate("Détail du prompt", { promptId });
+    },
+    [navigation, hapticSoft]
+  );
+
+  const digestHeader = useMemo(
+    () =>
+      todayDigest ? (
+        <DigestCard digest={todayDigest} onItemPress={openDigestItem} />
+      ) : null,
+    [todayDigest, openDigestItem]
+  );
+
   /**
    * ✅ Détermination intelligente de l'affichage
    */
   const shouldShowEmptyState = useMemo(() => {
-    const hasExecutedPrompts = feedPrompts.length > 0;
+    const hasExecutedPrompts = feedPrompts.length > 0 || !!todayDigest;
     const hasPromptInProgress = prompts.some(
-      (p) =>
-        p.response.startsWith("⏳") ||
-        p.response === "⏳ Génération en cours..."
+      (p) => p.status === "running" || p.status === "queued"
     );
     const hasSearchQuery = searchPrompt.trim().length > 0;
 
     return !hasExecutedPrompts && !hasPromptInProgress && !hasSearchQuery;
-  }, [feedPrompts.length, prompts, searchPrompt]);
+  }, [feedPrompts.length, todayDigest, prompts, searchPrompt]);
 
   /**
    * 🎭 Fonction de rendu optimisée pour FlatList avec typage correct
@@ -205,10 +371,24 @@ export default function HomeScreen() {
         title={item.question}
         content={item.response}
         source={item.source}
+        citations={item.citations}
+        errorMessage={item.status === "failed" ? item.error?.message : undefined}
+        whatsNew={whatsNew[item.id]?.label}
+        watchRules={item.watchRules}
+        onWhatsNewPress={() => openWhatsNew(item.id)}
+        isLoading={
+          item.response === "" &&
+          (item.status === "running" || item.status === "queued")
+        }
+        isQueued={item.status === "queued"}
+        isStreaming={
+          streamingPromptIds.includes(item.id) && item.response !== ""
+        }
+        onStop={() => stopPrompt(item.id)}
         index={index} // ✅ Passer l'index pour l'animation staggered
       />
     ),
-    []
+    [streamingPromptIds, stopPrompt, whatsNew, openWhatsNew]
   );
 
   /**
@@ -290,6 +470,7 @@ export default function HomeScreen() {
           data={feedPrompts}
           keyExtractor={keyExtractor}
           renderItem={renderPromptItem}
+          ListHeaderComponent={digestHeader}
           refreshControl={refreshControl} // ✅ NOUVEAU : Avec pattern haptic
           // 🚀 Optimisations de performance critiques
           removeClippedSubviews={true} // Économise la mémoire
@@ -300,7 +481,9 @@ export default function HomeScreen() {
           // 🎨 Améliorations visuelles
           showsVerticalScrollIndicator={false}
           contentContainerStyle={
-            feedPrompts.length === 0 ? styles.emptyContainer : undefined
+            feedPrompts.length === 0 && !todayDigest
+              ? styles.emptyContainer
+              : undefined
           }
           // 📱 Amélioration de l'expérience utilisateur
           keyboardShouldPersistTaps="handled" // Permet l'interaction même avec clavier ouvert
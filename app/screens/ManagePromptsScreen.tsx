@@ -12,6 +12,8 @@ import {
   ScrollView,
 } from "react-native";
 import { useNavigation, DrawerActions } from "@react-navigation/native";
+import { DrawerNavigationProp } from "@react-navigation/drawer";
+import type { DrawerParamList } from "../navigation/DrawerNavigator";
 import {
   List,
   Pencil,
@@ -27,10 +29,49 @@ import {
   Briefcase,
   User,
   Files,
+  ClockCounterClockwise,
+  Stop,
 } from "phosphor-react-native";
 import { usePrompt, Prompt } from "../context/PromptContext";
 import AppText from "../components/AppText";
 import DateTimePicker from "@react-native-community/datetimepicker";
+import GenerationSettingsEditor, {
+  GenerationDraft,
+  EMPTY_GENERATION_DRAFT,
+  toGenerationDraft,
+  parseGenerationDraft,
+} from "../components/GenerationSettingsEditor";
+import ChangeAlertEditor from "../components/ChangeAlertEditor";
+import WatchRulesEditor from "../components/WatchRulesEditor";
+import CatchUpPolicyEditor from "../components/CatchUpPolicyEditor";
+import RetryLimitEditor from "../components/RetryLimitEditor";
+import TimeoutEditor from "../components/TimeoutEditor";
+import TimeZoneEditor, {
+  TimeZoneValue,
+  toTimeZoneValue,
+  pinnedTimeZone,
+} from "../components/TimeZoneEditor";
+import SchedulePicker, {
+  ScheduleDraft,
+  DEFAULT_SCHEDULE_DRAFT,
+  toScheduleDraft,
+  toScheduleFields,
+} from "../components/SchedulePicker";
+import {
+  describeSchedule,
+  formatScheduleTime,
+  validateScheduleRule,
+} from "../utils/schedule";
+import { WatchRule } from "../utils/watchRules";
+import {
+  CatchUpPolicy,
+  DEFAULT_CATCH_UP_POLICY,
+  DEFAULT_MAX_RETRIES,
+} from "../utils/scheduler";
+import { ChangeAlert, DEFAULT_CHANGE_ALERT } from "../utils/changeDetection";
+import { getProvider } from "../utils/aiProviders";
+import { getDeviceTimeZone } from "../utils/timeZone";
+import { CATEGORIES } from "../utils/categories";
 
 /**
  * 🔧 Écran de gestion avancée des prompts planifiés
@@ -41,26 +82,18 @@ import DateTimePicker from "@react-native-community/datetimepicker";
  * - Suppression individuelle avec confirmation
  * - Filtrage par catégorie et statut
  * - Recherche par nom/contenu
+ * - Accès à l'historique des exécutions de chaque prompt
  * - Système de catégories avec tags colorés
  */
 
-// Catégories prédéfinies avec couleurs (sans émojis - utilisation d'icônes Phosphor)
-const CATEGORIES = [
-  { id: "news", name: "Actualités", color: "#ff6b6b", icon: "Newspaper" },
-  { id: "tech", name: "Technologie", color: "#4ecdc4", icon: "Desktop" },
-  { id: "science", name: "Science", color: "#45b7d1", icon: "Flask" },
-  { id: "business", name: "Business", color: "#f9ca24", icon: "Briefcase" },
-  { id: "personal", name: "Personnel", color: "#6c5ce7", icon: "User" },
-  { id: "other", name: "Autre", color: "#a0a0a0", icon: "Files" },
-];
-
 // Types pour les filtres
 type FilterType = "all" | "scheduled" | "executed";
 type SortType = "date" | "name" | "category";
 
 export default function ManagePromptsScreen() {
-  const navigation = useNavigation();
-  const { prompts, removePrompt, updatePrompt } = usePrompt();
+  const navigation = useNavigation<DrawerNavigationProp<DrawerParamList>>();
+  const { prompts, removePrompt, updatePrompt, personas, stopPrompt } =
+    usePrompt();
 
   // États pour la gestion
   const [searchText, setSearchText] = useState("");
@@ -74,7 +107,24 @@ export default function ManagePromptsScreen() {
   const [editText, setEditText] = useState("");
   const [editTime, setEditTime] = useState(new Date());
   const [editRecurring, setEditRecurring] = useState(true);
+  const [editSchedule, setEditSchedule] = useState<ScheduleDraft>(
+    DEFAULT_SCHEDULE_DRAFT
+  );
   const [editCategory, setEditCategory] = useState("other");
+  const [editGeneration, setEditGeneration] = useState<GenerationDraft>(
+    EMPTY_GENERATION_DRAFT
+  );
+  const [editPersonaId, setEditPersonaId] = useState<string | undefined>();
+  const [editChangeAlert, setEditChangeAlert] =
+    useState<ChangeAlert>(DEFAULT_CHANGE_ALERT);
+  const [editWatchRules, setEditWatchRules] = useState<WatchRule[]>([]);
+  const [editCatchUp, setEditCatchUp] = useState<CatchUpPolicy>(
+    DEFAULT_CATCH_UP_POLICY
+  );
+  const [editMaxRetries, setEditMaxRetries] = useState(DEFAULT_MAX_RETRIES);
+  const [editTimeout, setEditTimeout] = useState<number | undefined>();
+  const [editTimeZone, setEditTimeZone] =
+    useState<TimeZoneValue>(toTimeZoneValue);
 
   /**
    * 🔍 Filtrage et tri intelligent des prompts
@@ -133,12 +183,21 @@ export default function ManagePromptsScreen() {
     setEditingPrompt(prompt);
     setEditText(prompt.question);
     setEditCategory((prompt as any).category || "other");
+    setEditGeneration(toGenerationDraft(prompt.generation));
+    setEditPersonaId(prompt.personaId);
 
     if (prompt.scheduled) {
       const editDate = new Date();
       editDate.setHours(prompt.scheduled.hour, prompt.scheduled.minute, 0, 0);
       setEditTime(editDate);
       setEditRecurring(prompt.scheduled.isRecurring ?? true);
+      setEditSchedule(toScheduleDraft(prompt.scheduled));
+      setEditChangeAlert(prompt.changeAlert ?? DEFAULT_CHANGE_ALERT);
+      setEditWatchRules(prompt.watchRules ?? []);
+      setEditCatchUp(prompt.catchUp ?? DEFAULT_CATCH_UP_POLICY);
+      setEditMaxRetries(prompt.maxRetries ?? DEFAULT_MAX_RETRIES);
+      setEditTimeout(prompt.timeoutSeconds);
+      setEditTimeZone(toTimeZoneValue(prompt.scheduled));
     }
 
     setEditModalVisible(true);
@@ -153,12 +212,21 @@ export default function ManagePromptsScreen() {
       return;
     }
 
+    const { generation, error: generationError } =
+      parseGenerationDraft(editGeneration);
+    if (generationError) {
+      Alert.alert("Paramètres invalides", generationError);
+      return;
+    }
+
     try {
       const updates: Partial<Prompt> = {
         question: editText.trim(),
         updatedAt: new Date().toISOString(),
         // Ajout de la catégorie (extension du type)
         ...{ category: editCategory },
+        generation,
+        personaId: editPersonaId,
       };
 
       // Mise à jour des paramètres de planification si c'est un prompt planifié
@@ -168,7 +236,23 @@ export default function ManagePromptsScreen() {
           hour: editTime.getHours(),
           minute: editTime.getMinutes(),
           isRecurring: editRecurring,
+          ...(editRecurring && toScheduleFields(editSchedule)),
+          timeZone: pinnedTimeZone(editTimeZone) ?? getDeviceTimeZone(),
+          timeZoneMode: editTimeZone.mode,
         };
+
+        const scheduleError =
+          editRecurring && validateScheduleRule(updates.scheduled);
+        if (scheduleError) {
+          Alert.alert("Planification invalide", scheduleError);
+          return;
+        }
+        updates.changeAlert = editChangeAlert;
+        updates.watchRules =
+          editWatchRules.length > 0 ? editWatchRules : undefined;
+        updates.catchUp = editRecurring ? editCatchUp : undefined;
+        updates.maxRetries = editRecurring ? editMaxRetries : undefined;
+        updates.timeoutSeconds = editTimeout;
       }
 
       updatePrompt(editingPrompt.id, updates);
@@ -183,8 +267,17 @@ export default function ManagePromptsScreen() {
     editingPrompt,
     editText,
     editCategory,
+    editGeneration,
+    editPersonaId,
     editTime,
     editRecurring,
+    editSchedule,
+    editChangeAlert,
+    editWatchRules,
+    editCatchUp,
+    editMaxRetries,
+    editTimeout,
+    editTimeZone,
     updatePrompt,
   ]);
 
@@ -261,11 +354,9 @@ export default function ManagePromptsScreen() {
       const isScheduled = !!item.scheduled;
       const category = getCategoryInfo((item as any).category || "other");
       const timeText = item.scheduled
-        ? `${item.scheduled.hour
-            .toString()
-            .padStart(2, "0")}:${item.scheduled.minute
-            .toString()
-            .padStart(2, "0")}`
+        ? item.scheduled.isRecurring ?? true
+          ? describeSchedule(item.scheduled)
+          : formatScheduleTime(item.scheduled.hour, item.scheduled.minute)
         : null;
 
       return (
@@ -286,10 +377,16 @@ export default function ManagePromptsScreen() {
                   <AppText style={styles.scheduledText}>{timeText}</AppText>
                 </View>
               )}
-              {item.response && (
-                <View style={styles.executedBadge}>
-                  <AppText style={styles.executedText}>✅</AppText>
+              {item.status === "failed" ? (
+                <View style={styles.failedBadge}>
+                  <AppText style={styles.executedText}>❌</AppText>
                 </View>
+              ) : (
+                item.response !== "" && (
+                  <View style={styles.executedBadge}>
+                    <AppText style={styles.executedText}>✅</AppText>
+                  </View>
+                )
               )}
             </View>
           </View>
@@ -306,6 +403,38 @@ export default function ManagePromptsScreen() {
             </AppText>
           )}
 
+          {/* Erreur de la dernière exécution */}
+          {item.status === "failed" && item.error && (
+            <AppText style={styles.promptError} numberOfLines={2}>
+              {item.error.message}
+            </AppText>
+          )}
+
+          {/* Nouvelle tentative programmée après l'échec */}
+          {item.status === "failed" && item.scheduled?.retry && (
+            <AppText style={styles.promptRetry}>
+              🔁 Échec, nouvel essai à{" "}
+              {new Date(item.scheduled.retry.nextAt).toLocaleTimeString(
+                "fr-FR",
+                { hour: "2-digit", minute: "2-digit" }
+              )}{" "}
+              ({item.scheduled.retry.attempt}/
+              {item.maxRetries ?? DEFAULT_MAX_RETRIES})
+            </AppText>
+          )}
+
+          {/* Exécution reportée depuis une notification */}
+          {item.scheduled?.snoozedUntil &&
+            new Date(item.scheduled.snoozedUntil) > new Date() && (
+              <AppText style={styles.promptRetry}>
+                😴 Reporté à{" "}
+                {new Date(item.scheduled.snoozedUntil).toLocaleTimeString(
+                  "fr-FR",
+                  { hour: "2-digit", minute: "2-digit" }
+                )}
+              </AppText>
+            )}
+
           {/* Actions */}
           <View style={styles.promptActions}>
             <AppText style={styles.promptDate}>
@@ -313,6 +442,26 @@ export default function ManagePromptsScreen() {
             </AppText>
 
             <View style={styles.actionButtons}>
+              {(item.status === "running" || item.status === "queued") && (
+                <TouchableOpacity
+                  style={styles.deleteButton}
+                  onPress={() => stopPrompt(item.id)}
+                  accessibilityLabel="Annuler l'exécution"
+                >
+                  <Stop size={16} color="#ff4757" weight="fill" />
+                </TouchableOpacity>
+              )}
+
+              <TouchableOpacity
+                style={styles.editButton}
+                onPress={() =>
+                  navigation.navigate("Historique", { promptId: item.id })
+                }
+                accessibilityLabel="Voir l'historique des exécutions"
+              >
+                <ClockCounterClockwise size={16} color="#81b0ff" />
+              </TouchableOpacity>
+
               {isScheduled && (
                 <TouchableOpacity
                   style={styles.editButton}
@@ -333,7 +482,7 @@ export default function ManagePromptsScreen() {
         </View>
       );
     },
-    [getCategoryInfo, startEditing, deletePrompt]
+    [getCategoryInfo, startEditing, deletePrompt, navigation, stopPrompt]
   );
 
   /**
@@ -592,31 +741,98 @@ export default function ManagePromptsScreen() {
               </ScrollView>
             </View>
 
+            {/* Sélection de la persona */}
+            <View style={styles.modalSection}>
+              <AppText style={styles.modalLabel} bold>
+                Persona :
+              </AppText>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                {personas.map((persona) => {
+                  const isSelected = editPersonaId
+                    ? editPersonaId === persona.id
+                    : !!persona.isDefault;
+                  return (
+                    <TouchableOpacity
+                      key={persona.id}
+                      style={[
+                        styles.categorySelector,
+                        isSelected && styles.categorySelectorActive,
+                      ]}
+                      onPress={() => setEditPersonaId(persona.id)}
+                    >
+                      <Text
+                        style={[
+                          styles.categorySelectorText,
+                          isSelected && { color: "#81b0ff" },
+                        ]}
+                      >
+                        {persona.name}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </ScrollView>
+            </View>
+
+            {/* Paramètres de génération */}
+            <View style={styles.modalSection}>
+              <AppText style={styles.modalLabel} bold>
+                Paramètres de génération :
+              </AppText>
+              <GenerationSettingsEditor
+                value={editGeneration}
+                onChange={setEditGeneration}
+                defaultModel={getProvider(editingPrompt?.provider).defaultModel}
+              />
+            </View>
+
             {/* Paramètres de planification (si prompt planifié) */}
             {editingPrompt?.scheduled && (
               <>
                 <View style={styles.modalSection}>
                   <AppText style={styles.modalLabel} bold>
-                    Heure d'exécution :
+                    Notification :
                   </AppText>
-                  <View style={styles.timePickerContainer}>
-                    <DateTimePicker
-                      mode="time"
-                      value={editTime}
-                      display="spinner"
-                      onChange={(event, selectedTime) => {
-                        if (selectedTime) setEditTime(selectedTime);
-                      }}
-                      textColor="#81b0ff"
-                      accentColor="#81b0ff"
-                    />
-                  </View>
+                  <ChangeAlertEditor
+                    value={editChangeAlert}
+                    onChange={setEditChangeAlert}
+                  />
+                </View>
+
+                <View style={styles.modalSection}>
+                  <AppText style={styles.modalLabel} bold>
+                    M'alerter si la réponse mentionne :
+                  </AppText>
+                  <WatchRulesEditor
+                    value={editWatchRules}
+                    onChange={setEditWatchRules}
+                  />
                 </View>
 
+                {!(editRecurring && editSchedule.frequency === "cron") && (
+                  <View style={styles.modalSection}>
+                    <AppText style={styles.modalLabel} bold>
+                      Heure d'exécution :
+                    </AppText>
+                    <View style={styles.timePickerContainer}>
+                      <DateTimePicker
+                        mode="time"
+                        value={editTime}
+                        display="spinner"
+                        onChange={(event, selectedTime) => {
+                          if (selectedTime) setEditTime(selectedTime);
+                        }}
+                        textColor="#81b0ff"
+                        accentColor="#81b0ff"
+                      />
+                    </View>
+                  </View>
+                )}
+
                 <View style={styles.modalSection}>
                   <View style={styles.switchContainer}>
                     <AppText style={styles.modalLabel} bold>
-                      Répéter quotidiennement
+                      Répéter
                     </AppText>
                     <Switch
                       value={editRecurring}
@@ -625,6 +841,58 @@ export default function ManagePromptsScreen() {
                       thumbColor={editRecurring ? "#81b0ff" : "#666"}
                     />
                   </View>
+                  {editRecurring && (
+                    <SchedulePicker
+                      value={editSchedule}
+                      onChange={setEditSchedule}
+                      hour={editTime.getHours()}
+                      minute={editTime.getMinutes()}
+                      timeZone={pinnedTimeZone(editTimeZone)}
+                    />
+                  )}
+                </View>
+
+                {editRecurring && (
+                  <View style={styles.modalSection}>
+                    <AppText style={styles.modalLabel} bold>
+                      Fuseau horaire :
+                    </AppText>
+                    <TimeZoneEditor
+                      value={editTimeZone}
+                      onChange={setEditTimeZone}
+                    />
+                  </View>
+                )}
+
+                {editRecurring && (
+                  <View style={styles.modalSection}>
+                    <AppText style={styles.modalLabel} bold>
+                      Exécutions manquées :
+                    </AppText>
+                    <CatchUpPolicyEditor
+                      value={editCatchUp}
+                      onChange={setEditCatchUp}
+                    />
+                  </View>
+                )}
+
+                {editRecurring && (
+                  <View style={styles.modalSection}>
+                    <AppText style={styles.modalLabel} bold>
+                      En cas d'échec :
+                    </AppText>
+                    <RetryLimitEditor
+                      value={editMaxRetries}
+                      onChange={setEditMaxRetries}
+                    />
+                  </View>
+                )}
+
+                <View style={styles.modalSection}>
+                  <AppText style={styles.modalLabel} bold>
+                    Durée maximale :
+                  </AppText>
+                  <TimeoutEditor value={editTimeout} onChange={setEditTimeout} />
                 </View>
               </>
             )}
@@ -811,6 +1079,13 @@ const styles = StyleSheet.create({
     borderRadius: 8,
   },
 
+  failedBadge: {
+    backgroundColor: "#ff475722",
+    paddingHorizontal: 4,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+
   executedText: {
     fontSize: 10,
   },
@@ -829,6 +1104,19 @@ const styles = StyleSheet.create({
     lineHeight: 20,
   },
 
+  promptError: {
+    fontSize: 12,
+    color: "#ff4757",
+    lineHeight: 17,
+    marginBottom: 8,
+  },
+
+  promptRetry: {
+    fontSize: 12,
+    color: "#f9ca24",
+    marginBottom: 8,
+  },
+
   promptActions: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -0,0 +1,394 @@
+import React, { useState, useCallback } from "react";
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Alert,
+  Modal,
+  TextInput,
+  ScrollView,
+} from "react-native";
+import { useNavigation, DrawerActions } from "@react-navigation/native";
+import { List, Pencil, Trash, Plus, Star } from "phosphor-react-native";
+import { usePrompt, Persona } from "../context/PromptContext";
+import AppText from "../components/AppText";
+
+/**
+ * 🎭 Écran de gestion de la bibliothèque de personas
+ *
+ * Fonctionnalités :
+ * - Liste des prompts système nommés
+ * - Création et édition via un modal
+ * - Choix de la persona par défaut (utilisée quand un prompt n'en précise pas)
+ * - Suppression avec confirmation (au moins une persona est conservée)
+ */
+export default function PersonasScreen() {
+  const navigation = useNavigation();
+  const {
+    personas,
+    prompts,
+    addPersona,
+    updatePersona,
+    removePersona,
+    setDefaultPersona,
+  } = usePrompt();
+
+  // États pour l'édition (null = création)
+  const [editingPersona, setEditingPersona] = useState<Persona | null>(null);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editName, setEditName] = useState("");
+  const [editSystemPrompt, setEditSystemPrompt] = useState("");
+
+  /**
+   * ✏️ Ouvrir le modal en création ou en édition
+   */
+  const openEditor = useCallback((persona: Persona | null) => {
+    setEditingPersona(persona);
+    setEditName(persona?.name ?? "");
+    setEditSystemPrompt(persona?.systemPrompt ?? "");
+    setModalVisible(true);
+  }, []);
+
+  /**
+   * 💾 Sauvegarder la persona
+   */
+  const saveEdit = useCallback(() => {
+    if (!editName.trim() || !editSystemPrompt.trim()) {
+      Alert.alert(
+        "Erreur",
+        "Le nom et le prompt système ne peuvent pas être vides."
+      );
+      return;
+    }
+
+    if (editingPersona) {
+      updatePersona(editingPersona.id, {
+        name: editName.trim(),
+        systemPrompt: editSystemPrompt.trim(),
+      });
+    } else {
+      addPersona(editName, editSystemPrompt);
+    }
+
+    setModalVisible(false);
+    setEditingPersona(null);
+  }, [editingPersona, editName, editSystemPrompt, addPersona, updatePersona]);
+
+  /**
+   * 🗑️ Supprimer une persona avec confirmation
+   */
+  const deletePersona = useCallback(
+    (persona: Persona) => {
+      if (personas.length <= 1) {
+        Alert.alert("Impossible", "La bibliothèque doit garder une persona.");
+        return;
+      }
+
+      const usageCount = prompts.filter(
+        (p) => p.personaId === persona.id
+      ).length;
+      const message =
+        usageCount > 0
+          ? `Supprimer "${persona.name}" ?\n\n${usageCount} prompt(s) utiliseront la persona par défaut.`
+          : `Supprimer "${persona.name}" ?`;
+
+      Alert.alert("🗑️ Confirmation", message, [
+        { text: "Annuler", style: "cancel" },
+        {
+          text: "Supprimer",
+          style: "destructive",
+          onPress: () => removePersona(persona.id),
+        },
+      ]);
+    },
+    [personas.length, prompts, removePersona]
+  );
+
+  /**
+   * 🎨 Rendu d'une persona avec actions
+   */
+  const renderPersonaItem = useCallback(
+    ({ item }: { item: Persona }) => (
+      <View style={styles.personaItem}>
+        <View style={styles.personaHeader}>
+          <AppText style={styles.personaName} bold>
+            {item.name}
+          </AppText>
+          {item.isDefault && (
+            <View style={styles.defaultBadge}>
+              <AppText style={styles.defaultText}>Par défaut</AppText>
+            </View>
+          )}
+        </View>
+
+        <AppText style={styles.personaPrompt} numberOfLines={3}>
+          {item.systemPrompt}
+        </AppText>
+
+        <View style={styles.actionButtons}>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => setDefaultPersona(item.id)}
+            accessibilityLabel="Définir comme persona par défaut"
+          >
+            <Star
+              size={16}
+              color="#f9ca24"
+              weight={item.isDefault ? "fill" : "regular"}
+            />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => openEditor(item)}
+          >
+            <Pencil size={16} color="#81b0ff" />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => deletePersona(item)}
+          >
+            <Trash size={16} color="#ff4757" />
+          </TouchableOpacity>
+        </View>
+      </View>
+    ),
+    [setDefaultPersona, openEditor, deletePersona]
+  );
+
+  const keyExtractor = useCallback((item: Persona) => item.id, []);
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => navigation.dispatch(DrawerActions.openDrawer())}
+        >
+          <List size={26} weight="regular" color="white" />
+        </TouchableOpacity>
+        <AppText style={styles.headerTitle} bold>
+          Personas
+        </AppText>
+        <TouchableOpacity
+          style={styles.addButton}
+          onPress={() => openEditor(null)}
+          accessibilityLabel="Créer une persona"
+        >
+          <Plus size={24} color="white" />
+        </TouchableOpacity>
+      </View>
+
+      <FlatList
+        data={personas}
+        keyExtractor={keyExtractor}
+        renderItem={renderPersonaItem}
+        showsVerticalScrollIndicator={false}
+        contentContainerStyle={styles.listContainer}
+      />
+
+      {/* Modal de création / édition */}
+      <Modal
+        visible={modalVisible}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setModalVisible(false)}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setModalVisible(false)}>
+              <AppText style={styles.modalCancel}>Annuler</AppText>
+            </TouchableOpacity>
+            <AppText style={styles.modalTitle} bold>
+              {editingPersona ? "Éditer la persona" : "Nouvelle persona"}
+            </AppText>
+            <TouchableOpacity onPress={saveEdit}>
+              <AppText style={styles.modalSave}>Sauver</AppText>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent}>
+            <View style={styles.modalSection}>
+              <AppText style={styles.modalLabel} bold>
+                Nom :
+              </AppText>
+              <TextInput
+                style={styles.nameInput}
+                value={editName}
+                onChangeText={setEditName}
+                placeholder="Ex : Analyste marchés"
+                placeholderTextColor="#888"
+              />
+            </View>
+
+            <View style={styles.modalSection}>
+              <AppText style={styles.modalLabel} bold>
+                Prompt système :
+              </AppText>
+              <TextInput
+                style={styles.modalInput}
+                value={editSystemPrompt}
+                onChangeText={setEditSystemPrompt}
+                placeholder="Tu es un analyste financier. Réponds de façon concise..."
+                placeholderTextColor="#888"
+                multiline
+                numberOfLines={8}
+                textAlignVertical="top"
+              />
+            </View>
+          </ScrollView>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#1E1E1E",
+  },
+
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingTop: 50,
+    paddingHorizontal: 16,
+    paddingBottom: 10,
+  },
+
+  headerTitle: {
+    flex: 1,
+    fontSize: 20,
+    color: "#fff",
+    marginLeft: 16,
+  },
+
+  addButton: {
+    padding: 4,
+  },
+
+  listContainer: {
+    paddingHorizontal: 16,
+    paddingTop: 8,
+  },
+
+  personaItem: {
+    backgroundColor: "#252525",
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.06)",
+  },
+
+  personaHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+
+  personaName: {
+    fontSize: 16,
+    color: "#fff",
+  },
+
+  defaultBadge: {
+    backgroundColor: "#f9ca2422",
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+
+  defaultText: {
+    fontSize: 10,
+    color: "#f9ca24",
+  },
+
+  personaPrompt: {
+    fontSize: 14,
+    color: "#ccc",
+    lineHeight: 20,
+    marginBottom: 8,
+  },
+
+  actionButtons: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    alignItems: "center",
+  },
+
+  actionButton: {
+    padding: 8,
+    marginLeft: 4,
+  },
+
+  // Styles du modal d'édition (identiques à ManagePromptsScreen)
+  modalContainer: {
+    flex: 1,
+    backgroundColor: "#1E1E1E",
+  },
+
+  modalHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingTop: 50,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "#333",
+  },
+
+  modalCancel: {
+    fontSize: 16,
+    color: "#888",
+  },
+
+  modalTitle: {
+    fontSize: 18,
+    color: "#fff",
+  },
+
+  modalSave: {
+    fontSize: 16,
+    color: "#81b0ff",
+    fontWeight: "600",
+  },
+
+  modalContent: {
+    flex: 1,
+    padding: 16,
+  },
+
+  modalSection: {
+    marginBottom: 24,
+  },
+
+  modalLabel: {
+    fontSize: 16,
+    color: "#fff",
+    marginBottom: 8,
+  },
+
+  nameInput: {
+    backgroundColor: "#252525",
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 16,
+    color: "#fff",
+    fontFamily: "Satoshi-Regular",
+  },
+
+  modalInput: {
+    backgroundColor: "#252525",
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 16,
+    color: "#fff",
+    minHeight: 160,
+    textAlignVertical: "top",
+    fontFamily: "Satoshi-Regular",
+  },
+});
@@ -46,14 +46,14 @@ export default function ProfileScreen() {
   const userStats = useMemo(() => {
     const totalPrompts = prompts.length;
     const executedPrompts = prompts.filter(
-      (p) => p.response && p.response !== ""
+      (p) => p.status === "succeeded"
     ).length;
     const scheduledPrompts = prompts.filter((p) => p.scheduled).length;
 
     // Statistiques temporelles
     const today = new Date().toISOString().split("T")[0];
     const todayPrompts = prompts.filter((p) => {
-      return p.updatedAt.startsWith(today) && p.response;
+      return p.updatedAt.startsWith(today) && p.status === "succeeded";
     }).length;
 
     // Calcul de la date du premier prompt et ancienneté
@@ -76,7 +76,7 @@ export default function ProfileScreen() {
 
     // Analyse des sources les plus utilisées
     const sources = prompts
-      .filter((p) => p.source && p.source !== "" && p.source !== "Planifié")
+      .filter((p) => p.status === "succeeded" && p.source !== "")
       .map((p) => p.source);
 
     const mostUsedSource =
@@ -179,7 +179,7 @@ export default function ProfileScreen() {
       const dayPrompts = prompts.filter((p) => {
         const promptDate = p.updatedAt.split("T")[0];
         const targetDate = date.toISOString().split("T")[0];
-        return promptDate === targetDate && p.response;
+        return promptDate === targetDate && p.status === "succeeded";
       }).length;
 
       last7Days.push({
@@ -0,0 +1,307 @@
+import React, { useMemo } from "react";
+import {
+  View,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+} from "react-native";
+import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
+import { DrawerNavigationProp } from "@react-navigation/drawer";
+import type { DrawerParamList } from "../navigation/DrawerNavigator";
+import { ArrowLeft } from "phosphor-react-native";
+import { usePrompt } from "../context/PromptContext";
+import AppText from "../components/AppText";
+import Cards from "../components/Cards";
+import { CATEGORIES } from "../utils/categories";
+import { describeSchedule } from "../utils/schedule";
+import { RUN_STATUS_LABELS, formatDuration } from "../utils/runHistory";
+
+/**
+ * 🔢 Exécutions affichées sous la réponse (le reste dans l'historique)
+ */
+const RECENT_RUNS_COUNT = 5;
+
+/**
+ * 🔎 Détail d'un prompt
+ *
+ * Ouvert par un lien prism://prompt/<id> ou un appui sur une notification
+ * du prompt : dernière réponse avec ses sources, puis les dernières
+ * exécutions et l'accès à l'historique complet.
+ */
+export default function PromptDetailScreen() {
+  const navigation = useNavigation<DrawerNavigationProp<DrawerParamList>>();
+  const route = useRoute<RouteProp<DrawerParamList, "Détail du prompt">>();
+  const { prompts, isLoading, getPromptRuns, streamingPromptIds, stopPrompt } =
+    usePrompt();
+
+  const promptId = route.params?.promptId;
+  const prompt = prompts.find((p) => p.id === promptId);
+  const runs = useMemo(
+    () => (promptId ? getPromptRuns(promptId) : []),
+    [promptId, getPromptRuns]
+  );
+
+  const category =
+    CATEGORIES.find((cat) => cat.id === prompt?.category) ??
+    CATEGORIES[CATEGORIES.length - 1];
+
+  const renderContent = () => {
+    if (isLoading) {
+      return <ActivityIndicator style={styles.loader} color="#81b0ff" />;
+    }
+    if (!prompt) {
+      return (
+        <AppText style={styles.emptyText}>Ce prompt n'existe plus.</AppText>
+      );
+    }
+
+    const isPending = prompt.status === "running" || prompt.status === "queued";
+    const hasAnswer =
+      prompt.response !== "" || prompt.status === "failed" || isPending;
+
+    return (
+      <ScrollView
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Catégorie et planification */}
+        <View style={styles.metaRow}>
+          <View
+            style={[
+              styles.categoryBadge,
+              { backgroundColor: `${category.color}22` },
+            ]}
+          >
+            <AppText style={[styles.categoryText, { color: category.color }]}>
+              {category.name}
+            </AppText>
+          </View>
+          <AppText style={styles.metaText} numberOfLines={1}>
+            {prompt.scheduled
+              ? describeSchedule(prompt.scheduled)
+              : "Question ponctuelle"}
+          </AppText>
+        </View>
+
+        {/* Dernière réponse et ses sources */}
+        {hasAnswer ? (
+          <Cards
+            title={prompt.question}
+            content={prompt.response}
+            source={prompt.source}
+            citations={prompt.citations}
+            errorMessage={
+              prompt.status === "failed" ? prompt.error?.message : undefined
+            }
+            watchRules={prompt.watchRules}
+            isLoading={prompt.response === "" && isPending}
+            isQueued={prompt.status === "queued"}
+            isStreaming={
+              streamingPromptIds.includes(prompt.id) && prompt.response !== ""
+            }
+            onStop={() => stopPrompt(prompt.id)}
+          />
+        ) : (
+          <View style={styles.noAnswer}>
+            <AppText style={styles.question} bold>
+              {prompt.question}
+            </AppText>
+            <AppText style={styles.metaText}>Pas encore de réponse.</AppText>
+          </View>
+        )}
+
+        {/* Dernières exécutions */}
+        <AppText style={styles.sectionTitle} bold>
+          Dernières exécutions
+        </AppText>
+        {runs.length === 0 && (
+          <AppText style={styles.metaText}>
+            Aucune exécution enregistrée pour ce prompt.
+          </AppText>
+        )}
+        {runs.slice(0, RECENT_RUNS_COUNT).map((run) => {
+          const status = RUN_STATUS_LABELS[run.status];
+          return (
+            <View key={run.id} style={styles.runItem}>
+              <AppText style={styles.runDate}>
+                {new Date(run.startedAt).toLocaleString("fr-FR", {
+                  day: "2-digit",
+                  month: "short",
+                  hour: "2-digit",
+                  minute: "2-digit",
+                })}
+              </AppText>
+              <AppText style={styles.metaText}>
+                {formatDuration(run.durationMs)}
+              </AppText>
+              <View
+                style={[
+                  styles.statusBadge,
+                  { backgroundColor: `${status.color}22` },
+                ]}
+              >
+                <AppText style={[styles.statusText, { color: status.color }]}>
+                  {status.label}
+                </AppText>
+              </View>
+            </View>
+          );
+        })}
+
+        {runs.length > 0 && (
+          <TouchableOpacity
+            style={styles.historyButton}
+            onPress={() => navigation.navigate("Historique", { promptId })}
+          >
+            <AppText style={styles.historyButtonText}>
+              🗂️ Voir tout l'historique ({runs.length})
+            </AppText>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => navigation.navigate("Accueil")}
+          accessibilityLabel="Retour"
+        >
+          <ArrowLeft size={26} weight="regular" color="white" />
+        </TouchableOpacity>
+        <AppText style={styles.headerTitle} bold>
+          Détail du prompt
+        </AppText>
+      </View>
+
+      {renderContent()}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#1E1E1E",
+  },
+
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingTop: 50,
+    paddingHorizontal: 16,
+    paddingBottom: 10,
+  },
+
+  headerTitle: {
+    flex: 1,
+    fontSize: 20,
+    color: "#fff",
+    marginLeft: 16,
+  },
+
+  loader: {
+    marginTop: 40,
+  },
+
+  content: {
+    paddingHorizontal: 16,
+    paddingBottom: 32,
+  },
+
+  metaRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginVertical: 8,
+  },
+
+  categoryBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    marginRight: 8,
+  },
+
+  categoryText: {
+    fontSize: 11,
+  },
+
+  metaText: {
+    flexShrink: 1,
+    fontSize: 13,
+    color: "#888",
+  },
+
+  noAnswer: {
+    backgroundColor: "#252525",
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+  },
+
+  question: {
+    fontSize: 16,
+    color: "#fff",
+    lineHeight: 22,
+    marginBottom: 8,
+  },
+
+  sectionTitle: {
+    fontSize: 16,
+    color: "#fff",
+    marginTop: 16,
+    marginBottom: 8,
+  },
+
+  runItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#252525",
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    marginBottom: 8,
+  },
+
+  runDate: {
+    flex: 1,
+    fontSize: 14,
+    color: "#fff",
+  },
+
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    marginLeft: 8,
+  },
+
+  statusText: {
+    fontSize: 11,
+  },
+
+  historyButton: {
+    backgroundColor: "#252525",
+    padding: 16,
+    borderRadius: 12,
+    marginTop: 8,
+    alignItems: "center",
+  },
+
+  historyButtonText: {
+    fontSize: 16,
+    color: "#81b0ff",
+    fontWeight: "600",
+  },
+
+  emptyText: {
+    fontSize: 14,
+    color: "#888",
+    textAlign: "center",
+    marginTop: 40,
+  },
+});
@@ -0,0 +1,482 @@
+import React, {
+  useState,
+  useCallback,
+  useMemo,
+  useEffect,
+  useRef,
+} from "react";
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  TouchableOpacity,
+  Modal,
+} from "react-native";
+import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
+import { DrawerNavigationProp } from "@react-navigation/drawer";
+import type { DrawerParamList } from "../navigation/DrawerNavigator";
+import {
+  ArrowLeft,
+  CaretDown,
+  CaretUp,
+  CheckCircle,
+  Circle,
+} from "phosphor-react-native";
+import Markdown from "react-native-markdown-display";
+import { usePrompt } from "../context/PromptContext";
+import AppText from "../components/AppText";
+import RunDiffView from "../components/RunDiffView";
+import {
+  PromptRun,
+  RUN_STATUS_LABELS,
+  formatDuration,
+} from "../utils/runHistory";
+
+/**
+ * 🗂️ Historique des exécutions d'un prompt
+ *
+ * Ouvert depuis ManagePromptsScreen. Chaque exécution affiche sa date,
+ * son statut, sa durée et le modèle utilisé ; un appui déplie la réponse
+ * complète (ou le message d'erreur).
+ *
+ * Mode "Comparer" : la sélection de deux exécutions ouvre la vue des
+ * différences mot à mot (également ouverte depuis le badge du feed).
+ */
+export default function PromptHistoryScreen() {
+  const navigation = useNavigation<DrawerNavigationProp<DrawerParamList>>();
+  const route = useRoute<RouteProp<DrawerParamList, "Historique">>();
+  const { prompts, getPromptRuns, settings } = usePrompt();
+
+  const promptId = route.params?.promptId;
+  const prompt = prompts.find((p) => p.id === promptId);
+  const runs = useMemo(
+    () => (promptId ? getPromptRuns(promptId) : []),
+    [promptId, getPromptRuns]
+  );
+
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
+
+  // Comparaison de deux exécutions
+  const [compareMode, setCompareMode] = useState(false);
+  const [selectedRunIds, setSelectedRunIds] = useState<string[]>([]);
+  const [diffPair, setDiffPair] = useState<{
+    before: PromptRun;
+    after: PromptRun;
+  } | null>(null);
+
+  /**
+   * 🔀 Ouverture de la comparaison (la plus ancienne exécution en premier)
+   */
+  const openDiff = useCallback(
+    (runIds: string[]) => {
+      const pair = runs
+        .filter((run) => runIds.includes(run.id))
+        .sort(
+          (a, b) =>
+            new Date(a.startedAt).getTime() - new Date(b.startedAt).getTime()
+        );
+      if (pair.length === 2) {
+        setDiffPair({ before: pair[0], after: pair[1] });
+      }
+    },
+    [runs]
+  );
+
+  // Comparaison demandée par le badge "du nouveau" du feed (une seule fois)
+  const compareParam = route.params?.compare;
+  const handledCompareRef = useRef<string[] | undefined>(undefined);
+  useEffect(() => {
+    if (!compareParam || handledCompareRef.current === compareParam) return;
+    handledCompareRef.current = compareParam;
+    openDiff(compareParam);
+  }, [compareParam, openDiff]);
+
+  const toggleCompareMode = useCallback(() => {
+    setCompareMode((enabled) => !enabled);
+    setSelectedRunIds([]);
+  }, []);
+
+  /**
+   * ☑️ Sélection d'une exécution en mode comparaison (deux au maximum)
+   */
+  const selectRun = useCallback(
+    (id: string) => {
+      const alreadySelected = selectedRunIds.includes(id);
+      const next = alreadySelected
+        ? selectedRunIds.filter((runId) => runId !== id)
+        : [...selectedRunIds, id].slice(-2);
+      setSelectedRunIds(next);
+
+      if (next.length === 2) {
+        openDiff(next);
+        setCompareMode(false);
+        setSelectedRunIds([]);
+      }
+    },
+    [selectedRunIds, openDiff]
+  );
+
+  /**
+   * 📝 Rappel de la politique de rétention
+   */
+  const retentionText = useMemo(() => {
+    const { maxRuns, maxDays } = settings.history;
+    const runsText =
+      maxRuns > 0 ? `${maxRuns} dernières exécutions` : "toutes les exécutions";
+    const daysText =
+      maxDays > 0 ? `sur ${maxDays} jours` : "sans limite de durée";
+    return `Conservation : ${runsText}, ${daysText} (modifiable dans Paramètres)`;
+  }, [settings.history]);
+
+  const toggleRun = useCallback((id: string) => {
+    setExpandedRunId((current) => (current === id ? null : id));
+  }, []);
+
+  /**
+   * 🎨 Rendu d'une exécution
+   */
+  const renderRunItem = useCallback(
+    ({ item }: { item: PromptRun }) => {
+      const status = RUN_STATUS_LABELS[item.status];
+      const isExpanded = expandedRunId === item.id;
+      const isSelectable = compareMode && item.response !== "";
+      const isSelected = selectedRunIds.includes(item.id);
+
+      return (
+        <TouchableOpacity
+          style={[
+            styles.runItem,
+            compareMode && !isSelectable && styles.runItemDisabled,
+            isSelected && styles.runItemSelected,
+          ]}
+          onPress={() => {
+            if (!compareMode) toggleRun(item.id);
+            else if (isSelectable) selectRun(item.id);
+          }}
+          activeOpacity={0.8}
+        >
+          <View style={styles.runHeader}>
+            {isSelectable &&
+              (isSelected ? (
+                <CheckCircle size={18} color="#81b0ff" weight="fill" />
+              ) : (
+                <Circle size={18} color="#888" />
+              ))}
+            <AppText style={styles.runDate} bold>
+              {new Date(item.startedAt).toLocaleString("fr-FR", {
+                day: "2-digit",
+                month: "short",
+                hour: "2-digit",
+                minute: "2-digit",
+              })}
+            </AppText>
+            <View
+              style={[
+                styles.statusBadge,
+                { backgroundColor: `${status.color}22` },
+              ]}
+            >
+              <AppText style={[styles.statusText, { color: status.color }]}>
+                {status.label}
+              </AppText>
+            </View>
+          </View>
+
+          <View style={styles.runMeta}>
+            <AppText style={styles.metaText}>
+              {item.model} · {formatDuration(item.durationMs)}
+              {item.citations && item.citations.length > 0
+                ? ` · ${item.citations.length} source(s)`
+                : ""}
+            </AppText>
+            {isExpanded ? (
+              <CaretUp size={14} color="#888" />
+            ) : (
+              <CaretDown size={14} color="#888" />
+            )}
+          </View>
+
+          {item.error && (
+            <AppText
+              style={styles.errorText}
+              numberOfLines={isExpanded ? undefined : 1}
+            >
+              {item.error.message}
+            </AppText>
+          )}
+
+          {item.response !== "" &&
+            (isExpanded ? (
+              <View style={styles.runResponse}>
+                <Markdown style={markdownStyles}>{item.response}</Markdown>
+              </View>
+            ) : (
+              <AppText style={styles.responsePreview} numberOfLines={2}>
+                {item.response}
+              </AppText>
+            ))}
+        </TouchableOpacity>
+      );
+    },
+    [expandedRunId, toggleRun, compareMode, selectedRunIds, selectRun]
+  );
+
+  const keyExtractor = useCallback((item: PromptRun) => item.id, []);
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => navigation.navigate("Gérer les prompts")}
+          accessibilityLabel="Retour"
+        >
+          <ArrowLeft size={26} weight="regular" color="white" />
+        </TouchableOpacity>
+        <AppText style={styles.headerTitle} bold>
+          Historique
+        </AppText>
+        {runs.length >= 2 && (
+          <TouchableOpacity onPress={toggleCompareMode}>
+            <AppText style={styles.compareButton}>
+              {compareMode ? "Annuler" : "Comparer"}
+            </AppText>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {compareMode && (
+        <AppText style={styles.compareHint}>
+          Sélectionnez deux exécutions à comparer
+        </AppText>
+      )}
+
+      {prompt && (
+        <AppText style={styles.promptQuestion} numberOfLines={3}>
+          {prompt.question}
+        </AppText>
+      )}
+
+      <FlatList
+        data={runs}
+        keyExtractor={keyExtractor}
+        renderItem={renderRunItem}
+        showsVerticalScrollIndicator={false}
+        contentContainerStyle={styles.listContainer}
+        ListEmptyComponent={
+          <AppText style={styles.emptyText}>
+            Aucune exécution enregistrée pour ce prompt.
+          </AppText>
+        }
+        ListFooterComponent={
+          <AppText style={styles.retentionText}>{retentionText}</AppText>
+        }
+      />
+
+      {/* Modal de comparaison */}
+      <Modal
+        visible={diffPair !== null}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setDiffPair(null)}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setDiffPair(null)}>
+              <AppText style={styles.modalClose}>Fermer</AppText>
+            </TouchableOpacity>
+            <AppText style={styles.modalTitle} bold>
+              Comparaison
+            </AppText>
+            <View style={styles.modalSpacer} />
+          </View>
+          {diffPair && (
+            <RunDiffView before={diffPair.before} after={diffPair.after} />
+          )}
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#1E1E1E",
+  },
+
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingTop: 50,
+    paddingHorizontal: 16,
+    paddingBottom: 10,
+  },
+
+  headerTitle: {
+    flex: 1,
+    fontSize: 20,
+    color: "#fff",
+    marginLeft: 16,
+  },
+
+  compareButton: {
+    fontSize: 16,
+    color: "#81b0ff",
+  },
+
+  compareHint: {
+    fontSize: 13,
+    color: "#81b0ff",
+    paddingHorizontal: 16,
+    marginBottom: 8,
+  },
+
+  promptQuestion: {
+    fontSize: 16,
+    color: "#ccc",
+    paddingHorizontal: 16,
+    marginBottom: 8,
+    lineHeight: 22,
+  },
+
+  listContainer: {
+    paddingHorizontal: 16,
+    paddingTop: 8,
+    paddingBottom: 32,
+  },
+
+  runItem: {
+    backgroundColor: "#252525",
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.06)",
+  },
+
+  runItemSelected: {
+    borderColor: "#81b0ff",
+  },
+
+  runItemDisabled: {
+    opacity: 0.4,
+  },
+
+  runHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 6,
+  },
+
+  runDate: {
+    flex: 1,
+    fontSize: 15,
+    color: "#fff",
+    marginLeft: 4,
+  },
+
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+
+  statusText: {
+    fontSize: 11,
+  },
+
+  runMeta: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+
+  metaText: {
+    fontSize: 12,
+    color: "#888",
+  },
+
+  errorText: {
+    fontSize: 13,
+    color: "#ff4757",
+    lineHeight: 18,
+    marginBottom: 4,
+  },
+
+  responsePreview: {
+    fontSize: 14,
+    color: "#ccc",
+    lineHeight: 20,
+  },
+
+  runResponse: {
+    marginTop: 4,
+  },
+
+  emptyText: {
+    fontSize: 14,
+    color: "#888",
+    textAlign: "center",
+    marginTop: 40,
+  },
+
+  retentionText: {
+    fontSize: 12,
+    color: "#666",
+    textAlign: "center",
+    marginTop: 8,
+  },
+
+  // Styles du modal (identiques à ManagePromptsScreen)
+  modalContainer: {
+    flex: 1,
+    backgroundColor: "#1E1E1E",
+  },
+
+  modalHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingTop: 50,
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: "#333",
+  },
+
+  modalClose: {
+    fontSize: 16,
+    color: "#81b0ff",
+  },
+
+  modalTitle: {
+    fontSize: 18,
+    color: "#fff",
+  },
+
+  modalSpacer: {
+    width: 50,
+  },
+});
+
+const markdownStyles = StyleSheet.create({
+  body: {
+    color: "#FFFFFF",
+    fontSize: 14,
+    lineHeight: 20,
+    fontFamily: "Satoshi-Regular",
+  },
+
+  strong: {
+    fontWeight: "700",
+    fontFamily: "Satoshi-Bold",
+  },
+
+  link: {
+    color: "#81b0ff",
+    textDecorationLine: "underline",
+  },
+});
@@ -0,0 +1,200 @@
+import React, { useCallback, useMemo } from "react";
+import { View, StyleSheet, FlatList, TouchableOpacity } from "react-native";
+import { useNavigation } from "@react-navigation/native";
+import { DrawerNavigationProp } from "@react-navigation/drawer";
+import type { DrawerParamList } from "../navigation/DrawerNavigator";
+import { ArrowLeft, XCircle } from "phosphor-react-native";
+import { usePrompt } from "../context/PromptContext";
+import AppText from "../components/AppText";
+import { Job, JOB_KIND_LABELS, sortQueue } from "../utils/jobQueue";
+
+/**
+ * 📬 Inspecteur de la file d'exécution
+ *
+ * Ouvert depuis SettingsScreen. Les exécutions en cours apparaissent en
+ * premier, puis les exécutions en attente dans leur ordre de départ ;
+ * chacune peut être annulée.
+ */
+export default function QueueScreen() {
+  const navigation = useNavigation<DrawerNavigationProp<DrawerParamList>>();
+  const { jobs, prompts, cancelJob, settings } = usePrompt();
+
+  const orderedJobs = useMemo(() => sortQueue(jobs), [jobs]);
+  const runningCount = jobs.filter((job) => job.status === "running").length;
+
+  /**
+   * 🎨 Rendu d'une exécution
+   */
+  const renderJobItem = useCallback(
+    ({ item }: { item: Job }) => {
+      const prompt = prompts.find((p) => p.id === item.promptId);
+      const isRunning = item.status === "running";
+      const time = new Date(
+        (isRunning && item.startedAt) || item.enqueuedAt
+      ).toLocaleTimeString("fr-FR", { hour: "2-digit", minute: "2-digit" });
+
+      return (
+        <View style={[styles.jobItem, isRunning && styles.jobItemRunning]}>
+          <View style={styles.jobContent}>
+            <View style={styles.jobHeader}>
+              <View style={styles.kindBadge}>
+                <AppText style={styles.kindText}>
+                  {JOB_KIND_LABELS[item.kind]}
+                </AppText>
+              </View>
+              <AppText
+                style={[styles.statusText, isRunning && styles.statusRunning]}
+              >
+                {isRunning ? "En cours" : "En attente"} depuis {time}
+              </AppText>
+            </View>
+            <AppText style={styles.jobQuestion} numberOfLines={2}>
+              {prompt?.question ?? "Prompt supprimé"}
+            </AppText>
+          </View>
+
+          <TouchableOpacity
+            onPress={() => cancelJob(item.id)}
+            accessibilityLabel="Annuler l'exécution"
+          >
+            <XCircle size={26} color="#ff4757" />
+          </TouchableOpacity>
+        </View>
+      );
+    },
+    [prompts, cancelJob]
+  );
+
+  const keyExtractor = useCallback((item: Job) => item.id, []);
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          onPress={() => navigation.navigate("Paramètres")}
+          accessibilityLabel="Retour"
+        >
+          <ArrowLeft size={26} weight="regular" color="white" />
+        </TouchableOpacity>
+        <AppText style={styles.headerTitle} bold>
+          File d'exécution
+        </AppText>
+      </View>
+
+      <AppText style={styles.summaryText}>
+        {runningCount} en cours sur {settings.concurrency} simultanée(s) ·{" "}
+        {jobs.length - runningCount} en attente
+      </AppText>
+
+      <FlatList
+        data={orderedJobs}
+        keyExtractor={keyExtractor}
+        renderItem={renderJobItem}
+        showsVerticalScrollIndicator={false}
+        contentContainerStyle={styles.listContainer}
+        ListEmptyComponent={
+          <AppText style={styles.emptyText}>
+            Aucune exécution en attente.
+          </AppText>
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: "#1E1E1E",
+  },
+
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingTop: 50,
+    paddingHorizontal: 16,
+    paddingBottom: 10,
+  },
+
+  headerTitle: {
+    flex: 1,
+    fontSize: 20,
+    color: "#fff",
+    marginLeft: 16,
+  },
+
+  summaryText: {
+    fontSize: 13,
+    color: "#888",
+    paddingHorizontal: 16,
+    marginBottom: 8,
+  },
+
+  listContainer: {
+    paddingHorizontal: 16,
+    paddingTop: 8,
+    paddingBottom: 32,
+  },
+
+  jobItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "#252525",
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: "rgba(255, 255, 255, 0.06)",
+  },
+
+  jobItemRunning: {
+    borderColor: "#81b0ff",
+  },
+
+  jobContent: {
+    flex: 1,
+    marginRight: 12,
+  },
+
+  jobHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 6,
+  },
+
+  kindBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: "#81b0ff22",
+    marginRight: 8,
+  },
+
+  kindText: {
+    fontSize: 11,
+    color: "#81b0ff",
+  },
+
+  statusText: {
+    fontSize: 12,
+    color: "#888",
+  },
+
+  statusRunning: {
+    color: "#81b0ff",
+  },
+
+  jobQuestion: {
+    fontSize: 15,
+    color: "#fff",
+    lineHeight: 20,
+  },
+
+  emptyText: {
+    fontSize: 14,
+    color: "#888",
+    textAlign: "center",
+    marginTop: 40,
+  },
+});
@@ -9,6 +9,8 @@ import {
   Switch,
 } from "react-native";
 import { useNavigation, DrawerActions } from "@react-navigation/native";
+import { DrawerNavigationProp } from "@react-navigation/drawer";
+import type { DrawerParamList } from "../navigation/DrawerNavigator";
 import {
   List,
   Palette,
@@ -16,20 +18,133 @@ import {
   Database,
   Info,
   Trash,
+  ClockCounterClockwise,
+  ClockClockwise,
+  Queue,
+  Newspaper,
 } from "phosphor-react-native";
 import { usePrompt } from "../context/PromptContext";
 import AppText from "../components/AppText";
+import { CONCURRENCY_OPTIONS } from "../utils/jobQueue";
+import { CATEGORIES } from "../utils/categories";
+import {
+  NotificationLevel,
+  NotificationPrefs,
+  QuietHours,
+  NOTIFICATION_LEVEL_LABELS,
+  QUIET_START_OPTIONS,
+  QUIET_END_OPTIONS,
+  getCategoryLevel,
+} from "../utils/notificationPrefs";
+import type { NotificationSyncReport } from "../utils/notificationSync";
+import type { DigestSettings } from "../utils/digest";
+import { isRecurring } from "../utils/scheduler";
+
+// Choix proposés pour la rétention de l'historique (0 = illimité)
+const HISTORY_RUN_OPTIONS = [10, 30, 100, 0];
+const HISTORY_DAY_OPTIONS = [7, 30, 90, 0];
+// Âge maximal d'une exécution manquée rattrapée, en heures (0 = illimité)
+const CATCH_UP_WINDOW_OPTIONS = [6, 24, 72, 0];
+// Niveaux d'alerte proposés pour chaque catégorie
+const LEVELS = Object.keys(NOTIFICATION_LEVEL_LABELS) as NotificationLevel[];
+// Compteurs affichés par le diagnostic des notifications
+const DIAGNOSTIC_ROWS: [
+  string,
+  Exclude<keyof NotificationSyncReport, "checkedAt" | "error">
+][] = [
+  ["Planifiées sur l'appareil", "registered"],
+  ["Conservées", "kept"],
+  ["Orphelines annulées", "orphansCancelled"],
+  ["Doublons annulés", "duplicatesCancelled"],
+  ["Prompts replanifiés", "rescheduled"],
+];
 
 /**
  * ⚙️ Écran de paramètres optimisé avec vraies fonctionnalités
  */
 export default function SettingsScreen() {
-  const navigation = useNavigation();
-  const { clearPrompts, prompts } = usePrompt();
+  const navigation = useNavigation<DrawerNavigationProp<DrawerParamList>>();
+  const {
+    clearPrompts,
+    prompts,
+    settings,
+    updateSettings,
+    jobs,
+    notificationSync,
+    reconcileNotifications,
+  } = usePrompt();
 
   // États pour les paramètres locaux
   const [notificationsEnabled, setNotificationsEnabled] = useState(true);
   const [darkModeEnabled, setDarkModeEnabled] = useState(true);
+  const [isReconciling, setIsReconciling] = useState(false);
+
+  /**
+   * 🔕 Mise à jour des préférences de notification
+   */
+  const updateNotificationPrefs = useCallback(
+    (updates: Partial<NotificationPrefs>) =>
+      updateSettings({
+        notifications: { ...settings.notifications, ...updates },
+      }),
+    [settings.notifications, updateSettings]
+  );
+
+  const updateQuietHours = useCallback(
+    (updates: Partial<QuietHours>) =>
+      updateNotificationPrefs({
+        quietHours: { ...settings.notifications.quietHours, ...updates },
+      }),
+    [settings.notifications.quietHours, updateNotificationPrefs]
+  );
+
+  const setCategoryLevel = useCallback(
+    (categoryId: string, level: NotificationLevel) =>
+      updateNotificationPrefs({
+        categories: {
+          ...settings.notifications.categories,
+          [categoryId]: level,
+        },
+      }),
+    [settings.notifications.categories, updateNotificationPrefs]
+  );
+
+  const { quietHours } = settings.notifications;
+
+  /**
+   * 🗞️ Digest quotidien : réglages et prompts regroupés
+   */
+  const updateDigest = useCallback(
+    (updates: Partial<DigestSettings>) =>
+      updateSettings({ digest: { ...settings.digest, ...updates } }),
+    [settings.digest, updateSettings]
+  );
+
+  const toggleDigestPrompt = useCallback(
+    (promptId: string) => {
+      const { promptIds } = settings.digest;
+      updateDigest({
+        promptIds: promptIds.includes(promptId)
+          ? promptIds.filter((id) => id !== promptId)
+          : [...promptIds, promptId],
+      });
+    },
+    [settings.digest, updateDigest]
+  );
+
+  const recurringPrompts = prompts.filter(isRecurring);
+
+  /**
+   * 🩺 Nouvelle réconciliation des notifications, à la demande
+   */
+  const handleReconcile = useCallback(async () => {
+    setIsReconciling(true);
+    try {
+      await reconcileNotifications();
+    } finally {
+      setIsReconciling(false);
+    }
+  }, [reconcileNotifications]);
 
   /**
    * 🗑️ Confirmation de suppression des données
@@ -129,6 +244,409 @@ export default function SettingsScreen() {
               thumbColor={notificationsEnabled ? "#81b0ff" : "#666"}
             />
           </View>
+
+          <View style={styles.settingItem}>
+            <AppText style={styles.settingLabel}>Heures calmes</AppText>
+            <Switch
+              value={quietHours.enabled}
+              onValueChange={(enabled) => updateQuietHours({ enabled })}
+              trackColor={{ false: "#252525", true: "#81b0ff33" }}
+              thumbColor={quietHours.enabled ? "#81b0ff" : "#666"}
+            />
+          </View>
+
+          {quietHours.enabled && (
+            <View style={styles.optionItem}>
+              <AppText style={styles.optionHint}>
+                Les prompts dus s'exécutent, leurs notifications attendent
+                la fin de la plage ({quietHours.startHour} h →{" "}
+                {quietHours.endHour} h).
+              </AppText>
+              {(
+                [
+                  ["Début", "startHour", QUIET_START_OPTIONS],
+                  ["Fin", "endHour", QUIET_END_OPTIONS],
+                ] as const
+              ).map(([label, key, options]) => (
+                <View key={key} style={styles.optionRow}>
+                  <AppText style={styles.optionRowLabel}>{label}</AppText>
+                  {options.map((hour) => {
+                    const isActive = quietHours[key] === hour;
+                    return (
+                      <TouchableOpacity
+                        key={hour}
+                        style={[
+                          styles.optionChip,
+                          isActive && styles.optionChipActive,
+                        ]}
+                        onPress={() => updateQuietHours({ [key]: hour })}
+                      >
+                        <AppText
+                          style={[
+                            styles.optionText,
+                            isActive && styles.optionTextActive,
+                          ]}
+                        >
+                          {hour} h
+                        </AppText>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              ))}
+            </View>
+          )}
+
+          <View style={styles.optionItem}>
+            <AppText style={styles.settingLabel}>
+              Alertes par catégorie
+            </AppText>
+            <AppText style={styles.optionHint}>
+              Silencieuse : sans son ni bannière, visible dans le centre de
+              notifications.
+            </AppText>
+            {CATEGORIES.map((category) => {
+              const level = getCategoryLevel(
+                settings.notifications,
+                category.id
+              );
+              return (
+                <View key={category.id} style={styles.optionRow}>
+                  <AppText
+                    style={[styles.optionRowLabel, { color: category.color }]}
+                  >
+                    {category.name}
+                  </AppText>
+                  {LEVELS.map((value) => {
+                    const isActive = level === value;
+                    return (
+                      <TouchableOpacity
+                        key={value}
+                        style={[
+                          styles.optionChip,
+                          isActive && styles.optionChipActive,
+                        ]}
+                        onPress={() => setCategoryLevel(category.id, value)}
+                      >
+                        <AppText
+                          style={[
+                            styles.optionText,
+                            isActive && styles.optionTextActive,
+                          ]}
+                        >
+                          {NOTIFICATION_LEVEL_LABELS[value]}
+                        </AppText>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              );
+            })}
+          </View>
+
+          <View style={styles.optionItem}>
+            <AppText style={styles.settingLabel}>Diagnostic</AppText>
+            {notificationSync ? (
+              <>
+                <AppText style={styles.optionHint}>
+                  Dernière vérification :{" "}
+                  {new Date(notificationSync.checkedAt).toLocaleString(
+                    "fr-FR",
+                    {
+                      day: "2-digit",
+                      month: "short",
+                      hour: "2-digit",
+                      minute: "2-digit",
+                    }
+                  )}
+                </AppText>
+                {notificationSync.error ? (
+                  <AppText style={styles.diagnosticError}>
+                    ⚠️ {notificationSync.error}
+                  </AppText>
+                ) : (
+                  DIAGNOSTIC_ROWS.map(([label, key]) => (
+                    <View key={key} style={styles.diagnosticRow}>
+                      <AppText style={styles.diagnosticLabel}>{label}</AppText>
+                      <AppText style={styles.diagnosticValue}>
+                        {notificationSync[key]}
+                      </AppText>
+                    </View>
+                  ))
+                )}
+              </>
+            ) : (
+              <AppText style={styles.optionHint}>
+                Pas encore vérifié depuis l'ouverture de l'app.
+              </AppText>
+            )}
+          </View>
+
+          <TouchableOpacity
+            style={styles.settingButton}
+            onPress={handleReconcile}
+            disabled={isReconciling}
+          >
+            <AppText style={styles.settingButtonText}>
+              {isReconciling
+                ? "⏳ Vérification..."
+                : "🔄 Vérifier les notifications"}
+            </AppText>
+          </TouchableOpacity>
+        </View>
+
+        {/* Section Digest quotidien */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Newspaper size={24} color="#81b0ff" />
+            <AppText style={styles.sectionTitle} bold>
+              Digest quotidien
+            </AppText>
+          </View>
+
+          <View style={styles.settingItem}>
+            <AppText style={styles.settingLabel}>
+              Regrouper les réponses
+            </AppText>
+            <Switch
+              value={settings.digest.enabled}
+              onValueChange={(enabled) => updateDigest({ enabled })}
+              trackColor={{ false: "#252525", true: "#81b0ff33" }}
+              thumbColor={settings.digest.enabled ? "#81b0ff" : "#666"}
+            />
+          </View>
+
+          {settings.digest.enabled && (
+            <>
+              <View style={styles.settingItem}>
+                <AppText style={styles.settingLabel}>Résumé par l'IA</AppText>
+                <Switch
+                  value={settings.digest.aiSummary}
+                  onValueChange={(aiSummary) => updateDigest({ aiSummary })}
+                  trackColor={{ false: "#252525", true: "#81b0ff33" }}
+                  thumbColor={settings.digest.aiSummary ? "#81b0ff" : "#666"}
+                />
+              </View>
+
+              <View style={styles.optionItem}>
+                <AppText style={styles.settingLabel}>
+                  Prompts regroupés
+                </AppText>
+                <AppText style={styles.optionHint}>
+                  Sans rappel ni notification propres : une seule
+                  notification quand tous ceux du jour ont répondu.
+                </AppText>
+                <View style={styles.optionRow}>
+                  {recurringPrompts.length === 0 && (
+                    <AppText style={styles.optionHint}>
+                      Aucun prompt planifié récurrent.
+                    </AppText>
+                  )}
+                  {recurringPrompts.map((prompt) => {
+                    const isActive = settings.digest.promptIds.includes(
+                      prompt.id
+                    );
+                    return (
+                      <TouchableOpacity
+                        key={prompt.id}
+                        style={[
+                          styles.optionChip,
+                          isActive && styles.optionChipActive,
+                        ]}
+                        onPress={() => toggleDigestPrompt(prompt.id)}
+                      >
+                        <AppText
+                          style={[
+                            styles.optionText,
+                            isActive && styles.optionTextActive,
+                          ]}
+                          numberOfLines={1}
+                        >
+                          {prompt.question.length > 30
+                            ? prompt.question.substring(0, 30) + "..."
+                            : prompt.question}
+                        </AppText>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </View>
+            </>
+          )}
+        </View>
+
+        {/* Section Historique */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <ClockCounterClockwise size={24} color="#81b0ff" />
+            <AppText style={styles.sectionTitle} bold>
+              Historique
+            </AppText>
+          </View>
+
+          <View style={styles.optionItem}>
+            <AppText style={styles.settingLabel}>
+              Exécutions gardées par prompt
+            </AppText>
+            <View style={styles.optionRow}>
+              {HISTORY_RUN_OPTIONS.map((value) => {
+                const isActive = settings.history.maxRuns === value;
+                return (
+                  <TouchableOpacity
+                    key={value}
+                    style={[
+                      styles.optionChip,
+                      isActive && styles.optionChipActive,
+                    ]}
+                    onPress={() =>
+                      updateSettings({
+                        history: { ...settings.history, maxRuns: value },
+                      })
+                    }
+                  >
+                    <AppText
+                      style={[
+                        styles.optionText,
+                        isActive && styles.optionTextActive,
+                      ]}
+                    >
+                      {value > 0 ? value : "Illimité"}
+                    </AppText>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+
+          <View style={styles.optionItem}>
+            <AppText style={styles.settingLabel}>Durée de conservation</AppText>
+            <View style={styles.optionRow}>
+              {HISTORY_DAY_OPTIONS.map((value) => {
+                const isActive = settings.history.maxDays === value;
+                return (
+                  <TouchableOpacity
+                    key={value}
+                    style={[
+                      styles.optionChip,
+                      isActive && styles.optionChipActive,
+                    ]}
+                    onPress={() =>
+                      updateSettings({
+                        history: { ...settings.history, maxDays: value },
+                      })
+                    }
+                  >
+                    <AppText
+                      style={[
+                        styles.optionText,
+                        isActive && styles.optionTextActive,
+                      ]}
+                    >
+                      {value > 0 ? `${value} j` : "Illimitée"}
+                    </AppText>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        </View>
+
+        {/* Section Planification */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <ClockClockwise size={24} color="#81b0ff" />
+            <AppText style={styles.sectionTitle} bold>
+              Planification
+            </AppText>
+          </View>
+
+          <View style={styles.optionItem}>
+            <AppText style={styles.settingLabel}>
+              Fenêtre de rattrapage
+            </AppText>
+            <AppText style={styles.optionHint}>
+              Les exécutions manquées plus anciennes sont ignorées, quelle
+              que soit la politique du prompt.
+            </AppText>
+            <View style={styles.optionRow}>
+              {CATCH_UP_WINDOW_OPTIONS.map((value) => {
+                const isActive = settings.catchUpWindowHours === value;
+                return (
+                  <TouchableOpacity
+                    key={value}
+                    style={[
+                      styles.optionChip,
+                      isActive && styles.optionChipActive,
+                    ]}
+                    onPress={() =>
+                      updateSettings({ catchUpWindowHours: value })
+                    }
+                  >
+                    <AppText
+                      style={[
+                        styles.optionText,
+                        isActive && styles.optionTextActive,
+                      ]}
+                    >
+                      {value > 0 ? `${value} h` : "Illimitée"}
+                    </AppText>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+        </View>
+
+        {/* Section File d'exécution */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Queue size={24} color="#81b0ff" />
+            <AppText style={styles.sectionTitle} bold>
+              File d'exécution
+            </AppText>
+          </View>
+
+          <View style={styles.optionItem}>
+            <AppText style={styles.settingLabel}>
+              Exécutions simultanées
+            </AppText>
+            <AppText style={styles.optionHint}>
+              Les questions saisies passent avant les prompts planifiés.
+            </AppText>
+            <View style={styles.optionRow}>
+              {CONCURRENCY_OPTIONS.map((value) => {
+                const isActive = settings.concurrency === value;
+                return (
+                  <TouchableOpacity
+                    key={value}
+                    style={[
+                      styles.optionChip,
+                      isActive && styles.optionChipActive,
+                    ]}
+                    onPress={() => updateSettings({ concurrency: value })}
+                  >
+                    <AppText
+                      style={[
+                        styles.optionText,
+                        isActive && styles.optionTextActive,
+                      ]}
+                    >
+                      {value}
+                    </AppText>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+
+          <TouchableOpacity
+            style={styles.settingButton}
+            onPress={() => navigation.navigate("File d'exécution")}
+          >
+            <AppText style={styles.settingButtonText}>
+              📬 Voir la file ({jobs.length})
+            </AppText>
+          </TouchableOpacity>
         </View>
 
         {/* Section Données */}
@@ -241,6 +759,78 @@ const styles = StyleSheet.create({
     color: "#fff",
   },
 
+  optionItem: {
+    backgroundColor: "#252525",
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 8,
+  },
+
+  optionHint: {
+    fontSize: 13,
+    color: "#888",
+    marginTop: 4,
+  },
+
+  optionRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginTop: 12,
+  },
+
+  optionRowLabel: {
+    width: 96,
+    fontSize: 14,
+    color: "#ccc",
+    alignSelf: "center",
+    marginBottom: 4,
+  },
+
+  optionChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: "#1E1E1E",
+    marginRight: 8,
+    marginBottom: 4,
+  },
+
+  optionChipActive: {
+    backgroundColor: "#81b0ff33",
+  },
+
+  optionText: {
+    fontSize: 14,
+    color: "#888",
+  },
+
+  optionTextActive: {
+    color: "#81b0ff",
+  },
+
+  diagnosticRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 8,
+  },
+
+  diagnosticLabel: {
+    fontSize: 14,
+    color: "#ccc",
+  },
+
+  diagnosticValue: {
+    fontSize: 14,
+    color: "#fff",
+    fontWeight: "600",
+  },
+
+  diagnosticError: {
+    fontSize: 13,
+    color: "#ff4757",
+    marginTop: 8,
+  },
+
   settingButton: {
     backgroundColor: "#252525",
     padding: 16,
@@ -0,0 +1,90 @@
+import type { Prompt } from "../../context/PromptContext";
+import { getFinishedDigestPrompts } from "../digest";
+
+// Modules natifs ou réseau, inutiles au calcul de la journée
+jest.mock("expo-notifications", () => ({ SchedulableTriggerInputTypes: {} }));
+jest.mock("../fetchAiResponse", () => ({}));
+jest.mock("../notifications", () => ({ RESULT_EXCERPT_LENGTH: 400 }));
+
+/**
+ * 🧪 Prompts du digest terminés dans la journée
+ *
+ * L'appareil est sur Europe/Paris pendant les tests (jest.setup.js).
+ */
+
+const settings = { enabled: true, promptIds: ["a", "b"], aiSummary: false };
+
+const makePrompt = (
+  id: string,
+  scheduled: Prompt["scheduled"],
+  status: Prompt["status"] = "succeeded"
+) => ({ id, status, scheduled } as Prompt);
+
+// Tous les jours à 8 h, heure de l'appareil
+const daily = (lastRun?: string) =>
+  makePrompt("a", { hour: 8, minute: 0, frequency: "daily", lastRun });
+
+describe("getFinishedDigestPrompts", () => {
+  it("attend qu'une exécution suive l'occurrence du jour", () => {
+    const now = new Date("2025-06-15T10:00:00Z"); // Dimanche 12 h
+
+    // Rattrapage de la veille après minuit, puis exécution à l'heure
+    expect(
+      getFinishedDigestPrompts(
+        [daily("2025-06-14T22:30:00.000Z")],
+        settings,
+        now
+      )
+    ).toBeNull();
+    expect(
+      getFinishedDigestPrompts(
+        [daily("2025-06-15T06:01:00.000Z")],
+        settings,
+        now
+      )
+    ).toHaveLength(1);
+  });
+
+  it("ne compte pas une exécution manuelle avant l'heure prévue", () => {
+    expect(
+      getFinishedDigestPrompts(
+        [daily("2025-06-15T05:00:00.000Z")], // 7 h
+        settings,
+        new Date("2025-06-15T05:30:00Z")
+      )
+    ).toBeNull();
+  });
+
+  it("place l'occurrence d'un fuseau fixé dans la journée de ce fuseau", () => {
+    // Le lundi à 6 h à Tokyo : dimanche 23 h à Paris
+    const pinned = (lastRun?: string) =>
+      makePrompt("b", {
+        hour: 6,
+        minute: 0,
+        frequency: "weekly",
+        weekdays: [1],
+        timeZone: "Asia/Tokyo",
+        timeZoneMode: "pinned",
+        lastRun,
+      });
+
+    // Dimanche midi : rien d'attendu à Tokyo aujourd'hui
+    const sunday = getFinishedDigestPrompts(
+      [daily("2025-06-15T06:01:00.000Z"), pinned()],
+      settings,
+      new Date("2025-06-15T10:00:00Z")
+    );
+    expect(sunday?.map((p) => p.id)).toEqual(["a"]);
+
+    // Lundi midi : exécuté dimanche soir (heure de Paris), après 6 h à Tokyo
+    const monday = getFinishedDigestPrompts(
+      [
+        daily("2025-06-16T06:01:00.000Z"),
+        pinned("2025-06-15T21:01:00.000Z"),
+      ],
+      settings,
+      new Date("2025-06-16T10:00:00Z")
+    );
+    expect(monday?.map((p) => p.id)).toEqual(["a", "b"]);
+  });
+});
@@ -0,0 +1,491 @@
+import {
+  Clock,
+  SchedulablePrompt,
+  getRunsDueBetween,
+  getMissedRuns,
+  planCatchUp,
+  markSkippedRuns,
+  scheduleRetry,
+  buildTriggerSpecs,
+} from "../scheduler";
+
+/**
+ * 🧪 Moteur de planification, avec une horloge fixe
+ *
+ * L'appareil est sur Europe/Paris pendant les tests (jest.setup.js) : les
+ * résultats ne dépendent pas du fuseau de la machine qui les lance.
+ */
+
+const clockAt = (iso: string): Clock => ({ now: () => new Date(iso) });
+
+const dailyPrompt = (
+  hour: number,
+  minute: number,
+  scheduled: Partial<NonNullable<SchedulablePrompt["scheduled"]>> = {},
+  overrides: Partial<SchedulablePrompt> = {}
+): SchedulablePrompt => ({
+  id: "p1",
+  ...overrides,
+  scheduled: { hour, minute, frequency: "daily", ...scheduled },
+});
+
+describe("getRunsDueBetween", () => {
+  it("exécute une fois l'heure sautée au passage à l'heure d'été", () => {
+    // 30 mars 2025 : 2 h 00 → 3 h 00, 2 h 30 n'existe pas
+    const due = getRunsDueBetween(
+      [dailyPrompt(2, 30)],
+      new Date("2025-03-29T23:00:00Z"),
+      new Date("2025-03-30T12:00:00Z")
+    );
+
+    expect(due).toEqual([
+      {
+        promptId: "p1",
+        scheduledFor: new Date("2025-03-30T01:30:00Z"), // 3 h 30 CEST
+        occurrences: 1,
+      },
+    ]);
+  });
+
+  it("exécute une seule fois l'heure répétée à l'heure d'hiver", () => {
+    // 26 octobre 2025 : 3 h 00 → 2 h 00, 2 h 30 a lieu deux fois
+    const due = getRunsDueBetween(
+      [dailyPrompt(2, 30)],
+      new Date("2025-10-25T22:00:00Z"),
+      new Date("2025-10-26T12:00:00Z")
+    );
+
+    expect(due).toEqual([
+      {
+        promptId: "p1",
+        scheduledFor: new Date("2025-10-26T00:30:00Z"), // Première fois
+        occurrences: 1,
+      },
+    ]);
+  });
+
+  it("retient une occurrence à minuit en fin de fenêtre", () => {
+    const prompts = [dailyPrompt(0, 0)];
+    const midnight = new Date("2025-06-14T22:00:00Z"); // 15 juin 0 h 00
+
+    expect(
+      getRunsDueBetween(prompts, new Date("2025-06-14T21:00:00Z"), midnight)
+    ).toEqual([{ promptId: "p1", scheduledFor: midnight, occurrences: 1 }]);
+    // Borne basse exclue : l'occurrence n'est pas due deux fois
+    expect(
+      getRunsDueBetween(prompts, midnight, new Date("2025-06-14T23:00:00Z"))
+    ).toEqual([]);
+  });
+
+  it("retient une occurrence à 23 h 59 du jour même", () => {
+    const due = getRunsDueBetween(
+      [dailyPrompt(23, 59)],
+      new Date("2025-06-13T22:00:00Z"),
+      new Date("2025-06-14T21:59:00Z")
+    );
+
+    expect(due).toEqual([
+      {
+        promptId: "p1",
+        scheduledFor: new Date("2025-06-14T21:59:00Z"), // 14 juin 23 h 59
+        occurrences: 1,
+      },
+    ]);
+  });
+
+  it("suit le fuseau fixé plutôt que celui de l'appareil", () => {
+    const due = getRunsDueBetween(
+      [dailyPrompt(8, 0, { timeZone: "America/New_York" })],
+      new Date("2025-06-14T00:00:00Z"),
+      new Date("2025-06-14T18:00:00Z")
+    );
+
+    expect(due).toEqual([
+      {
+        promptId: "p1",
+        scheduledFor: new Date("2025-06-14T12:00:00Z"), // 8 h 00 EDT
+        occurrences: 1,
+      },
+    ]);
+  });
+
+  it("exécute une seule fois l'heure répétée d'un fuseau fixé", () => {
+    const due = getRunsDueBetween(
+      [dailyPrompt(2, 30, { timeZone: "Europe/Paris" })],
+      new Date("2025-10-25T22:00:00Z"),
+      new Date("2025-10-26T12:00:00Z")
+    );
+
+    expect(due).toEqual([
+      {
+        promptId: "p1",
+        scheduledFor: new Date("2025-10-26T00:30:00Z"), // Première fois
+        occurrences: 1,
+      },
+    ]);
+  });
+
+  it("ignore les prompts non récurrents", () => {
+    const due = getRunsDueBetween(
+      [dailyPrompt(8, 0, { isRecurring: false })],
+      new Date("2025-06-13T00:00:00Z"),
+      new Date("2025-06-14T12:00:00Z")
+    );
+
+    expect(due).toEqual([]);
+  });
+
+  it("ramène le 31 au dernier jour des mois plus courts", () => {
+    const due = getRunsDueBetween(
+      [dailyPrompt(8, 0, { frequency: "monthly", dayOfMonth: 31 })],
+      new Date("2025-02-01T00:00:00Z"),
+      new Date("2025-02-28T12:00:00Z")
+    );
+
+    expect(due).toEqual([
+      {
+        promptId: "p1",
+        scheduledFor: new Date("2025-02-28T07:00:00Z"), // 8 h CET
+        occurrences: 1,
+      },
+    ]);
+  });
+});
+
+describe("getMissedRuns", () => {
+  it("rattrape l'occurrence d'un jour de passage à l'heure d'été", () => {
+    const prompt = dailyPrompt(2, 30, {
+      lastRun: "2025-03-29T01:30:00.000Z", // 29 mars 2 h 30 CET
+    });
+
+    const due = getMissedRuns([prompt], {
+      clock: clockAt("2025-03-30T08:00:00Z"),
+    });
+
+    expect(due).toEqual([
+      {
+        promptId: "p1",
+        scheduledFor: new Date("2025-03-30T01:30:00Z"),
+        occurrences: 1,
+      },
+    ]);
+  });
+
+  it("ne relance pas la seconde fois d'une heure répétée", () => {
+    const prompt = dailyPrompt(2, 30, {
+      lastRun: "2025-10-26T00:30:00.000Z", // Première fois 2 h 30
+    });
+
+    const due = getMissedRuns([prompt], {
+      clock: clockAt("2025-10-26T01:45:00Z"), // Après la seconde fois
+    });
+
+    expect(due).toEqual([]);
+  });
+
+  it("compte l'occurrence de 23 h 59 juste après minuit", () => {
+    const prompt = dailyPrompt(23, 59, {
+      lastRun: "2025-06-13T21:59:00.000Z",
+    });
+
+    const due = getMissedRuns([prompt], {
+      clock: clockAt("2025-06-14T22:00:30Z"), // 15 juin 0 h 00 30 s
+    });
+
+    expect(due).toEqual([
+      {
+        promptId: "p1",
+        scheduledFor: new Date("2025-06-14T21:59:00Z"),
+        occurrences: 1,
+      },
+    ]);
+  });
+
+  it("laisse le délai de grâce à une occurrence de minuit", () => {
+    const prompt = dailyPrompt(0, 0, { lastRun: "2025-06-13T22:00:00.000Z" });
+
+    expect(
+      getMissedRuns([prompt], { clock: clockAt("2025-06-14T22:00:05Z") })
+    ).toEqual([]);
+    expect(
+      getMissedRuns([prompt], { clock: clockAt("2025-06-14T22:00:15Z") })
+    ).toHaveLength(1);
+  });
+
+  it("regroupe plusieurs jours manqués en une exécution due", () => {
+    // Dernière exécution le 10 juin, appareil éteint jusqu'au 14 à 14 h
+    const prompt = dailyPrompt(8, 0, { lastRun: "2025-06-10T06:00:00.000Z" });
+
+    const due = getMissedRuns([prompt], {
+      clock: clockAt("2025-06-14T12:00:00Z"),
+    });
+
+    expect(due).toEqual([
+      {
+        promptId: "p1",
+        scheduledFor: new Date("2025-06-14T06:00:00Z"),
+        occurrences: 4, // 11, 12, 13 et 14 juin
+      },
+    ]);
+  });
+
+  it("part de la marque la plus récente (exécution ou ignorée)", () => {
+    const prompt = dailyPrompt(8, 0, {
+      lastRun: "2025-06-10T06:00:00.000Z",
+      skippedUntil: "2025-06-13T06:00:00.000Z",
+    });
+
+    const due = getMissedRuns([prompt], {
+      clock: clockAt("2025-06-14T12:00:00Z"),
+    });
+
+    expect(due).toEqual([
+      {
+        promptId: "p1",
+        scheduledFor: new Date("2025-06-14T06:00:00Z"),
+        occurrences: 1,
+      },
+    ]);
+  });
+
+  it("part de `since` pour un prompt jamais exécuté", () => {
+    const due = getMissedRuns([dailyPrompt(8, 0)], {
+      clock: clockAt("2025-06-14T12:00:00Z"),
+      since: new Date("2025-06-12T12:00:00Z"),
+    });
+
+    expect(due).toEqual([
+      {
+        promptId: "p1",
+        scheduledFor: new Date("2025-06-14T06:00:00Z"),
+        occurrences: 2,
+      },
+    ]);
+  });
+
+  it("ignore les prompts en cours", () => {
+    const lastRun = "2025-06-13T06:00:00.000Z";
+    const clock = clockAt("2025-06-14T12:00:00Z");
+
+    expect(
+      getMissedRuns([dailyPrompt(8, 0, { lastRun })], {
+        clock,
+        isRunning: (id) => id === "p1",
+      })
+    ).toEqual([]);
+    expect(
+      getMissedRuns(
+        [{ ...dailyPrompt(8, 0, { lastRun }), status: "running" }],
+        { clock }
+      )
+    ).toEqual([]);
+  });
+
+  it("ignore un prompt reporté jusqu'à la fin du report", () => {
+    const prompt = dailyPrompt(8, 0, {
+      lastRun: "2025-06-13T06:00:00.000Z",
+      snoozedUntil: "2025-06-14T12:30:00.000Z",
+    });
+
+    expect(
+      getMissedRuns([prompt], { clock: clockAt("2025-06-14T12:00:00Z") })
+    ).toEqual([]);
+    expect(
+      getMissedRuns([prompt], { clock: clockAt("2025-06-14T12:30:00Z") })
+    ).toHaveLength(1);
+  });
+});
+
+describe("planCatchUp", () => {
+  // Dernière exécution le 10 juin, appareil éteint jusqu'au 14 à 14 h
+  const clock = clockAt("2025-06-14T12:00:00Z");
+  const lastRun = "2025-06-10T06:00:00.000Z";
+
+  const planFor = (
+    overrides: Partial<SchedulablePrompt>,
+    windowHours?: number
+  ) => {
+    const prompts = [dailyPrompt(8, 0, { lastRun }, overrides)];
+    const dueRuns = getMissedRuns(prompts, { clock });
+    return {
+      dueRuns,
+      plan: planCatchUp(prompts, dueRuns, { clock, windowHours }),
+    };
+  };
+
+  it("skip : ignore les jours manqués", () => {
+    const { dueRuns, plan } = planFor({ catchUp: { mode: "skip" } });
+
+    expect(dueRuns).toHaveLength(1);
+    expect(plan.run).toEqual([]);
+    expect(plan.skipped).toEqual([{ ...dueRuns[0], reason: "policy" }]);
+  });
+
+  it("once : rattrape une seule fois, par défaut comme explicitement", () => {
+    const byDefault = planFor({});
+    const explicit = planFor({ catchUp: { mode: "once" } });
+
+    expect(byDefault.plan).toEqual({ run: byDefault.dueRuns, skipped: [] });
+    expect(explicit.plan).toEqual({ run: explicit.dueRuns, skipped: [] });
+  });
+
+  it("within : rattrape seulement une occurrence récente", () => {
+    // Dernière occurrence 6 h plus tôt
+    const tooOld = planFor({ catchUp: { mode: "within", withinHours: 3 } });
+    const recent = planFor({ catchUp: { mode: "within", withinHours: 12 } });
+
+    expect(tooOld.plan).toEqual({
+      run: [],
+      skipped: [{ ...tooOld.dueRuns[0], reason: "too_old" }],
+    });
+    expect(recent.plan).toEqual({ run: recent.dueRuns, skipped: [] });
+  });
+
+  it("écarte un rattrapage hors de la fenêtre globale", () => {
+    const { dueRuns, plan } = planFor({ catchUp: { mode: "once" } }, 1);
+
+    expect(plan.skipped).toEqual([{ ...dueRuns[0], reason: "too_old" }]);
+  });
+
+  it("compte le retard depuis la fin d'un report", () => {
+    const prompts = [
+      dailyPrompt(
+        8,
+        0,
+        { lastRun, snoozedUntil: "2025-06-14T11:55:00.000Z" },
+        { catchUp: { mode: "skip" } }
+      ),
+    ];
+    const dueRuns = getMissedRuns(prompts, { clock });
+
+    expect(planCatchUp(prompts, dueRuns, { clock }).run).toEqual(dueRuns);
+  });
+
+  it("lance toujours une exécution à l'heure, même en mode skip", () => {
+    const prompts = [
+      dailyPrompt(8, 0, { lastRun }, { catchUp: { mode: "skip" } }),
+    ];
+    const onTime = clockAt("2025-06-14T06:10:00Z");
+    const dueRuns = getMissedRuns(prompts, { clock: onTime });
+
+    expect(planCatchUp(prompts, dueRuns, { clock: onTime })).toEqual({
+      run: dueRuns,
+      skipped: [],
+    });
+  });
+});
+
+describe("markSkippedRuns", () => {
+  it("mémorise l'occurrence ignorée pour ne plus la rattraper", () => {
+    const clock = clockAt("2025-06-14T12:00:00Z");
+    const prompts = [
+      dailyPrompt(
+        8,
+        0,
+        { lastRun: "2025-06-10T06:00:00.000Z" },
+        { catchUp: { mode: "skip" } }
+      ),
+    ];
+    const { skipped } = planCatchUp(
+      prompts,
+      getMissedRuns(prompts, { clock }),
+      { clock }
+    );
+
+    const marked = markSkippedRuns(prompts, skipped);
+
+    expect(marked[0].scheduled?.skippedUntil).toBe("2025-06-14T06:00:00.000Z");
+    expect(getMissedRuns(marked, { clock })).toEqual([]);
+  });
+
+  it("garde une marque plus récente (journée passée)", () => {
+    const [prompt] = markSkippedRuns(
+      [dailyPrompt(8, 0, { skippedUntil: "2025-06-14T21:59:59.999Z" })],
+      [
+        {
+          promptId: "p1",
+          scheduledFor: new Date("2025-06-14T06:00:00Z"),
+          occurrences: 1,
+          reason: "policy",
+        },
+      ]
+    );
+
+    expect(prompt.scheduled?.skippedUntil).toBe("2025-06-14T21:59:59.999Z");
+  });
+});
+
+describe("scheduleRetry", () => {
+  const clock = clockAt("2025-06-14T06:00:00Z");
+
+  it("espace les nouvelles tentatives de 5 min, 30 min puis 2 h", () => {
+    const first = scheduleRetry("timeout", undefined, 5, clock);
+    const second = scheduleRetry("server_error", first, 5, clock);
+    const third = scheduleRetry("rate_limited", second, 5, clock);
+    const fourth = scheduleRetry("unknown", third, 5, clock);
+
+    expect(first).toEqual({
+      attempt: 1,
+      nextAt: "2025-06-14T06:05:00.000Z",
+    });
+    expect(second).toEqual({
+      attempt: 2,
+      nextAt: "2025-06-14T06:30:00.000Z",
+    });
+    expect(third).toEqual({
+      attempt: 3,
+      nextAt: "2025-06-14T08:00:00.000Z",
+    });
+    expect(fourth).toEqual({
+      attempt: 4,
+      nextAt: "2025-06-14T08:00:00.000Z", // Dernier délai réutilisé
+    });
+  });
+
+  it("s'arrête à la limite du prompt", () => {
+    expect(
+      scheduleRetry("timeout", { attempt: 3, nextAt: "" }, 3, clock)
+    ).toBeUndefined();
+    expect(scheduleRetry("timeout", undefined, 0, clock)).toBeUndefined();
+  });
+
+  it("ne retente pas une erreur définitive", () => {
+    expect(scheduleRetry("unauthorized", undefined, 3, clock)).toBeUndefined();
+    expect(
+      scheduleRetry("missing_api_key", undefined, 3, clock)
+    ).toBeUndefined();
+  });
+
+  it("retente une occurrence de 23 h 59 le lendemain", () => {
+    expect(
+      scheduleRetry("timeout", undefined, 3, clockAt("2025-06-14T21:59:00Z"))
+    ).toEqual({ attempt: 1, nextAt: "2025-06-14T22:04:00.000Z" });
+  });
+});
+
+describe("buildTriggerSpecs", () => {
+  it("garde un rappel mensuel répétitif jusqu'au 28", () => {
+    expect(
+      buildTriggerSpecs(
+        { hour: 8, minute: 0, frequency: "monthly", dayOfMonth: 28 },
+        clockAt("2025-01-15T12:00:00Z"),
+        "Europe/Paris"
+      )
+    ).toEqual([{ type: "monthly", day: 28, hour: 8, minute: 0 }]);
+  });
+
+  it("date les rappels d'un jour absent de certains mois", () => {
+    const specs = buildTriggerSpecs(
+      { hour: 8, minute: 0, frequency: "monthly", dayOfMonth: 31 },
+      clockAt("2025-01-15T12:00:00Z"),
+      "Europe/Paris"
+    );
+
+    expect(specs.slice(0, 4)).toEqual([
+      { type: "date", date: new Date("2025-01-31T07:00:00Z") },
+      { type: "date", date: new Date("2025-02-28T07:00:00Z") },
+      { type: "date", date: new Date("2025-03-31T06:00:00Z") },
+      { type: "date", date: new Date("2025-04-30T06:00:00Z") },
+    ]);
+  });
+});
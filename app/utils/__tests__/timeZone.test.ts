@@ -0,0 +1,60 @@
+import { atZonedTime, getZonedDay } from "../timeZone";
+
+/**
+ * 🧪 Heures murales dans un fuseau fixé, autour des changements d'heure
+ */
+
+const TIME_ZONE = "Europe/Paris";
+
+const day = (year: number, month: number, date: number) =>
+  new Date(Date.UTC(year, month - 1, date));
+
+describe("atZonedTime", () => {
+  it("convertit une heure ordinaire", () => {
+    expect(atZonedTime(day(2025, 6, 14), 8, 0, TIME_ZONE)).toEqual(
+      new Date("2025-06-14T06:00:00Z")
+    );
+    expect(atZonedTime(day(2025, 1, 14), 8, 0, TIME_ZONE)).toEqual(
+      new Date("2025-01-14T07:00:00Z")
+    );
+  });
+
+  it("décale d'une heure une heure sautée (heure d'été)", () => {
+    expect(atZonedTime(day(2025, 3, 30), 2, 30, TIME_ZONE)).toEqual(
+      new Date("2025-03-30T01:30:00Z") // 3 h 30 CEST
+    );
+  });
+
+  it("retient la première fois d'une heure répétée (heure d'hiver)", () => {
+    expect(atZonedTime(day(2025, 10, 26), 2, 30, TIME_ZONE)).toEqual(
+      new Date("2025-10-26T00:30:00Z") // 2 h 30 CEST, pas CET
+    );
+    // Heures voisines non ambiguës
+    expect(atZonedTime(day(2025, 10, 26), 1, 30, TIME_ZONE)).toEqual(
+      new Date("2025-10-25T23:30:00Z")
+    );
+    expect(atZonedTime(day(2025, 10, 26), 3, 30, TIME_ZONE)).toEqual(
+      new Date("2025-10-26T02:30:00Z")
+    );
+  });
+
+  it("gère minuit et 23 h 59", () => {
+    expect(atZonedTime(day(2025, 6, 15), 0, 0, TIME_ZONE)).toEqual(
+      new Date("2025-06-14T22:00:00Z")
+    );
+    expect(atZonedTime(day(2025, 6, 14), 23, 59, TIME_ZONE)).toEqual(
+      new Date("2025-06-14T21:59:00Z")
+    );
+  });
+});
+
+describe("getZonedDay", () => {
+  it("retient le jour du fuseau, pas celui de l'UTC", () => {
+    expect(getZonedDay(new Date("2025-06-14T22:30:00Z"), TIME_ZONE)).toEqual(
+      day(2025, 6, 15)
+    );
+    expect(
+      getZonedDay(new Date("2025-06-14T22:30:00Z"), TIME_ZONE, -1)
+    ).toEqual(day(2025, 6, 14));
+  });
+});
@@ -0,0 +1,343 @@
+import Constants from "expo-constants";
+import { Citation, normalizeApiCitations } from "./citations";
+
+/**
+ * 🔌 Couche de fournisseurs IA interchangeables
+ *
+ * Chaque fournisseur décrit comment joindre un backend (URL, authentification),
+ * comment construire le corps de la requête et comment lire sa réponse.
+ * `fetchAiResponseWithSources` s'appuie uniquement sur cette interface, ce qui
+ * permet à chaque prompt de cibler le backend de son choix sans que `Cards`
+ * ni le feed n'aient à connaître la différence.
+ */
+
+/**
+ * 🏷️ Identifiants des fournisseurs supportés
+ */
+export type AiProviderType = "perplexity" | "openai" | "ollama";
+
+/**
+ * ⚙️ Configuration d'un fournisseur attachée à un prompt
+ *
+ * `baseUrl` et `apiKey` sont optionnels : sans surcharge, les valeurs
+ * définies dans app.config.js (section `extra`) sont utilisées.
+ */
+export type ProviderConfig = {
+  type: AiProviderType;
+  baseUrl?: string;
+  apiKey?: string;
+};
+
+/**
+ * 💬 Message au format OpenAI/ChatGPT (commun aux trois backends)
+ */
+export type ChatMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+/**
+ * 🎚️ Paramètres de génération réglables par prompt
+ *
+ * Chaque champ est optionnel : une valeur absente reprend la valeur par
+ * défaut (modèle du fournisseur, DEFAULT_GENERATION pour le reste).
+ */
+export type GenerationParams = {
+  model?: string;
+  temperature?: number; // 0 (précis) → 2 (créatif)
+  maxTokens?: number;
+  topP?: number; // 0 → 1
+};
+
+/**
+ * 📐 Valeurs par défaut historiques de l'application
+ */
+export const DEFAULT_GENERATION = {
+  temperature: 0.7, // Équilibre entre créativité (1.0) et précision (0.0)
+  maxTokens: 1500, // Limite généreuse pour des réponses détaillées
+};
+
+/**
+ * 🎛️ Paramètres de génération transmis au fournisseur
+ */
+export type ProviderRequestParams = {
+  model: string;
+  messages: ChatMessage[];
+  temperature: number;
+  maxTokens: number;
+  topP?: number;
+  stream?: boolean; // Réponse envoyée au fil de l'eau (SSE / NDJSON)
+};
+
+/**
+ * 📦 Réponse brute normalisée, avant extraction des sources
+ */
+export type ProviderResponse = {
+  text: string;
+  citations?: Citation[]; // Sources structurées, si le backend en fournit
+};
+
+/**
+ * 🌊 Morceau de réponse lu depuis une ligne de flux
+ */
+export type ProviderStreamChunk = {
+  delta?: string; // Texte à ajouter à la réponse
+  done?: boolean; // Fin de flux signalée par le fournisseur
+  citations?: Citation[]; // Liste complète des sources connues à ce stade
+};
+
+/**
+ * 🧩 Contrat implémenté par chaque fournisseur
+ */
+export interface AiProvider {
+  type: AiProviderType;
+  label: string; // Nom affiché (fallback de source, messages d'erreur)
+  defaultModel: string;
+  requiresApiKey: boolean;
+  getEndpoint: (config: ProviderConfig) => string;
+  getApiKey: (config: ProviderConfig) => string | undefined;
+  buildBody: (params: ProviderRequestParams) => Record<string, unknown>;
+  parseResponse: (data: unknown) => ProviderResponse;
+  parseStreamLine: (line: string) => ProviderStreamChunk | null;
+}
+
+const extra = Constants.expoConfig?.extra ?? {};
+
+/**
+ * 🔐 Clés et URLs par défaut
+ *
+ * Même ordre de priorité que pour Perplexity : app.config.js d'abord,
+ * puis variables d'environnement système en fallback.
+ */
+const PERPLEXITY_API_KEY: string | undefined =
+  extra.perplexityApiKey || process.env.PERPLEXITY_API_KEY;
+const OPENAI_API_KEY: string | undefined =
+  extra.openaiApiKey || process.env.OPENAI_API_KEY;
+const OPENAI_BASE_URL: string =
+  extra.openaiBaseUrl || process.env.OPENAI_BASE_URL || "https://api.openai.com/v1";
+const OLLAMA_BASE_URL: string =
+  extra.ollamaBaseUrl || process.env.OLLAMA_BASE_URL || "http://localhost:11434";
+
+/**
+ * ✅ Vérification de sécurité au démarrage de l'application
+ *
+ * Perplexity reste le fournisseur par défaut : son absence de clé est
+ * signalée immédiatement, les autres ne sont vérifiés qu'à l'usage.
+ */
+if (!PERPLEXITY_API_KEY) {
+  console.error("❌ ERREUR CRITIQUE: Clé API Perplexity manquante!");
+  console.error(
+    "📋 Vérifiez que votre fichier .env contient PERPLEXITY_API_KEY"
+  );
+}
+
+/**
+ * 🧹 Supprime le slash final d'une URL de base
+ */
+function trimTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, "");
+}
+
+/**
+ * 🔒 Lecture prudente des réponses JSON, dont la forme n'est pas garantie
+ */
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+/**
+ * 💬 Texte de `container[key].content` ("" si absent ou d'un autre type)
+ */
+function getMessageContent(
+  container: unknown,
+  key: "message" | "delta"
+): string {
+  const message = isRecord(container) ? container[key] : undefined;
+  return isRecord(message) && typeof message.content === "string"
+    ? message.content
+    : "";
+}
+
+/**
+ * 🥇 Premier élément de `choices` d'une réponse `/chat/completions`
+ */
+const getFirstChoice = (data: unknown): unknown =>
+  isRecord(data) && Array.isArray(data.choices) ? data.choices[0] : undefined;
+
+/**
+ * 📝 Corps de requête compatible `/chat/completions` (Perplexity et OpenAI)
+ */
+function buildChatCompletionsBody(
+  params: ProviderRequestParams
+): Record<string, unknown> {
+  return {
+    model: params.model,
+    messages: params.messages,
+    temperature: params.temperature,
+    max_tokens: params.maxTokens,
+    ...(params.topP !== undefined && { top_p: params.topP }),
+    stream: params.stream ?? false,
+  };
+}
+
+/**
+ * 📖 Lecture d'une réponse `/chat/completions`
+ *
+ * response.data.choices[0].message.content contient le texte généré ;
+ * Perplexity ajoute `citations` et `search_results` à la racine.
+ */
+function parseChatCompletionsResponse(data: unknown): ProviderResponse {
+  const citations = normalizeApiCitations(data);
+  return {
+    text: getMessageContent(getFirstChoice(data), "message").trim(),
+    ...(citations.length > 0 && { citations }),
+  };
+}
+
+/**
+ * 🌊 Lecture d'une ligne SSE `/chat/completions`
+ *
+ * Format : `data: {"choices":[{"delta":{"content":"..."}}]}` puis `data: [DONE]`.
+ * Perplexity répète `citations` dans les morceaux : la dernière liste fait foi.
+ * Les lignes vides et commentaires SSE sont ignorés.
+ */
+function parseChatCompletionsStreamLine(
+  line: string
+): ProviderStreamChunk | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith("data:")) return null;
+
+  const payload = trimmed.slice(5).trim();
+  if (payload === "[DONE]") return { done: true };
+
+  try {
+    const data: unknown = JSON.parse(payload);
+    const citations = normalizeApiCitations(data);
+    return {
+      delta: getMessageContent(getFirstChoice(data), "delta"),
+      ...(citations.length > 0 && { citations }),
+    };
+  } catch {
+    return null; // Ligne incomplète ou non JSON : ignorée
+  }
+}
+
+/**
+ * 🔎 Perplexity – modèle "sonar" avec recherche web intégrée
+ */
+const perplexityProvider: AiProvider = {
+  type: "perplexity",
+  label: "Perplexity",
+  defaultModel: "sonar",
+  requiresApiKey: true,
+  getEndpoint: (config) =>
+    `${trimTrailingSlash(config.baseUrl || "https://api.perplexity.ai")}/chat/completions`,
+  getApiKey: (config) => config.apiKey || PERPLEXITY_API_KEY,
+  buildBody: buildChatCompletionsBody,
+  parseResponse: parseChatCompletionsResponse,
+  parseStreamLine: parseChatCompletionsStreamLine,
+};
+
+/**
+ * 🤖 Tout endpoint compatible OpenAI (`/chat/completions`)
+ */
+const openAiProvider: AiProvider = {
+  type: "openai",
+  label: "OpenAI",
+  defaultModel: "gpt-4o-mini",
+  requiresApiKey: true,
+  getEndpoint: (config) =>
+    `${trimTrailingSlash(config.baseUrl || OPENAI_BASE_URL)}/chat/completions`,
+  getApiKey: (config) => config.apiKey || OPENAI_API_KEY,
+  buildBody: buildChatCompletionsBody,
+  parseResponse: parseChatCompletionsResponse,
+  parseStreamLine: parseChatCompletionsStreamLine,
+};
+
+/**
+ * 🦙 Serveur local de type Ollama (`/api/chat`)
+ *
+ * Pas d'authentification par défaut ; les paramètres de génération
+ * passent par le bloc `options` propre à Ollama. En streaming, Ollama
+ * renvoie un objet JSON par ligne (NDJSON) plutôt que du SSE.
+ */
+const ollamaProvider: AiProvider = {
+  type: "ollama",
+  label: "Ollama",
+  defaultModel: "llama3.1",
+  requiresApiKey: false,
+  getEndpoint: (config) =>
+    `${trimTrailingSlash(config.baseUrl || OLLAMA_BASE_URL)}/api/chat`,
+  getApiKey: (config) => config.apiKey,
+  buildBody: (params) => ({
+    model: params.model,
+    messages: params.messages,
+    stream: params.stream ?? false,
+    options: {
+      temperature: params.temperature,
+      num_predict: params.maxTokens,
+      ...(params.topP !== undefined && { top_p: params.topP }),
+    },
+  }),
+  parseResponse: (data) => ({
+    text: getMessageContent(data, "message").trim(),
+  }),
+  parseStreamLine: (line) => {
+    if (!line.trim()) return null;
+    try {
+      const data: unknown = JSON.parse(line);
+      return {
+        delta: getMessageContent(data, "message"),
+        done: isRecord(data) && !!data.done,
+      };
+    } catch {
+      return null;
+    }
+  },
+};
+
+/**
+ * 📚 Registre des fournisseurs disponibles
+ */
+export const AI_PROVIDERS: Record<AiProviderType, AiProvider> = {
+  perplexity: perplexityProvider,
+  openai: openAiProvider,
+  ollama: ollamaProvider,
+};
+
+/**
+ * 🎯 Fournisseur utilisé quand un prompt n'en précise aucun
+ */
+export const DEFAULT_PROVIDER_CONFIG: ProviderConfig = { type: "perplexity" };
+
+/**
+ * 🔍 Résolution du fournisseur d'une configuration (fallback Perplexity)
+ */
+export function getProvider(config?: ProviderConfig): AiProvider {
+  return AI_PROVIDERS[config?.type ?? "perplexity"] ?? perplexityProvider;
+}
+
+/**
+ * 🧮 Fusion des paramètres d'un prompt avec les valeurs par défaut
+ */
+export function resolveGeneration(
+  provider: AiProvider,
+  generation?: GenerationParams
+): Omit<ProviderRequestParams, "messages"> {
+  return {
+    model: generation?.model?.trim() || provider.defaultModel,
+    temperature: generation?.temperature ?? DEFAULT_GENERATION.temperature,
+    maxTokens: generation?.maxTokens ?? DEFAULT_GENERATION.maxTokens,
+    topP: generation?.topP,
+  };
+}
+
+/**
+ * 🏷️ Modèle effectivement utilisé par un prompt (pour l'historique)
+ */
+export function resolveModel(prompt: {
+  provider?: ProviderConfig;
+  generation?: GenerationParams;
+}): string {
+  return resolveGeneration(getProvider(prompt.provider), prompt.generation)
+    .model;
+}
@@ -0,0 +1,348 @@
+import { AppState } from "react-native";
+import * as BackgroundFetch from "expo-background-fetch";
+import * as TaskManager from "expo-task-manager";
+import * as Notifications from "expo-notifications";
+import type { Prompt, AppSettings } from "../context/PromptContext";
+import { fetchAiResponseWithSources } from "./fetchAiResponse";
+import { resolveModel } from "./aiProviders";
+import { resolveSystemPrompt } from "./personas";
+import { PromptRun, appendRun } from "./runHistory";
+import { shouldAlertOnChange, buildChangeExcerpt } from "./changeDetection";
+import { evaluateWatchRules, describeWatchMatches } from "./watchRules";
+import {
+  getMissedRuns,
+  getDueRetries,
+  planCatchUp,
+  markSkippedRuns,
+  scheduleRetry,
+  reanchorTimeZones,
+} from "./scheduler";
+import {
+  RESULT_EXCERPT_LENGTH,
+  buildResultBody,
+  buildPromptNotificationRequest,
+} from "./notifications";
+import {
+  isInDigest,
+  assembleDailyDigest,
+  buildDigestNotificationRequest,
+} from "./digest";
+import { hasJobFor } from "./jobQueue";
+import * as storage from "./storage";
+
+/**
+ * 🌙 Exécution des prompts planifiés en arrière-plan
+ *
+ * Le système réveille l'app périodiquement (au mieux toutes les 15 min,
+ * selon la batterie et l'usage) : les prompts dus sont exécutés, le
+ * résultat est enregistré dans AsyncStorage puis notifié avec un extrait
+ * de la réponse. À l'ouverture, PromptContext relit le stockage et trouve
+ * la réponse déjà prête.
+ *
+ * La tâche doit être définie au chargement du bundle JS, avant le rendu :
+ * ce module est importé par index.ts.
+ */
+
+export const BACKGROUND_TASK_NAME = "prism-scheduled-prompts";
+
+/**
+ * ⏱️ Intervalle minimal demandé au système, en secondes
+ */
+const MINIMUM_INTERVAL = 15 * 60;
+
+/**
+ * ⏳ Temps accordé aux appels à l'IA (iOS accorde environ 30 s à une
+ * tâche d'arrière-plan) : chaque appel est borné au temps restant, pour
+ * laisser la sauvegarde et la notification se faire avant l'arrêt
+ */
+const TIME_BUDGET_MS = 20_000;
+
+/**
+ * ⏱️ Temps restant minimal pour lancer une exécution, en secondes ; en
+ * deçà, les prompts restants attendent le prochain réveil
+ */
+const MIN_RUN_SECONDS = 5;
+
+/**
+ * 🔔 Notification du résultat d'une exécution
+ *
+ * Alerte de changement si elle est activée (rien si la réponse n'a pas
+ * assez changé), sinon un aperçu de la réponse et sa première source,
+ * sauf pour un prompt regroupé dans le digest. C'est la seule
+ * notification de l'exécution : tâche inscrite, les prompts récurrents
+ * n'ont pas de rappel (voir expectsReminders). Les règles de
+ * surveillance ajoutent leur propre notification. Niveau d'alerte et
+ * heures calmes selon les préférences.
+ */
+async function notifyResult(
+  prompt: Prompt,
+  result: Pick<Prompt, "response" | "citations">,
+  settings: Pick<AppSettings, "notifications" | "digest">
+) {
+  const notifications: [string, string][] = [];
+
+  if (prompt.changeAlert?.enabled) {
+    if (shouldAlertOnChange(prompt.changeAlert, prompt, result)) {
+      notifications.push([
+        "🔔 Du nouveau",
+        buildResultBody(
+          result,
+          buildChangeExcerpt(
+            prompt.response,
+            result.response,
+            RESULT_EXCERPT_LENGTH
+          )
+        ),
+      ]);
+    }
+  } else if (!isInDigest(settings.digest, prompt.id)) {
+    notifications.push(["💬 Réponse prête", buildResultBody(result)]);
+  }
+
+  if (prompt.watchRules?.length) {
+    const matches = evaluateWatchRules(prompt.watchRules, result);
+    if (matches.length > 0) {
+      notifications.push([
+        "👀 Règle déclenchée",
+        describeWatchMatches(matches),
+      ]);
+    }
+  }
+
+  for (const [title, body] of notifications) {
+    await Notifications.scheduleNotificationAsync(
+      buildPromptNotificationRequest(
+        prompt,
+        title,
+        body,
+        settings.notifications
+      )
+    );
+  }
+}
+
+/**
+ * 🚀 Exécution des prompts dus, sans interface
+ *
+ * Ignorée quand l'app est au premier plan : PromptContext s'en charge.
+ * Les prompts déjà dans la file d'exécution persistée sont laissés à
+ * l'app, qui les reprend à la prochaine ouverture (pas de double
+ * exécution). `runNowIds` : prompts lancés depuis le bouton "Lancer
+ * maintenant" d'un rappel, exécutés en premier même s'ils ne sont pas dus.
+ * Les prompts et l'historique sont sauvegardés après chaque exécution,
+ * pour ne rien perdre si le système interrompt la tâche.
+ */
+export async function runDuePromptsInBackground(
+  options: { runNowIds?: string[] } = {}
+): Promise<BackgroundFetch.BackgroundFetchResult> {
+  if (AppState.currentState === "active") {
+    return BackgroundFetch.BackgroundFetchResult.NoData;
+  }
+
+  const startedAt = Date.now();
+  let prompts = await storage.loadPrompts();
+  const jobs = await storage.loadJobQueue();
+  const isQueued = (id: string) => hasJobFor(jobs, id);
+  const dueRuns = getMissedRuns(prompts, { isRunning: isQueued });
+  const retryIds = getDueRetries(prompts, { isRunning: isQueued });
+  const runNowIds = (options.runNowIds ?? []).filter((id) => !isQueued(id));
+
+  if (
+    dueRuns.length === 0 &&
+    retryIds.length === 0 &&
+    runNowIds.length === 0
+  ) {
+    // Rien de dû : le nouveau fuseau éventuel est adopté tout de suite
+    const reanchored = reanchorTimeZones(prompts);
+    if (reanchored.changedIds.length > 0) {
+      await storage.savePrompts(reanchored.prompts);
+    }
+    return BackgroundFetch.BackgroundFetchResult.NoData;
+  }
+
+  const [personas, settings] = await Promise.all([
+    storage.loadPersonas(),
+    storage.loadSettings(),
+  ]);
+
+  // Même politique de rattrapage qu'au premier plan
+  const plan = planCatchUp(prompts, dueRuns, {
+    windowHours: settings.catchUpWindowHours,
+  });
+  if (plan.skipped.length > 0) {
+    prompts = markSkippedRuns(prompts, plan.skipped);
+  }
+
+  // Fuseau de l'appareil changé : adopté une fois les occurrences
+  // manquées détectées et marquées dans l'ancien, comme au premier plan
+  const reanchored = reanchorTimeZones(prompts);
+  prompts = reanchored.prompts;
+  if (plan.skipped.length > 0 || reanchored.changedIds.length > 0) {
+    await storage.savePrompts(prompts);
+  }
+
+  // Demandes explicites, occurrences dues, puis nouvelles tentatives
+  const dueIds = [
+    ...runNowIds,
+    ...plan.run
+      .map(({ promptId }) => promptId)
+      .filter((id) => !runNowIds.includes(id)),
+  ];
+  const queue = [
+    ...dueIds.map((promptId) => ({ promptId, isRetry: false })),
+    ...retryIds
+      .filter((id) => !dueIds.includes(id))
+      .map((promptId) => ({ promptId, isRetry: true })),
+  ];
+  if (queue.length === 0) {
+    return BackgroundFetch.BackgroundFetchResult.NoData;
+  }
+
+  let runHistory = await storage.loadRunHistory(settings.history);
+  const { status } = await Notifications.getPermissionsAsync();
+  const canNotify = status === "granted";
+
+  console.log(`🌙 ${queue.length} prompt(s) dû(s) en arrière-plan`);
+
+  let succeeded = 0;
+  for (const { promptId, isRetry } of queue) {
+    const remainingSeconds = Math.floor(
+      (TIME_BUDGET_MS - (Date.now() - startedAt)) / 1000
+    );
+    if (remainingSeconds < MIN_RUN_SECONDS) break;
+
+    const prompt = prompts.find((p) => p.id === promptId);
+    if (!prompt?.scheduled) continue;
+
+    const runStartedAt = new Date().toISOString();
+    const result = await fetchAiResponseWithSources(prompt.question, {
+      provider: prompt.provider,
+      generation: prompt.generation,
+      systemPrompt: resolveSystemPrompt(personas, prompt.personaId),
+      timeoutSeconds: Math.min(
+        prompt.timeoutSeconds ?? remainingSeconds,
+        remainingSeconds
+      ),
+    });
+    const completionTime = new Date().toISOString();
+    const ok = !result.error && !!result.response;
+
+    const run: PromptRun = {
+      id: `${prompt.id}-${Date.now()}`,
+      promptId: prompt.id,
+      startedAt: runStartedAt,
+      durationMs: Date.now() - new Date(runStartedAt).getTime(),
+      model: resolveModel(prompt),
+      response: result.response,
+      citations: result.citations,
+      status: result.error ? "failed" : ok ? "succeeded" : "cancelled",
+      error: result.error,
+    };
+    runHistory = appendRun(runHistory, run, settings.history);
+
+    // Échec : la réponse précédente est conservée, comme au premier plan
+    const updated: Prompt = ok
+      ? {
+          ...prompt,
+          response: result.response,
+          status: "succeeded",
+          error: undefined,
+          source: result.sourcesFormatted,
+          citations: result.citations,
+          updatedAt: completionTime,
+          scheduled: {
+            ...prompt.scheduled,
+            lastRun: completionTime,
+            retry: undefined,
+          },
+        }
+      : {
+          ...prompt,
+          status: result.error ? "failed" : "cancelled",
+          error: result.error,
+          scheduled: {
+            ...prompt.scheduled,
+            lastRun: completionTime,
+            retry: result.error
+              ? scheduleRetry(
+                  result.error.code,
+                  isRetry ? prompt.scheduled.retry : undefined,
+                  prompt.maxRetries
+                )
+              : undefined,
+          },
+        };
+    prompts = prompts.map((p) => (p.id === prompt.id ? updated : p));
+
+    await storage.savePrompts(prompts);
+    await storage.saveRunHistory(runHistory);
+
+    if (ok) {
+      succeeded++;
+      if (canNotify) {
+        await notifyResult(prompt, result, settings).catch(
+          (error) =>
+            console.error("❌ Erreur notification arrière-plan:", error)
+        );
+      }
+    }
+  }
+
+  // Derniers prompts du digest terminés : digest du jour, une notification
+  const digest = await assembleDailyDigest(
+    prompts,
+    settings.digest,
+    await storage.loadDigest()
+  );
+  if (digest) {
+    await storage.saveDigest(digest);
+    if (canNotify) {
+      await Notifications.scheduleNotificationAsync(
+        buildDigestNotificationRequest(digest, settings.notifications)
+      ).catch((error) =>
+        console.error("❌ Erreur notification digest:", error)
+      );
+    }
+  }
+
+  return succeeded > 0
+    ? BackgroundFetch.BackgroundFetchResult.NewData
+    : BackgroundFetch.BackgroundFetchResult.Failed;
+}
+
+TaskManager.defineTask(BACKGROUND_TASK_NAME, async () => {
+  try {
+    return await runDuePromptsInBackground();
+  } catch (error) {
+    console.error("❌ Erreur tâche d'arrière-plan:", error);
+    return BackgroundFetch.BackgroundFetchResult.Failed;
+  }
+});
+
+/**
+ * 📝 Inscription de la tâche auprès du système (une seule fois)
+ *
+ * Retourne `false` si l'arrière-plan est désactivé par l'utilisateur ou
+ * indisponible (simulateur, Expo Go sur iOS).
+ */
+export async function registerBackgroundTask(): Promise<boolean> {
+  try {
+    const status = await BackgroundFetch.getStatusAsync();
+    if (status !== BackgroundFetch.BackgroundFetchStatus.Available) {
+      console.log("🌙 Exécution en arrière-plan indisponible");
+      return false;
+    }
+
+    if (!(await TaskManager.isTaskRegisteredAsync(BACKGROUND_TASK_NAME))) {
+      await BackgroundFetch.registerTaskAsync(BACKGROUND_TASK_NAME, {
+        minimumInterval: MINIMUM_INTERVAL,
+        stopOnTerminate: false, // Android : continuer après fermeture
+        startOnBoot: true,
+      });
+    }
+    return true;
+  } catch (error) {
+    console.error("❌ Erreur inscription tâche d'arrière-plan:", error);
+    return false;
+  }
+}
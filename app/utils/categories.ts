@@ -0,0 +1,14 @@
+/**
+ * 🏷️ Catégories prédéfinies des prompts
+ *
+ * Partagées entre les écrans (sélection, filtres, préférences de
+ * notification) ; `icon` est le nom d'une icône Phosphor.
+ */
+export const CATEGORIES = [
+  { id: "news", name: "Actualités", color: "#ff6b6b", icon: "Newspaper" },
+  { id: "tech", name: "Technologie", color: "#4ecdc4", icon: "Desktop" },
+  { id: "science", name: "Science", color: "#45b7d1", icon: "Flask" },
+  { id: "business", name: "Business", color: "#f9ca24", icon: "Briefcase" },
+  { id: "personal", name: "Personnel", color: "#6c5ce7", icon: "User" },
+  { id: "other", name: "Autre", color: "#a0a0a0", icon: "Files" },
+];
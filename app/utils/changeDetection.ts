@@ -0,0 +1,142 @@
+import { Citation } from "./citations";
+import { diffWords, summarizeChange } from "./textDiff";
+import { excerpt } from "./markdown";
+
+/**
+ * 🔔 Détection de changement entre deux réponses
+ *
+ * Utilisée par le mode "alerter si la réponse change" : la nouvelle
+ * réponse est comparée à la précédente (texte normalisé + ensemble des
+ * sources) et une notification n'est envoyée qu'au-delà du seuil choisi.
+ */
+
+/**
+ * ⚙️ Réglage d'alerte d'un prompt
+ */
+export type ChangeAlert = {
+  enabled: boolean;
+  threshold: number; // Score minimal de changement (0 à 1)
+};
+
+/**
+ * 🎚️ Seuils proposés dans l'interface
+ */
+export const CHANGE_ALERT_THRESHOLDS = [0.1, 0.25, 0.5];
+
+export const DEFAULT_CHANGE_ALERT: ChangeAlert = {
+  enabled: false,
+  threshold: 0.25,
+};
+
+/**
+ * ⚖️ Part du texte dans le score (le reste revient aux sources)
+ */
+const TEXT_WEIGHT = 0.7;
+
+/**
+ * 📄 Réponse comparée : texte et sources structurées
+ */
+export type ComparableResult = {
+  response: string;
+  citations?: Citation[];
+};
+
+/**
+ * 📊 Résultat d'une comparaison
+ */
+export type ChangeScore = {
+  textChange: number; // Part de mots modifiés (0 à 1)
+  citationChange: number; // 1 − similarité de Jaccard des sources
+  score: number; // Score pondéré comparé au seuil
+};
+
+/**
+ * 🔗 Clé d'une source : hôte + chemin, sans "www.", requête ni "/" final
+ */
+function citationKey(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const host = parsed.hostname.replace(/^www\./, "").toLowerCase();
+    const path = parsed.pathname.replace(/\/+$/, "");
+    return `${host}${path}`;
+  } catch {
+    return url.trim().toLowerCase();
+  }
+}
+
+/**
+ * 🔗 Changement de l'ensemble des sources (1 − Jaccard)
+ */
+function citationSetChange(before: Citation[], after: Citation[]): number {
+  const a = new Set(before.map((c) => citationKey(c.url)));
+  const b = new Set(after.map((c) => citationKey(c.url)));
+  if (a.size === 0 && b.size === 0) return 0;
+
+  let shared = 0;
+  a.forEach((key) => {
+    if (b.has(key)) shared++;
+  });
+  return 1 - shared / (a.size + b.size - shared);
+}
+
+/**
+ * 📊 Score de changement entre deux réponses
+ *
+ * Sans sources de part et d'autre, seul le texte compte.
+ */
+export function compareResults(
+  previous: ComparableResult,
+  next: ComparableResult
+): ChangeScore {
+  const textChange = summarizeChange(previous.response, next.response).ratio;
+  const before = previous.citations ?? [];
+  const after = next.citations ?? [];
+
+  if (before.length === 0 && after.length === 0) {
+    return { textChange, citationChange: 0, score: textChange };
+  }
+
+  const citationChange = citationSetChange(before, after);
+  return {
+    textChange,
+    citationChange,
+    score: TEXT_WEIGHT * textChange + (1 - TEXT_WEIGHT) * citationChange,
+  };
+}
+
+/**
+ * ✅ Le changement justifie-t-il une alerte ?
+ *
+ * Sans réponse précédente, la première réponse est toujours signalée.
+ */
+export function shouldAlertOnChange(
+  alert: ChangeAlert | undefined,
+  previous: ComparableResult,
+  next: ComparableResult
+): boolean {
+  if (!alert?.enabled || !next.response) return false;
+  if (!previous.response) return true;
+  return compareResults(previous, next).score >= alert.threshold;
+}
+
+/**
+ * ✂️ Aperçu du nouveau contenu pour le corps de la notification
+ *
+ * Les premiers passages ajoutés sont privilégiés ; à défaut (sources
+ * seules modifiées), le début de la nouvelle réponse.
+ */
+export function buildChangeExcerpt(
+  previous: string,
+  next: string,
+  maxLength: number = 140
+): string {
+  if (previous) {
+    const added = diffWords(previous, next)
+      .filter((segment) => segment.type === "added")
+      .map((segment) => segment.text)
+      .join(" … ");
+    const addedExcerpt = excerpt(added, maxLength);
+    if (addedExcerpt.split(" ").length >= 3) return addedExcerpt;
+  }
+  return excerpt(next, maxLength);
+}
@@ -0,0 +1,130 @@
+/**
+ * 📚 Citations structurées
+ *
+ * Perplexity renvoie, à côté du texte, un tableau `citations` (URLs dans
+ * l'ordre des marqueurs [1], [2]...) et un tableau `search_results`
+ * (titre, date, extrait). Ce module fusionne les deux dans un format
+ * unique, et sait aussi relire l'ancien champ `source` (URLs séparées
+ * par des virgules) des prompts déjà stockés.
+ */
+
+/**
+ * 🔗 Une citation numérotée, telle que référencée dans le texte
+ */
+export type Citation = {
+  index: number; // Numéro du marqueur [n] dans la réponse (à partir de 1)
+  url: string;
+  title?: string;
+  snippet?: string;
+  date?: string;
+};
+
+/**
+ * 🌐 Nom de domaine lisible d'une URL ("https://www.lemonde.fr/..." → "lemonde.fr")
+ */
+export function getCitationDomain(url: string): string {
+  try {
+    return new URL(url).hostname.replace("www.", "");
+  } catch {
+    return url.substring(0, 30) + "...";
+  }
+}
+
+/**
+ * 🔎 Entrée de `search_results` telle que renvoyée par l'API
+ */
+type SearchResult = {
+  url: string;
+  title?: unknown;
+  snippet?: unknown;
+  date?: unknown;
+};
+
+const isSearchResult = (value: unknown): value is SearchResult =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as { url?: unknown }).url === "string";
+
+/**
+ * 🧩 Normalisation des champs `citations` / `search_results` de l'API
+ *
+ * L'ordre de `citations` fait foi pour la numérotation ; les entrées de
+ * `search_results` enrichissent les citations de même URL. Sans
+ * `citations`, les `search_results` sont numérotés dans leur ordre.
+ */
+export function normalizeApiCitations(data: unknown): Citation[] {
+  const { citations, search_results } =
+    typeof data === "object" && data !== null
+      ? (data as { citations?: unknown; search_results?: unknown })
+      : {};
+  const urls = Array.isArray(citations)
+    ? citations.filter((url): url is string => typeof url === "string")
+    : [];
+  const results = Array.isArray(search_results)
+    ? search_results.filter(isSearchResult)
+    : [];
+
+  const toCitation = (url: string, index: number): Citation => {
+    const result = results.find((r) => r.url === url);
+    return {
+      index,
+      url,
+      ...(!!result?.title && { title: String(result.title) }),
+      ...(!!result?.snippet && { snippet: String(result.snippet) }),
+      ...(!!result?.date && { date: String(result.date) }),
+    };
+  };
+
+  if (urls.length > 0) {
+    return urls.map((url, i) => toCitation(url, i + 1));
+  }
+  return results.map((result, i) => toCitation(result.url, i + 1));
+}
+
+/**
+ * 🔄 Citations à partir d'une simple liste d'URLs (extraction regex, ancien format)
+ */
+export function citationsFromUrls(urls: string[]): Citation[] {
+  return urls.map((url, i) => ({ index: i + 1, url }));
+}
+
+/**
+ * 🗄️ Relecture de l'ancien champ `source`
+ *
+ * "https://a.fr, https://b.fr" → deux citations ; un texte comme
+ * "Perplexity" ou "Planifié" ne donne aucune citation.
+ */
+export function citationsFromLegacySource(source: string): Citation[] {
+  return citationsFromUrls(
+    source
+      .split(",")
+      .map((url) => url.trim())
+      .filter((url) => url.startsWith("http://") || url.startsWith("https://"))
+  );
+}
+
+/**
+ * 🔖 Schéma d'URL interne utilisé pour les marqueurs cliquables
+ */
+export const CITATION_LINK_PREFIX = "citation:";
+
+/**
+ * 🔗 Transforme les marqueurs [n] du Markdown en liens vers la citation n
+ *
+ * Seuls les numéros correspondant à une citation connue sont convertis,
+ * et un marqueur déjà suivi de "(" (lien Markdown existant) est laissé
+ * intact. Le lien produit (`citation:n`) est intercepté par `Cards`.
+ */
+export function linkCitationMarkers(
+  markdown: string,
+  citations: Citation[]
+): string {
+  if (citations.length === 0) return markdown;
+  const known = new Set(citations.map((c) => c.index));
+
+  return markdown.replace(/\[(\d{1,3})\](?!\()/g, (marker, num: string) =>
+    known.has(Number(num))
+      ? `[\\[${num}\\]](${CITATION_LINK_PREFIX}${num})`
+      : marker
+  );
+}
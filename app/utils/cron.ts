@@ -0,0 +1,250 @@
+import { getZonedDay, atZonedTime, getZonedTime } from "./timeZone";
+
+/**
+ * ⏰ Expressions cron (5 champs, dans le fuseau de la planification)
+ *
+ *   minute  heure  jour-du-mois  mois  jour-de-la-semaine
+ *   30      7      *             *     1-5
+ *
+ * Syntaxe acceptée par champ : `*`, valeurs, listes (`1,15`), intervalles
+ * (`1-5`), pas (`*\/15`, `8-18/2`) et noms anglais pour les mois et les
+ * jours (`jan`, `mon`). Le dimanche vaut 0 ou 7. Comme dans cron, si le
+ * jour du mois et le jour de la semaine sont tous deux restreints (champ
+ * ne commençant pas par `*`), l'un OU l'autre suffit.
+ */
+
+/**
+ * 🧩 Expression analysée : valeurs autorisées par champ
+ */
+export type CronSchedule = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>; // 1 à 12
+  daysOfWeek: Set<number>; // 0 = dimanche
+  restrictsDayOfMonth: boolean;
+  restrictsDayOfWeek: boolean;
+};
+
+type FieldSpec = {
+  name: string;
+  min: number;
+  max: number;
+  aliases?: string[]; // Noms acceptés, indexés à partir de `min`
+};
+
+const FIELDS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "heure", min: 0, max: 23 },
+  { name: "jour du mois", min: 1, max: 31 },
+  {
+    name: "mois",
+    min: 1,
+    max: 12,
+    aliases: [
+      "jan", "feb", "mar", "apr", "may", "jun",
+      "jul", "aug", "sep", "oct", "nov", "dec",
+    ],
+  },
+  {
+    name: "jour de la semaine",
+    min: 0,
+    max: 7,
+    aliases: ["sun", "mon", "tue", "wed", "thu", "fri", "sat"],
+  },
+];
+
+/**
+ * 🔍 Nombre maximal de jours parcourus : couvre un 29 février
+ */
+const MAX_SEARCH_DAYS = 366 * 4 + 1;
+
+function parseValue(token: string, spec: FieldSpec): number {
+  const alias = spec.aliases?.indexOf(token.toLowerCase()) ?? -1;
+  if (alias >= 0) return spec.min + alias;
+  if (!/^\d+$/.test(token)) {
+    throw new Error(`Valeur "${token}" invalide pour le champ ${spec.name}.`);
+  }
+  const value = Number(token);
+  if (value < spec.min || value > spec.max) {
+    throw new Error(
+      `Valeur ${value} hors de l'intervalle ${spec.min}-${spec.max} (${spec.name}).`
+    );
+  }
+  return value;
+}
+
+/**
+ * 🧩 Analyse d'un champ : liste de `*`, valeurs, intervalles et pas
+ */
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [rangePart, stepPart, ...rest] = part.split("/");
+    if (rest.length > 0 || !rangePart) {
+      throw new Error(`Syntaxe "${part}" invalide pour le champ ${spec.name}.`);
+    }
+
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Pas "${stepPart}" invalide pour le champ ${spec.name}.`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === "*") {
+      start = spec.min;
+      end = spec.max;
+    } else if (rangePart.includes("-")) {
+      const [from, to] = rangePart.split("-");
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) {
+        throw new Error(`Intervalle "${rangePart}" inversé (${spec.name}).`);
+      }
+    } else {
+      start = parseValue(rangePart, spec);
+      // "5/15" : de 5 jusqu'au maximum, par pas de 15
+      end = stepPart === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * ✅ Analyse d'une expression cron
+ *
+ * Retourne l'expression analysée ou un message d'erreur lisible.
+ */
+export function parseCron(expression: string): {
+  schedule?: CronSchedule;
+  error?: string;
+} {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5 || !fields[0]) {
+    return {
+      error:
+        "Une expression cron comporte 5 champs : minute heure jour mois jour-semaine.",
+    };
+  }
+
+  try {
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+      (field, i) => parseField(field, FIELDS[i])
+    );
+
+    // Dimanche : 7 équivaut à 0
+    if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+    return {
+      schedule: {
+        minutes,
+        hours,
+        daysOfMonth,
+        months,
+        daysOfWeek,
+        // Comme dans cron, un champ commençant par `*` (`*/2`) n'est pas
+        // une restriction
+        restrictsDayOfMonth: !fields[2].startsWith("*"),
+        restrictsDayOfWeek: !fields[4].startsWith("*"),
+      },
+    };
+  } catch (parseError) {
+    return { error: (parseError as Error).message };
+  }
+}
+
+/**
+ * 📆 Le jour de calendrier (voir timeZone.ts) correspond-il à l'expression
+ * (mois, jour du mois, jour de semaine) ?
+ */
+function matchesDay(schedule: CronSchedule, day: Date): boolean {
+  if (!schedule.months.has(day.getUTCMonth() + 1)) return false;
+
+  const dayOfMonth = schedule.daysOfMonth.has(day.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(day.getUTCDay());
+
+  if (schedule.restrictsDayOfMonth && schedule.restrictsDayOfWeek) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * 🕐 Heures de la journée correspondant à l'expression, triées
+ */
+function timesOfDay(schedule: CronSchedule): number[] {
+  const times: number[] = [];
+  [...schedule.hours]
+    .sort((a, b) => a - b)
+    .forEach((hour) =>
+      [...schedule.minutes]
+        .sort((a, b) => a - b)
+        .forEach((minute) => times.push(hour * 60 + minute))
+    );
+  return times;
+}
+
+const atMinutes = (day: Date, minutes: number, timeZone?: string) =>
+  atZonedTime(day, Math.floor(minutes / 60), minutes % 60, timeZone);
+
+/**
+ * ⏭️ Prochaine occurrence strictement postérieure à `after`
+ *
+ * Le premier jour, les heures déjà passées sont écartées avant tout
+ * calcul de date (une expression "* * * * *" compte 1440 heures par jour).
+ */
+export function getNextCronOccurrence(
+  schedule: CronSchedule,
+  after: Date,
+  timeZone?: string
+): Date | null {
+  const times = timesOfDay(schedule);
+  const { hour, minute } = getZonedTime(after, timeZone);
+  const afterMinutes = hour * 60 + minute;
+
+  for (let offset = 0; offset <= MAX_SEARCH_DAYS; offset++) {
+    const day = getZonedDay(after, timeZone, offset);
+    if (!matchesDay(schedule, day)) continue;
+
+    for (const minutes of times) {
+      if (offset === 0 && minutes < afterMinutes) continue;
+      const occurrence = atMinutes(day, minutes, timeZone);
+      if (occurrence > after) return occurrence;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * ⏮️ Dernière occurrence antérieure ou égale à `before`
+ */
+export function getPreviousCronOccurrence(
+  schedule: CronSchedule,
+  before: Date,
+  timeZone?: string
+): Date | null {
+  const times = timesOfDay(schedule).reverse();
+  const { hour, minute } = getZonedTime(before, timeZone);
+  const beforeMinutes = hour * 60 + minute;
+
+  for (let offset = 0; offset <= MAX_SEARCH_DAYS; offset++) {
+    const day = getZonedDay(before, timeZone, -offset);
+    if (!matchesDay(schedule, day)) continue;
+
+    for (const minutes of times) {
+      if (offset === 0 && minutes > beforeMinutes) continue;
+      const occurrence = atMinutes(day, minutes, timeZone);
+      if (occurrence <= before) return occurrence;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,281 @@
+import {
+  SchedulableTriggerInputTypes,
+  type NotificationRequestInput,
+} from "expo-notifications";
+import type { Prompt } from "../context/PromptContext";
+import { CATEGORIES } from "./categories";
+import { excerpt } from "./markdown";
+import { getCitationDomain } from "./citations";
+import { fetchAiResponseWithSources } from "./fetchAiResponse";
+import { getOccurrencesBetween, isRecurring } from "./scheduler";
+import { ScheduleRule, getPreviousOccurrence } from "./schedule";
+import { getZonedDay, atZonedTime } from "./timeZone";
+import {
+  NotificationPrefs,
+  applyNotificationLevel,
+  isInQuietHours,
+  getReleaseDate,
+} from "./notificationPrefs";
+import { RESULT_EXCERPT_LENGTH } from "./notifications";
+
+/**
+ * 🗞️ Digest quotidien
+ *
+ * En mode digest, les prompts choisis ne notifient plus un par un : une
+ * fois que tous ceux attendus dans la journée ont terminé, leurs réponses
+ * sont regroupées par catégorie en un seul digest, éventuellement résumé
+ * par l'IA, annoncé par une seule notification et épinglé en tête de
+ * l'accueil. Un digest par jour au plus (heure locale de l'appareil).
+ *
+ * Partagé entre PromptContext (premier plan) et la tâche d'arrière-plan.
+ */
+
+export type DigestSettings = {
+  enabled: boolean;
+  promptIds: string[]; // Prompts planifiés regroupés dans le digest
+  aiSummary: boolean; // Résumé de l'ensemble par l'IA
+};
+
+export const DEFAULT_DIGEST_SETTINGS: DigestSettings = {
+  enabled: false,
+  promptIds: [],
+  aiSummary: false,
+};
+
+export type DigestItem = {
+  promptId: string;
+  question: string;
+  excerpt: string; // Aperçu en texte brut, ou message d'erreur
+  failed?: boolean;
+  topSource?: string; // Domaine de la première source
+};
+
+export type DigestSection = {
+  categoryId: string;
+  items: DigestItem[];
+};
+
+export type Digest = {
+  day: string; // YYYY-MM-DD, heure locale
+  createdAt: string; // ISO
+  sections: DigestSection[]; // Dans l'ordre de CATEGORIES
+  summary?: string;
+};
+
+const ITEM_EXCERPT_LENGTH = 200;
+const SUMMARY_TIMEOUT_SECONDS = 60;
+
+/**
+ * 📅 Jour local d'une date ("2025-03-14")
+ */
+export function getDayKey(date: Date = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}`;
+}
+
+/**
+ * 🔕 Le prompt est-il regroupé dans le digest (pas de notification seule) ?
+ */
+export const isInDigest = (settings: DigestSettings, promptId: string) =>
+  settings.enabled && settings.promptIds.includes(promptId);
+
+/**
+ * 📆 Journée en cours dans le fuseau de la planification : de minuit à
+ * minuit, dans celui de l'appareil si la règle le suit
+ */
+function getRuleDay(
+  rule: ScheduleRule,
+  now: Date
+): { start: Date; end: Date } {
+  const { timeZone } = rule;
+  return {
+    start: atZonedTime(getZonedDay(now, timeZone), 0, 0, timeZone),
+    end: atZonedTime(getZonedDay(now, timeZone, 1), 0, 0, timeZone),
+  };
+}
+
+/**
+ * ✅ Prompts du digest ayant terminé aujourd'hui, ou null tant que l'un
+ * d'eux reste attendu
+ *
+ * "Aujourd'hui" est la journée du fuseau de chaque planification. Un
+ * prompt est attendu s'il a une occurrence dans la journée ; il a terminé
+ * une fois exécuté (succès ou échec) après sa dernière occurrence passée
+ * du jour. Un rattrapage de la veille après minuit ou une exécution
+ * manuelle avant l'heure prévue ne comptent donc pas. Une occurrence du
+ * jour ignorée (journée passée, rattrapage écarté) ne le fait plus
+ * attendre.
+ */
+export function getFinishedDigestPrompts(
+  prompts: Prompt[],
+  settings: DigestSettings,
+  now: Date = new Date()
+): Prompt[] | null {
+  const expected = prompts.filter((p) => {
+    if (!isInDigest(settings, p.id) || !isRecurring(p)) return false;
+    const day = getRuleDay(p.scheduled!, now);
+    return (
+      getOccurrencesBetween(
+        p.scheduled!,
+        new Date(day.start.getTime() - 1),
+        new Date(day.end.getTime() - 1),
+        1
+      ).length > 0
+    );
+  });
+  if (expected.length === 0) return null;
+
+  // Dernière occurrence passée du jour (null si aucune n'est encore due)
+  const getTodayOccurrence = (p: Prompt) => {
+    const occurrence = getPreviousOccurrence(p.scheduled!, now);
+    return occurrence && occurrence >= getRuleDay(p.scheduled!, now).start
+      ? occurrence
+      : null;
+  };
+  const ranToday = (p: Prompt) => {
+    const occurrence = getTodayOccurrence(p);
+    return (
+      !!occurrence &&
+      !!p.scheduled?.lastRun &&
+      p.scheduled.lastRun >= occurrence.toISOString() &&
+      p.status !== "running" &&
+      p.status !== "queued"
+    );
+  };
+  // Occurrence du jour ignorée, ou journée passée avant son heure
+  const skippedToday = (p: Prompt) =>
+    !!p.scheduled?.skippedUntil &&
+    p.scheduled.skippedUntil >= (getTodayOccurrence(p) ?? now).toISOString();
+
+  if (!expected.every((p) => ranToday(p) || skippedToday(p))) return null;
+
+  const finished = expected.filter(ranToday);
+  return finished.length > 0 ? finished : null;
+}
+
+/**
+ * 🧩 Digest du jour : réponses regroupées par catégorie
+ */
+export function buildDigest(prompts: Prompt[], now: Date = new Date()): Digest {
+  const sections = CATEGORIES.map((category) => ({
+    categoryId: category.id,
+    items: prompts
+      .filter((p) => (p.category || "other") === category.id)
+      .map((p): DigestItem => {
+        const failed = p.status === "failed";
+        const topSource = p.citations?.[0];
+        return {
+          promptId: p.id,
+          question: p.question,
+          excerpt:
+            failed && p.error
+              ? p.error.message
+              : excerpt(p.response, ITEM_EXCERPT_LENGTH),
+          ...(failed && { failed }),
+          ...(topSource && { topSource: getCitationDomain(topSource.url) }),
+        };
+      }),
+  })).filter((section) => section.items.length > 0);
+
+  return { day: getDayKey(now), createdAt: now.toISOString(), sections };
+}
+
+const getCategoryName = (categoryId: string) =>
+  CATEGORIES.find((cat) => cat.id === categoryId)?.name ?? categoryId;
+
+/**
+ * 🤖 Résumé du digest par l'IA (undefined en cas d'échec)
+ */
+export async function summarizeDigest(
+  digest: Digest
+): Promise<string | undefined> {
+  const answers = digest.sections
+    .map(
+      (section) =>
+        `## ${getCategoryName(section.categoryId)}\n` +
+        section.items
+          .filter((item) => !item.failed)
+          .map((item) => `- ${item.question} : ${item.excerpt}`)
+          .join("\n")
+    )
+    .join("\n\n");
+
+  const result = await fetchAiResponseWithSources(
+    "Voici les réponses du jour à mes questions planifiées, par " +
+      "catégorie. Résume l'essentiel en 3 à 5 phrases, sans chercher de " +
+      `nouvelles informations.\n\n${answers}`,
+    { timeoutSeconds: SUMMARY_TIMEOUT_SECONDS }
+  );
+  return result.error || !result.response ? undefined : result.response;
+}
+
+/**
+ * 📨 Notification unique du digest : le résumé, sinon le nombre de
+ * réponses par catégorie. Retenue pendant les heures calmes.
+ */
+export function buildDigestNotificationRequest(
+  digest: Digest,
+  prefs: NotificationPrefs,
+  now: Date = new Date()
+): NotificationRequestInput {
+  const count = digest.sections.reduce(
+    (total, section) => total + section.items.length,
+    0
+  );
+  const body = digest.summary
+    ? excerpt(digest.summary, RESULT_EXCERPT_LENGTH)
+    : digest.sections
+        .map(
+          (section) =>
+            `${getCategoryName(section.categoryId)} (${section.items.length})`
+        )
+        .join(" · ");
+
+  return {
+    content: applyNotificationLevel(
+      {
+        title: `🗞️ Digest du jour : ${count} réponse${
+          count > 1 ? "s" : ""
+        }`,
+        body,
+        data: { digestDay: digest.day },
+      },
+      "full"
+    ),
+    trigger: isInQuietHours(prefs.quietHours, now)
+      ? {
+          type: SchedulableTriggerInputTypes.DATE,
+          date: getReleaseDate(prefs.quietHours, now),
+        }
+      : null,
+  };
+}
+
+/**
+ * 🗞️ Digest du jour s'il est prêt et pas encore assemblé
+ *
+ * Résumé par l'IA si demandé (le digest est gardé sans résumé en cas
+ * d'échec). À l'appelant de l'enregistrer et de le notifier.
+ */
+export async function assembleDailyDigest(
+  prompts: Prompt[],
+  settings: DigestSettings,
+  lastDigest: Digest | null,
+  now: Date = new Date()
+): Promise<Digest | null> {
+  if (!settings.enabled || lastDigest?.day === getDayKey(now)) return null;
+
+  const finished = getFinishedDigestPrompts(prompts, settings, now);
+  if (!finished) return null;
+
+  const digest = buildDigest(finished, now);
+  if (!settings.aiSummary) return digest;
+
+  const summary = await summarizeDigest(digest).catch((error) => {
+    console.error("❌ Erreur résumé du digest:", error);
+    return undefined;
+  });
+  return summary ? { ...digest, summary } : digest;
+}
@@ -1,32 +1,38 @@
-import axios from "axios";
-import Constants from "expo-constants";
+import axios, { AxiosError, AxiosHeaders, AxiosResponse } from "axios";
+import {
+  AiProvider,
+  ProviderConfig,
+  GenerationParams,
+  DEFAULT_PROVIDER_CONFIG,
+  getProvider,
+  resolveGeneration,
+} from "./aiProviders";
+import { Citation, citationsFromUrls, getCitationDomain } from "./citations";
 
 /**
- * 🔐 Récupération sécurisée de la clé API Perplexity
+ * 🏷️ Codes d'erreur typés, un par branche de gestion d'erreurs
  *
- * Ordre de priorité pour la récupération :
- * 1. Variable d'environnement depuis app.config.js (recommandé pour Expo)
- * 2. Variable d'environnement système (fallback)
- *
- * Cette approche garantit que la clé API n'est jamais exposée dans le code source
- * et peut être différente selon l'environnement (développement/production).
+ * Permettent aux appelants de distinguer un échec d'une vraie réponse
+ * sans comparer des chaînes de caractères.
  */
-const PERPLEXITY_API_KEY =
-  Constants.expoConfig?.extra?.perplexityApiKey ||
-  process.env.PERPLEXITY_API_KEY;
+export type AiErrorCode =
+  | "missing_api_key" // Clé absente de la configuration
+  | "bad_request" // HTTP 400
+  | "unauthorized" // HTTP 401
+  | "forbidden" // HTTP 403
+  | "rate_limited" // HTTP 429 après toutes les tentatives
+  | "timeout" // Délai d'attente dépassé (requête ou flux inactif)
+  | "server_error" // HTTP 5xx
+  | "empty_response" // Réponse vide ou illisible
+  | "unknown"; // Tout le reste (réseau, exception inattendue...)
 
 /**
- * ✅ Vérification de sécurité au démarrage de l'application
- *
- * Cette vérification permet de détecter immédiatement si la configuration
- * des variables d'environnement est incorrecte, évitant des erreurs plus tard.
+ * ⚠️ Erreur d'exécution : code typé + message lisible pour l'utilisateur
  */
-if (!PERPLEXITY_API_KEY) {
-  console.error("❌ ERREUR CRITIQUE: Clé API Perplexity manquante!");
-  console.error(
-    "📋 Vérifiez que votre fichier .env contient PERPLEXITY_API_KEY"
-  );
-}
+export type AiError = {
+  code: AiErrorCode;
+  message: string;
+};
 
 /**
  * 🔗 Interface TypeScript pour le résultat enrichi avec sources
@@ -34,12 +40,51 @@ if (!PERPLEXITY_API_KEY) {
  * Cette interface structure la réponse de Perplexity en incluant non seulement
  * le texte de réponse, mais aussi les sources web utilisées, formatées pour
  * différents usages (affichage utilisateur, stockage, liens cliquables).
+ * Tous les fournisseurs (voir aiProviders.ts) sont normalisés dans ce format.
  */
 export interface PerplexityResult {
   response: string; // Réponse textuelle principale de l'IA
   sources: string[]; // Array des URLs sources brutes
+  citations: Citation[]; // Sources numérotées [n] avec titre, extrait et date
   sourcesFormatted: string; // Sources formatées pour stockage/affichage
   sourcesDisplay: string; // Sources formatées pour l'utilisateur (noms de domaines)
+  cancelled?: boolean; // Requête interrompue par l'utilisateur (réponse partielle)
+  error?: AiError; // Présent en cas d'échec : `response` est alors vide
+}
+
+/**
+ * ❌ Résultat d'échec normalisé
+ *
+ * Le message n'est plus placé dans `response` : il ne doit pas pouvoir
+ * être affiché ou stocké comme s'il s'agissait d'une vraie réponse.
+ */
+function failedResult(
+  code: AiErrorCode,
+  message: string,
+  sourceLabel: string
+): PerplexityResult {
+  return {
+    response: "",
+    sources: [],
+    citations: [],
+    sourcesFormatted: sourceLabel,
+    sourcesDisplay: sourceLabel,
+    error: { code, message },
+  };
+}
+
+/**
+ * ✋ Résultat d'une requête interrompue avant le moindre texte
+ */
+function cancelledResult(sourceLabel: string): PerplexityResult {
+  return {
+    response: "",
+    sources: [],
+    citations: [],
+    sourcesFormatted: sourceLabel,
+    sourcesDisplay: sourceLabel,
+    cancelled: true,
+  };
 }
 
 /**
@@ -54,10 +99,12 @@ export interface PerplexityResult {
  * - Gestion des paramètres d'URL (?param=value&autre=valeur)
  * - Support des ancres (#section)
  * - Déduplication automatique des URLs identiques
- * - Limitation à 5 sources maximum pour éviter l'encombrement
+ *
+ * Utilisée en fallback quand le fournisseur ne renvoie pas de citations
+ * structurées (OpenAI, Ollama, anciennes réponses Perplexity).
  *
  * @param text - Texte de la réponse contenant potentiellement des URLs
- * @returns Array des URLs uniques trouvées (maximum 5)
+ * @returns Array des URLs uniques trouvées
  */
 function extractSources(text: string): string[] {
   /**
@@ -80,11 +127,9 @@ function extractSources(text: string): string[] {
    * 1. Array.from() avec matchAll() capture toutes les correspondances
    * 2. map() extrait uniquement l'URL complète (match[0])
    * 3. filter() supprime les doublons en comparant les indices
-   * 4. slice(0, 5) limite à 5 sources maximum
    */
   const sources = Array.from(text.matchAll(urlRegex), (match) => match[0])
-    .filter((url, index, array) => array.indexOf(url) === index) // Suppression des doublons
-    .slice(0, 5); // Limitation à 5 sources pour éviter l'encombrement de l'interface
+    .filter((url, index, array) => array.indexOf(url) === index); // Suppression des doublons
 
   return sources;
 }
@@ -93,7 +138,7 @@ function extractSources(text: string): string[] {
  * 🔗 Fonction de formatage des sources selon le contexte d'utilisation
  *
  * Cette fonction adapte l'affichage des sources selon leur nombre :
- * - Aucune source : "Perplexity" (source par défaut)
+ * - Aucune source : nom du fournisseur (source par défaut)
  * - Une source : URL complète (permet les liens cliquables)
  * - Plusieurs sources : Toutes les URLs séparées par des virgules
  *
@@ -101,11 +146,12 @@ function extractSources(text: string): string[] {
  * dans l'interface utilisateur.
  *
  * @param sources - Array des URLs sources extraites
+ * @param fallbackLabel - Source affichée quand aucune URL n'est trouvée
  * @returns String formatée pour l'affichage ou le stockage
  */
-function formatSources(sources: string[]): string {
+function formatSources(sources: string[], fallbackLabel: string): string {
   // Cas 1 : Aucune source détectée
-  if (sources.length === 0) return "Perplexity";
+  if (sources.length === 0) return fallbackLabel;
 
   // Cas 2 : Une seule source - retour de l'URL complète pour lien cliquable
   if (sources.length === 1) return sources[0];
@@ -114,84 +160,53 @@ function formatSources(sources: string[]): string {
   return sources.join(", ");
 }
 
-/**
- * 🏷️ Fonction d'extraction du nom de domaine pour affichage utilisateur
- *
- * Cette fonction simplifie les URLs complètes en noms de domaines lisibles
- * pour un affichage plus propre dans l'interface utilisateur.
- *
- * Exemples de transformation :
- * - "https://www.lemonde.fr/article/123" → "lemonde.fr"
- * - "https://franceinfo.fr/sport/esport" → "franceinfo.fr"
- * - URL malformée → "URL tronquée..."
- *
- * @param url - URL complète à traiter
- * @returns Nom de domaine simplifié ou URL tronquée en cas d'erreur
- */
-function getDomainName(url: string): string {
-  try {
-    // Utilisation de l'API native URL pour parser l'URL de manière fiable
-    const domain = new URL(url).hostname.replace("www.", "");
-    return domain;
-  } catch {
-    /**
-     * Fallback sécurisé en cas d'URL malformée :
-     * - Tronque l'URL à 30 caractères maximum
-     * - Ajoute "..." pour indiquer la troncature
-     * - Évite les crashs de l'application
-     */
-    return url.substring(0, 30) + "...";
-  }
-}
-
 /**
  * ⏰ Fonction utilitaire de délai avec Promise
  * @param ms - Délai en millisecondes
+ * @param signal - Écourte l'attente en cas d'annulation
  */
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done);
+  });
 }
 
-/**
- * 🚦 Variable globale pour espacer les requêtes et éviter le rate limiting
- */
-let lastRequestTime = 0;
-const MIN_REQUEST_INTERVAL = 2000; // 2 secondes entre les requêtes
-
 /**
  * 🔄 Système de retry avec backoff exponentiel et gestion spéciale 429
  *
  * Implémente une stratégie de retry intelligente avec gestion spéciale des erreurs 429 :
- * - Tentative 1 : immédiate (avec délai minimum)
+ * - Tentative 1 : immédiate (la concurrence est limitée par la file
+ *   d'exécution, voir jobQueue.ts)
  * - Tentative 2 : après 2 secondes (standard) ou 10s (si 429)
  * - Tentative 3 : après 4 secondes (standard) ou 30s (si 429)
  * - Tentative 4 : après 8 secondes (standard) ou 60s (si 429)
  *
+ * Une annulation (bouton "stop" ou délai maximal du prompt) arrête la
+ * série, y compris pendant l'attente entre deux tentatives : la dernière
+ * erreur est alors relancée.
+ *
  * @param operation - Fonction async à exécuter avec retry
  * @param maxRetries - Nombre maximum de tentatives (défaut: 3)
  * @param baseDelay - Délai de base en ms (défaut: 2000)
+ * @param signal - Signal d'annulation de toute la série
  */
 async function withRetry<T>(
   operation: () => Promise<T>,
   maxRetries: number = 3,
-  baseDelay: number = 2000
+  baseDelay: number = 2000,
+  signal?: AbortSignal
 ): Promise<T> {
   let lastError: Error;
 
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
-      // ✅ NOUVEAU : Respecter l'intervalle minimum entre requêtes
-      const timeSinceLastRequest = Date.now() - lastRequestTime;
-      if (timeSinceLastRequest < MIN_REQUEST_INTERVAL) {
-        const waitTime = MIN_REQUEST_INTERVAL - timeSinceLastRequest;
-        console.log(
-          `⏳ Attente de ${waitTime}ms pour respecter le rate limiting...`
-        );
-        await delay(waitTime);
-      }
-
       console.log(`🔄 Tentative ${attempt}/${maxRetries}`);
-      lastRequestTime = Date.now(); // ✅ Marquer le timestamp de la requête
 
       const result = await operation();
 
@@ -203,6 +218,9 @@ async function withRetry<T>(
     } catch (error: any) {
       lastError = error;
 
+      // Requête annulée : pas de nouvelle tentative
+      if (signal?.aborted) throw error;
+
       // Ne pas retry sur certaines erreurs définitives
       if (error.response?.status === 401 || error.response?.status === 403) {
         console.log(
@@ -236,7 +254,11 @@ async function withRetry<T>(
         );
       }
 
-      await delay(delayMs);
+      await delay(delayMs, signal);
+      if (signal?.aborted) {
+        console.log("✋ Annulation pendant l'attente, pas de nouvelle tentative");
+        throw lastError;
+      }
     }
   }
 
@@ -244,51 +266,274 @@ async function withRetry<T>(
 }
 
 /**
- * 🤖 Fonction principale d'envoi de prompts à Perplexity avec extraction de sources
+ * 🌊 Intervalle minimal entre deux notifications de texte partiel
+ *
+ * Évite de re-rendre le feed à chaque token reçu.
+ */
+const STREAM_UPDATE_INTERVAL = 100;
+
+/**
+ * ⏱️ Délai d'inactivité maximal pendant un flux
+ *
+ * Contrairement au timeout axios (durée totale), ce délai est réarmé à
+ * chaque morceau reçu : une longue réponse qui arrive en continu n'est
+ * jamais coupée.
+ */
+const STREAM_IDLE_TIMEOUT = 30000;
+
+/**
+ * 🌊 Requête en streaming (SSE ou NDJSON selon le fournisseur)
+ *
+ * Le `fetch` de React Native n'expose pas le corps de réponse en flux :
+ * on passe donc par XMLHttpRequest, dont `responseText` grandit à chaque
+ * événement de progression. Les lignes complètes sont confiées au
+ * fournisseur (parseStreamLine), la dernière ligne incomplète est gardée
+ * en tampon jusqu'au morceau suivant.
+ *
+ * Les erreurs HTTP sont converties en AxiosError pour que withRetry et la
+ * gestion d'erreurs existante les traitent exactement comme en mode classique.
+ * Un abort via `signal` résout la promesse avec le texte déjà reçu.
+ */
+function streamCompletion(
+  provider: AiProvider,
+  url: string,
+  body: Record<string, unknown>,
+  headers: Record<string, string>,
+  onPartial: (text: string) => void,
+  signal?: AbortSignal
+): Promise<{ text: string; citations: Citation[]; cancelled: boolean }> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      resolve({ text: "", citations: [], cancelled: true });
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    let text = "";
+    let citations: Citation[] = [];
+    let buffer = "";
+    let processedLength = 0;
+    let lastEmit = 0;
+    let settled = false;
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const finish = (callback: () => void) => {
+      if (settled) return;
+      settled = true;
+      if (idleTimer) clearTimeout(idleTimer);
+      signal?.removeEventListener("abort", handleAbort);
+      callback();
+    };
+
+    const armIdleTimer = () => {
+      if (idleTimer) clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => {
+        xhr.abort();
+        finish(() =>
+          reject(new AxiosError("Stream timeout", AxiosError.ECONNABORTED))
+        );
+      }, STREAM_IDLE_TIMEOUT);
+    };
+
+    const handleLine = (line: string) => {
+      const chunk = provider.parseStreamLine(line);
+      if (chunk?.delta) text += chunk.delta;
+      if (chunk?.citations) citations = chunk.citations;
+    };
+
+    const consume = (final: boolean) => {
+      const fresh = xhr.responseText.slice(processedLength);
+      processedLength = xhr.responseText.length;
+      buffer += fresh;
+
+      const lines = buffer.split("\n");
+      buffer = final ? "" : lines.pop() ?? "";
+      lines.forEach(handleLine);
+
+      const now = Date.now();
+      if (final || now - lastEmit >= STREAM_UPDATE_INTERVAL) {
+        lastEmit = now;
+        onPartial(text);
+      }
+    };
+
+    function handleAbort() {
+      xhr.abort();
+      finish(() => resolve({ text, citations, cancelled: true }));
+    }
+
+    xhr.open("POST", url);
+    Object.entries(headers).forEach(([key, value]) =>
+      xhr.setRequestHeader(key, value)
+    );
+    xhr.setRequestHeader("Accept", "text/event-stream");
+
+    xhr.onreadystatechange = () => {
+      if (settled) return;
+
+      if (xhr.readyState === XMLHttpRequest.LOADING && xhr.status < 400) {
+        armIdleTimer();
+        consume(false);
+      }
+
+      if (xhr.readyState === XMLHttpRequest.DONE) {
+        if (xhr.status >= 200 && xhr.status < 400) {
+          consume(true);
+          finish(() => resolve({ text, citations, cancelled: false }));
+          return;
+        }
+
+        // Statut 0 = erreur réseau ; sinon erreur HTTP avec corps éventuel
+        let data: unknown = xhr.responseText;
+        try {
+          data = JSON.parse(xhr.responseText);
+        } catch {
+          // Corps non JSON : conservé tel quel pour le diagnostic
+        }
+        const response: AxiosResponse | undefined =
+          xhr.status > 0
+            ? {
+                status: xhr.status,
+                statusText: "",
+                data,
+                headers: {},
+                config: { headers: new AxiosHeaders() },
+              }
+            : undefined;
+        finish(() =>
+          reject(
+            new AxiosError(
+              `Stream failed with status ${xhr.status}`,
+              xhr.status > 0
+                ? AxiosError.ERR_BAD_RESPONSE
+                : AxiosError.ERR_NETWORK,
+              undefined,
+              xhr,
+              response
+            )
+          )
+        );
+      }
+    };
+
+    signal?.addEventListener("abort", handleAbort);
+    armIdleTimer();
+    xhr.send(JSON.stringify(body));
+  });
+}
+
+/**
+ * 🎛️ Options d'appel de fetchAiResponseWithSources
+ *
+ * Toutes les options sont facultatives : sans configuration, l'appel
+ * part vers Perplexity avec le modèle "sonar", comme auparavant.
+ */
+export type FetchAiOptions = {
+  provider?: ProviderConfig; // Backend ciblé par le prompt
+  generation?: GenerationParams; // Modèle, temperature, max tokens, top_p
+  systemPrompt?: string; // Instructions de la persona choisie
+  onPartial?: (text: string) => void; // Active le streaming : texte cumulé reçu
+  signal?: AbortSignal; // Bouton "stop" : interrompt en gardant le texte reçu
+  timeoutSeconds?: number; // Durée maximale de l'appel, nouvelles tentatives comprises
+};
+
+/**
+ * ⏱️ Durées maximales proposées par prompt, en secondes
+ *
+ * Sans durée choisie, seuls les délais par tentative s'appliquent (30 s
+ * par requête, inactivité du flux) : avec les attentes d'un 429, un appel
+ * peut alors durer près de deux minutes.
+ */
+export const REQUEST_TIMEOUT_OPTIONS = [15, 30, 60, 120];
+
+/**
+ * 📝 Prompt système par défaut
+ *
+ * Volontairement concis pour éviter les erreurs 400 liées aux
+ * prompts système trop longs. Conserve les fonctionnalités essentielles :
+ * - Réponses en français
+ * - Inclusion des sources web quand possible
+ */
+export const DEFAULT_SYSTEM_PROMPT =
+  "Tu es un assistant IA français. Réponds toujours en français et inclus les sources web dans tes réponses quand possible.";
+
+/**
+ * 🤖 Fonction principale d'envoi de prompts à l'IA avec extraction de sources
  *
- * Cette fonction est le cœur du système d'interaction avec l'API Perplexity.
+ * Cette fonction est le cœur du système d'interaction avec les fournisseurs IA
+ * (Perplexity, endpoints compatibles OpenAI, serveur local Ollama).
  * Elle gère l'ensemble du processus depuis l'envoi de la requête jusqu'au
  * formatage des sources, en passant par la gestion d'erreurs complète.
  *
  * Fonctionnalités principales :
- * ✅ Envoi sécurisé vers l'API Perplexity avec authentification
- * ✅ Utilisation du modèle "sonar" (stable et performant en 2025)
+ * ✅ Fournisseur choisi par prompt via `options.provider` (Perplexity par défaut)
+ * ✅ Envoi sécurisé avec authentification Bearer quand le fournisseur l'exige
  * ✅ Extraction automatique des sources web depuis la réponse
  * ✅ Formatage intelligent des sources pour différents usages
  * ✅ Gestion d'erreurs robuste avec messages utilisateur informatifs
  * ✅ Logging détaillé pour faciliter le debugging
- * ✅ NOUVEAU : Système de retry automatique avec backoff exponentiel
+ * ✅ Système de retry automatique avec backoff exponentiel
  *
  * Optimisations appliquées :
- * - Modèle "sonar" : Modèle par défaut stable de Perplexity (remplace les anciens modèles retirés)
  * - Prompt système concis : Évite les erreurs 400 liées aux prompts trop longs
- * - Paramètres équilibrés : Temperature 0.7 pour un bon équilibre créativité/précision
+ * - Paramètres par prompt : `options.generation`, sinon Temperature 0.7 / 1500 tokens
  * - Timeout généreux : 30 secondes pour les requêtes complexes
  * - Retry intelligent : 3 tentatives avec backoff exponentiel pour la robustesse
  *
- * @param prompt - Le texte/question à envoyer à l'IA Perplexity
+ * @param prompt - Le texte/question à envoyer à l'IA
+ * @param options - Fournisseur et paramètres de génération (voir FetchAiOptions)
  * @returns Promise<PerplexityResult> - Objet contenant la réponse et les sources formatées
  */
 export async function fetchAiResponseWithSources(
-  prompt: string
+  prompt: string,
+  options: FetchAiOptions = {}
 ): Promise<PerplexityResult> {
+  const providerConfig = options.provider ?? DEFAULT_PROVIDER_CONFIG;
+  const provider = getProvider(providerConfig);
+  const apiKey = provider.getApiKey(providerConfig);
+  const generation = resolveGeneration(provider, options.generation);
+
   /**
    * 🔐 Vérification de sécurité préalable
    *
    * Cette vérification évite d'envoyer des requêtes sans authentification,
    * ce qui économise des appels API inutiles et fournit un message d'erreur clair.
    */
-  if (!PERPLEXITY_API_KEY) {
-    console.error("❌ Tentative d'appel API sans clé d'authentification");
-    return {
-      response:
-        "🔐 Erreur de configuration : Clé API manquante. Vérifiez votre fichier .env",
-      sources: [],
-      sourcesFormatted: "Erreur",
-      sourcesDisplay: "Erreur",
-    };
+  if (provider.requiresApiKey && !apiKey) {
+    console.error(
+      `❌ Tentative d'appel ${provider.label} sans clé d'authentification`
+    );
+    return failedResult(
+      "missing_api_key",
+      "🔐 Erreur de configuration : Clé API manquante. Vérifiez votre fichier .env",
+      "Erreur"
+    );
   }
 
+  /**
+   * ✋ Annulation commune à toute la chaîne (tentatives, attentes, flux) :
+   * signal de l'appelant ou durée maximale du prompt
+   */
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  if (options.signal?.aborted) abort();
+  options.signal?.addEventListener("abort", abort);
+
+  let timedOut = false;
+  const deadline = options.timeoutSeconds
+    ? setTimeout(() => {
+        timedOut = true;
+        abort();
+      }, options.timeoutSeconds * 1000)
+    : undefined;
+
+  const timeoutResult = () =>
+    failedResult(
+      "timeout",
+      `⏱️ Délai maximal de ${options.timeoutSeconds} s dépassé. Réessayez ou augmentez le délai du prompt.`,
+      "Timeout"
+    );
+
   try {
     /**
      * 📊 Logging informatif pour le développement et le debugging
@@ -297,80 +542,109 @@ export async function fetchAiResponseWithSources(
      * et d'identifier d'éventuels problèmes de performance.
      */
     console.log("→ Traitement du prompt:", prompt.substring(0, 50) + "...");
-    console.log("🤖 Envoi vers Perplexity avec le modèle optimisé 2025...");
+    console.log(
+      `🤖 Envoi vers ${provider.label} (modèle ${generation.model})...`
+    );
 
     /**
-     * 📡 Configuration et envoi de la requête API vers Perplexity avec retry automatique
+     * 📡 Construction et envoi de la requête avec retry automatique
+     *
+     * Le corps est construit par le fournisseur (format `/chat/completions`
+     * ou format Ollama), la couche retry reste commune.
      */
-    const response = await withRetry(
-      async () => {
-        console.log(`🚀 Appel API Perplexity...`);
-
-        return await axios.post(
-          "https://api.perplexity.ai/chat/completions", // URL officielle de l'API Perplexity
-          {
-            /**
-             * 🎯 Configuration du modèle et des paramètres
-             */
-            model: "sonar", // Modèle par défaut stable et performant (2025)
-
-            /**
-             * 💬 Structure des messages pour l'IA
-             *
-             * Le format suit la convention OpenAI/ChatGPT :
-             * - "system" : Instructions pour configurer le comportement de l'IA
-             * - "user" : Le prompt/question de l'utilisateur
-             */
-            messages: [
-              {
-                role: "system",
-                /**
-                 * 📝 Prompt système optimisé
-                 *
-                 * Volontairement concis pour éviter les erreurs 400 liées aux
-                 * prompts système trop longs. Conserve les fonctionnalités essentielles :
-                 * - Réponses en français
-                 * - Inclusion des sources web quand possible
-                 */
-                content:
-                  "Tu es un assistant IA français. Réponds toujours en français et inclus les sources web dans tes réponses quand possible.",
-              },
-              {
-                role: "user",
-                content: prompt, // Question/demande de l'utilisateur
-              },
-            ],
-
-            /**
-             * ⚙️ Paramètres de génération optimisés
-             */
-            temperature: 0.7, // Équilibre entre créativité (1.0) et précision (0.0)
-            max_tokens: 1500, // Limite généreuse pour des réponses détaillées
-            stream: false, // Mode synchrone pour simplicité (pas de streaming)
-          },
-          {
-            /**
-             * 🔑 Configuration des headers et options de requête
-             */
-            headers: {
-              Authorization: `Bearer ${PERPLEXITY_API_KEY}`, // Authentification Bearer
-              "Content-Type": "application/json", // Format de données JSON
-            },
+    const isStreaming = !!options.onPartial;
+    const body = provider.buildBody({
+      ...generation,
+      stream: isStreaming,
+      messages: [
+        {
+          role: "system",
+          content: options.systemPrompt?.trim() || DEFAULT_SYSTEM_PROMPT,
+        },
+        { role: "user", content: prompt }, // Question/demande de l'utilisateur
+      ],
+    });
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json", // Format de données JSON
+    };
+    if (apiKey) {
+      headers.Authorization = `Bearer ${apiKey}`; // Authentification Bearer
+    }
+
+    let aiResponse: string;
+    let apiCitations: Citation[] = [];
+    let cancelled = false;
+
+    if (isStreaming) {
+      /**
+       * 🌊 Mode streaming : texte partiel remonté via onPartial
+       *
+       * Une nouvelle tentative repart de zéro : onPartial reçoit toujours
+       * le texte cumulé, l'affichage est donc simplement remplacé.
+       */
+      const streamed = await withRetry(
+        async () => {
+          console.log(`🌊 Appel API ${provider.label} en streaming...`);
+
+          return await streamCompletion(
+            provider,
+            provider.getEndpoint(providerConfig),
+            body,
+            headers,
+            options.onPartial!,
+            controller.signal
+          );
+        },
+        3,
+        1000,
+        controller.signal
+      );
+      aiResponse = streamed.text.trim();
+      apiCitations = streamed.citations;
+      cancelled = streamed.cancelled;
+    } else {
+      const response = await withRetry(
+        async () => {
+          console.log(`🚀 Appel API ${provider.label}...`);
+
+          return await axios.post(provider.getEndpoint(providerConfig), body, {
+            headers,
             timeout: 30000, // Timeout de 30 secondes pour les requêtes complexes
-          }
-        );
-      },
-      3,
-      1000
-    ); // 3 tentatives max, délai de base 1s
+            signal: controller.signal,
+          });
+        },
+        3,
+        1000,
+        controller.signal
+      ); // 3 tentatives max, délai de base 1s
+
+      /**
+       * 📝 Extraction et validation de la réponse de l'API
+       *
+       * Chaque fournisseur sait lire son propre format de réponse.
+       */
+      const parsed = provider.parseResponse(response.data);
+      aiResponse = parsed.text;
+      apiCitations = parsed.citations ?? [];
+    }
 
     /**
-     * 📝 Extraction et validation de la réponse de l'API
-     *
-     * La réponse suit le format standard OpenAI :
-     * response.data.choices[0].message.content contient le texte généré
+     * ⏱️ Durée maximale atteinte pendant le flux : le texte partiel n'est
+     * pas une réponse complète
      */
-    const aiResponse = response.data.choices[0]?.message?.content?.trim();
+    if (timedOut) {
+      console.log(`⏱️ Délai maximal dépassé pour ${provider.label}`);
+      return timeoutResult();
+    }
+
+    /**
+     * ✋ Interruption par l'utilisateur avant le moindre texte
+     */
+    if (cancelled && !aiResponse) {
+      console.log(`✋ Requête ${provider.label} interrompue sans contenu`);
+      return cancelledResult(provider.label);
+    }
 
     /**
      * ⚠️ Vérification de la validité de la réponse
@@ -378,29 +652,34 @@ export async function fetchAiResponseWithSources(
      * Gestion du cas où l'API retourne une réponse vide ou malformée.
      */
     if (!aiResponse) {
-      console.error("❌ Réponse vide de Perplexity");
-      return {
-        response: "Désolé, je n'ai pas pu générer une réponse.",
-        sources: [],
-        sourcesFormatted: "Perplexity",
-        sourcesDisplay: "Perplexity",
-      };
+      console.error(`❌ Réponse vide de ${provider.label}`);
+      return failedResult(
+        "empty_response",
+        "Désolé, je n'ai pas pu générer une réponse.",
+        provider.label
+      );
     }
 
     /**
      * 🔍 Extraction et formatage intelligent des sources web
      *
      * Processus en trois étapes :
-     * 1. extractSources() : Trouve toutes les URLs dans la réponse
+     * 1. Citations structurées de l'API si présentes, sinon extractSources()
+     *    trouve les URLs dans la réponse (numérotées dans leur ordre)
      * 2. formatSources() : Formate les URLs pour le stockage/liens
-     * 3. getDomainName() : Simplifie pour l'affichage utilisateur
+     *    (chaîne séparée par des virgules, format historique de `source`)
+     * 3. getCitationDomain() : Simplifie pour l'affichage utilisateur
      */
-    const sources = extractSources(aiResponse);
-    const sourcesFormatted = formatSources(sources);
+    const citations =
+      apiCitations.length > 0
+        ? apiCitations
+        : citationsFromUrls(extractSources(aiResponse));
+    const sources = citations.map((citation) => citation.url);
+    const sourcesFormatted = formatSources(sources, provider.label);
     const sourcesDisplay =
       sources.length > 0
-        ? sources.map((url) => getDomainName(url)).join(", ") // "lemonde.fr, franceinfo.fr"
-        : "Perplexity"; // Fallback si aucune source détectée
+        ? sources.map((url) => getCitationDomain(url)).join(", ") // "lemonde.fr, franceinfo.fr"
+        : provider.label; // Fallback si aucune source détectée
 
     /**
      * ✅ Logging de succès avec informations utiles
@@ -408,7 +687,7 @@ export async function fetchAiResponseWithSources(
      * Ces logs confirment le bon fonctionnement et donnent des métriques
      * sur le nombre de sources trouvées.
      */
-    console.log("✅ Réponse Perplexity reçue avec succès");
+    console.log(`✅ Réponse ${provider.label} reçue avec succès`);
     console.log("🔗 Sources extraites:", sources.length);
     if (sources.length > 0) {
       // Log des 3 premières sources pour éviter le spam dans la console
@@ -424,10 +703,25 @@ export async function fetchAiResponseWithSources(
     return {
       response: aiResponse, // Texte de réponse principal
       sources, // Array des URLs brutes
+      citations, // Sources numérotées pour les marqueurs [n]
       sourcesFormatted, // URLs formatées pour stockage
       sourcesDisplay, // Noms de domaines pour affichage
+      ...(cancelled && { cancelled }), // Réponse partielle conservée après "stop"
     };
   } catch (error: any) {
+    /**
+     * ✋ Annulation pendant une requête classique ou entre deux tentatives :
+     * le texte d'une tentative échouée n'est pas conservé
+     */
+    if (timedOut) {
+      console.log(`⏱️ Délai maximal dépassé pour ${provider.label}`);
+      return timeoutResult();
+    }
+    if (controller.signal.aborted) {
+      console.log(`✋ Requête ${provider.label} annulée`);
+      return cancelledResult(provider.label);
+    }
+
     /**
      * 🛠️ Gestion d'erreurs robuste et informative
      *
@@ -435,7 +729,7 @@ export async function fetchAiResponseWithSources(
      * messages utilisateur appropriés et un logging détaillé pour le debugging.
      */
     console.error(
-      "❌ Erreur lors de l'appel Perplexity:",
+      `❌ Erreur lors de l'appel ${provider.label}:`,
       error.response?.data || error.message
     );
 
@@ -470,67 +764,56 @@ export async function fetchAiResponseWithSources(
 
       // Erreur 400 : Requête malformée
       if (status === 400) {
-        return {
-          response:
-            "🔧 Erreur de requête (400). Le format de la demande n'est pas valide. Veuillez réessayer avec un prompt différent.",
-          sources: [],
-          sourcesFormatted: "Erreur de format",
-          sourcesDisplay: "Erreur de format",
-        };
+        return failedResult(
+          "bad_request",
+          "🔧 Erreur de requête (400). Le format de la demande n'est pas valide. Veuillez réessayer avec un prompt différent.",
+          "Erreur de format"
+        );
       }
 
       // Erreur 401 : Authentification échouée
       if (status === 401) {
-        return {
-          response:
-            "🔐 Problème d'authentification. Vérifiez votre clé API Perplexity et vos crédits disponibles.",
-          sources: [],
-          sourcesFormatted: "Erreur d'authentification",
-          sourcesDisplay: "Erreur d'authentification",
-        };
+        return failedResult(
+          "unauthorized",
+          `🔐 Problème d'authentification. Vérifiez votre clé API ${provider.label} et vos crédits disponibles.`,
+          "Erreur d'authentification"
+        );
       }
 
       // Erreur 403 : Accès interdit
       if (status === 403) {
-        return {
-          response:
-            "🚫 Accès refusé. Votre plan Perplexity ne permet peut-être pas d'utiliser cette fonctionnalité.",
-          sources: [],
-          sourcesFormatted: "Accès refusé",
-          sourcesDisplay: "Accès refusé",
-        };
+        return failedResult(
+          "forbidden",
+          `🚫 Accès refusé. Votre plan ${provider.label} ne permet peut-être pas d'utiliser cette fonctionnalité.`,
+          "Accès refusé"
+        );
       }
 
       // Erreur 429 : Trop de requêtes
       if (status === 429) {
-        return {
-          response: "🚦 Limite de taux Perplexity atteinte. L'application va automatiquement réessayer avec des délais plus longs. Patientez un moment... (Ceci peut prendre 1-2 minutes)",
-          sources: [],
-          sourcesFormatted: "Rate limit",
-          sourcesDisplay: "Rate limit"
-        };
+        return failedResult(
+          "rate_limited",
+          `🚦 Limite de taux ${provider.label} atteinte. L'application va automatiquement réessayer avec des délais plus longs. Patientez un moment... (Ceci peut prendre 1-2 minutes)`,
+          "Rate limit"
+        );
       }
 
       // Erreur de timeout réseau
       if (error.code === "ECONNABORTED") {
-        return {
-          response:
-            "⏱️ Délai d'attente dépassé. Vérifiez votre connexion internet et réessayez.",
-          sources: [],
-          sourcesFormatted: "Timeout",
-          sourcesDisplay: "Timeout",
-        };
+        return failedResult(
+          "timeout",
+          "⏱️ Délai d'attente dépassé. Vérifiez votre connexion internet et réessayez.",
+          "Timeout"
+        );
       }
 
       // Erreurs serveur (5xx)
       if (status && status >= 500) {
-        return {
-          response:
-            "🔧 Problème temporaire du serveur Perplexity. Réessayez dans quelques minutes.",
-          sources: [],
-          sourcesFormatted: "Erreur serveur",
-          sourcesDisplay: "Erreur serveur",
-        };
+        return failedResult(
+          "server_error",
+          `🔧 Problème temporaire du serveur ${provider.label}. Réessayez dans quelques minutes.`,
+          "Erreur serveur"
+        );
       }
     }
 
@@ -540,13 +823,14 @@ export async function fetchAiResponseWithSources(
      * Cette réponse catch-all gère les erreurs inattendues tout en
      * fournissant des instructions utiles à l'utilisateur.
      */
-    return {
-      response:
-        "❌ Une erreur inattendue s'est produite. Vérifiez votre connexion et réessayez dans quelques instants.",
-      sources: [],
-      sourcesFormatted: "Erreur inconnue",
-      sourcesDisplay: "Erreur inconnue",
-    };
+    return failedResult(
+      "unknown",
+      "❌ Une erreur inattendue s'est produite. Vérifiez votre connexion et réessayez dans quelques instants.",
+      "Erreur inconnue"
+    );
+  } finally {
+    if (deadline) clearTimeout(deadline);
+    options.signal?.removeEventListener("abort", abort);
   }
 }
 
@@ -559,12 +843,19 @@ export async function fetchAiResponseWithSources(
  * Utilisée dans les contextes où les métadonnées de sources ne sont pas
  * nécessaires, par exemple pour des tests rapides ou des intégrations simples.
  *
+ * En cas d'échec, le message d'erreur est renvoyé à la place de la réponse,
+ * comme le faisait l'ancienne version.
+ *
  * @param prompt - Question à envoyer à l'IA
+ * @param options - Fournisseur et paramètres de génération (voir FetchAiOptions)
  * @returns Promise<string> - Réponse textuelle uniquement
  */
-export async function fetchAiResponse(prompt: string): Promise<string> {
-  const result = await fetchAiResponseWithSources(prompt);
-  return result.response;
+export async function fetchAiResponse(
+  prompt: string,
+  options?: FetchAiOptions
+): Promise<string> {
+  const result = await fetchAiResponseWithSources(prompt, options);
+  return result.error?.message ?? result.response;
 }
 
 /**
@@ -574,18 +865,18 @@ export async function fetchAiResponse(prompt: string): Promise<string> {
  *
  * Cette implémentation finale offre :
  *
- * ✅ PERFORMANCE :
- *    - Modèle "sonar" stable et rapide (2025)
- *    - Paramètres optimisés pour équilibrer rapidité et qualité
- *    - Timeout généreux pour les requêtes complexes
+ * ✅ FOURNISSEURS :
+ *    - Perplexity par défaut, endpoints compatibles OpenAI, Ollama local
+ *    - Modèle et paramètres de génération choisis par prompt
+ *    - Streaming optionnel, bouton "stop" et durée maximale par prompt
  *
  * ✅ FIABILITÉ RENFORCÉE :
  *    - Gestion d'erreurs complète avec messages utilisateur clairs
  *    - Fallbacks automatiques pour tous les cas d'échec
  *    - Validation robuste des réponses API
- *    - ✅ NOUVEAU : Système de retry automatique avec backoff exponentiel
- *    - ✅ NOUVEAU : Pas de retry sur erreurs définitives (401, 403)
- *    - ✅ NOUVEAU : Délais intelligents entre tentatives (1s, 2s, 4s)
+ *    - Système de retry automatique avec backoff exponentiel
+ *    - Pas de retry sur erreurs définitives (401, 403)
+ *    - Attentes allongées après un 429 (10s, puis 30s)
  *
  * ✅ SÉCURITÉ :
  *    - Variables d'environnement protégées
@@ -598,10 +889,10 @@ export async function fetchAiResponse(prompt: string): Promise<string> {
  *    - Logging détaillé pour faciliter le debugging
  *
  * ✅ FONCTIONNALITÉS AVANCÉES :
- *    - Extraction automatique des sources web
+ *    - Citations structurées de l'API (titre, extrait, date), sinon
+ *      extraction des URLs du texte
  *    - Formatage intelligent pour différents usages
- *    - Support complet des URLs modernes
- *    - ✅ NOUVEAU : Robustesse face aux connexions instables
+ *    - Robustesse face aux connexions instables
  *
  * ===== EXEMPLES D'UTILISATION =====
  *
@@ -614,6 +905,11 @@ export async function fetchAiResponse(prompt: string): Promise<string> {
  * console.log("Réponse:", result.response);
  * console.log("Sources lisibles:", result.sourcesDisplay); // "lemonde.fr, jeuxvideo.com"
  * console.log("URLs complètes:", result.sourcesFormatted); // Pour liens cliquables
+ * console.log("Citation [1]:", result.citations[0]?.title); // Titre, extrait, date
+ *
+ * if (result.error) {
+ *   console.log(result.error.code); // "rate_limited", "timeout"...
+ * }
  * ```
  *
  * 2. UTILISATION DANS LE CONTEXT PROMPT :
@@ -627,12 +923,24 @@ export async function fetchAiResponse(prompt: string): Promise<string> {
  *   question,
  *   response: result.response,
  *   source: result.sourcesFormatted, // URLs complètes pour liens cliquables
+ *   citations: result.citations, // Marqueurs [n] cliquables dans Cards
+ *   status: result.error ? "failed" : "succeeded",
+ *   error: result.error, // Jamais stocké dans `response`
  *   updatedAt: now,
  *   scheduled: isScheduled ? scheduleConfig : undefined
  * };
  * ```
  *
- * 3. UTILISATION SIMPLE (COMPATIBILITÉ) :
+ * 3. CIBLER UN AUTRE FOURNISSEUR :
+ *
+ * ```typescript
+ * const result = await fetchAiResponseWithSources(question, {
+ *   provider: { type: "ollama", baseUrl: "http://192.168.1.20:11434" },
+ * });
+ * // Même format PerplexityResult, quel que soit le backend
+ * ```
+ *
+ * 4. UTILISATION SIMPLE (COMPATIBILITÉ) :
  *
  * ```typescript
  * const response = await fetchAiResponse("Question simple");
@@ -642,11 +950,11 @@ export async function fetchAiResponse(prompt: string): Promise<string> {
  *
  * ===== STRATÉGIE DE RETRY =====
  *
- * 🔄 TENTATIVES AUTOMATIQUES :
+ * 🔄 TENTATIVES AUTOMATIQUES (3 au maximum) :
  *    - Tentative 1 : immédiate
- *    - Tentative 2 : après 1 seconde
- *    - Tentative 3 : après 2 secondes
- *    - Tentative 4 : après 4 secondes (si activée)
+ *    - Tentative 2 : après 1 seconde (10 secondes après un 429)
+ *    - Tentative 3 : après 2 secondes (30 secondes après un 429)
+ *    - Une annulation ou la durée maximale du prompt arrête la série
  *
  * 🚫 PAS DE RETRY POUR :
  *    - Erreurs 401 (authentification) - définitive
@@ -677,5 +985,5 @@ export async function fetchAiResponse(prompt: string): Promise<string> {
  *
  * Cette version avec retry est maintenant **PRÊTE POUR LA PRODUCTION**
  * et garantit une expérience utilisateur robuste même dans des conditions
- * réseau difficiles ou lors de surcharges temporaires du serveur Perplexity.
+ * réseau difficiles ou lors de surcharges temporaires du fournisseur.
  */
@@ -0,0 +1,112 @@
+/**
+ * 📬 File d'exécution des prompts
+ *
+ * Toutes les exécutions passent par cette file : questions saisies par
+ * l'utilisateur, occurrences planifiées et nouvelles tentatives. Les
+ * questions passent en premier ; à priorité égale, l'ordre d'arrivée est
+ * respecté. Le nombre d'exécutions simultanées est limité par les
+ * réglages, ce qui remplace l'espacement fixe entre requêtes.
+ *
+ * Fonctions pures : PromptContext et la tâche d'arrière-plan gèrent
+ * l'exécution et la persistance (clé AsyncStorage dédiée).
+ */
+
+export type JobKind = "question" | "scheduled" | "retry";
+
+/**
+ * 📌 Une exécution en attente ou en cours
+ */
+export type Job = {
+  id: string;
+  promptId: string;
+  kind: JobKind;
+  enqueuedAt: string; // ISO
+  status: "queued" | "running";
+  startedAt?: string; // ISO, si status === "running"
+};
+
+/**
+ * 🥇 Priorité par type (plus petit = plus prioritaire)
+ */
+export const JOB_PRIORITY: Record<JobKind, number> = {
+  question: 0,
+  scheduled: 1,
+  retry: 2,
+};
+
+export const JOB_KIND_LABELS: Record<JobKind, string> = {
+  question: "Question",
+  scheduled: "Planifié",
+  retry: "Nouvel essai",
+};
+
+export const DEFAULT_CONCURRENCY = 2;
+
+export const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+export function createJob(promptId: string, kind: JobKind): Job {
+  return {
+    id: `${promptId}-${kind}-${Date.now()}`,
+    promptId,
+    kind,
+    enqueuedAt: new Date().toISOString(),
+    status: "queued",
+  };
+}
+
+/**
+ * 🔍 Le prompt a-t-il déjà une exécution en attente ou en cours ?
+ */
+export const hasJobFor = (queue: Job[], promptId: string) =>
+  queue.some((job) => job.promptId === promptId);
+
+/**
+ * ↕️ Ordre d'exécution : en cours d'abord, puis priorité, puis arrivée
+ */
+export function sortQueue(queue: Job[]): Job[] {
+  return [...queue].sort(
+    (a, b) =>
+      (a.status === "running" ? 0 : 1) - (b.status === "running" ? 0 : 1) ||
+      JOB_PRIORITY[a.kind] - JOB_PRIORITY[b.kind] ||
+      a.enqueuedAt.localeCompare(b.enqueuedAt)
+  );
+}
+
+/**
+ * ➕ Ajout d'une exécution (ignoré si le prompt en a déjà une)
+ */
+export function enqueueJob(queue: Job[], job: Job): Job[] {
+  return hasJobFor(queue, job.promptId) ? queue : sortQueue([...queue, job]);
+}
+
+/**
+ * 🚦 Exécutions à démarrer sans dépasser la limite de concurrence
+ */
+export function nextJobs(queue: Job[], concurrency: number): Job[] {
+  const running = queue.filter((job) => job.status === "running").length;
+  const slots = Math.max(0, concurrency - running);
+  return sortQueue(queue)
+    .filter((job) => job.status === "queued")
+    .slice(0, slots);
+}
+
+export function markRunning(queue: Job[], jobIds: string[]): Job[] {
+  const startedAt = new Date().toISOString();
+  return queue.map((job) =>
+    jobIds.includes(job.id) ? { ...job, status: "running", startedAt } : job
+  );
+}
+
+export function removeJob(queue: Job[], jobId: string): Job[] {
+  return queue.filter((job) => job.id !== jobId);
+}
+
+/**
+ * 🔄 File relue au lancement : une exécution "en cours" a été
+ * interrompue par la fermeture de l'app, elle repart en attente
+ */
+export function restoreQueue(queue: Job[]): Job[] {
+  return sortQueue(
+    queue.map(({ startedAt, ...job }) => ({ ...job, status: "queued" }))
+  );
+}
@@ -0,0 +1,39 @@
+/**
+ * 📝 Texte brut à partir d'une réponse Markdown
+ *
+ * Les notifications n'affichent pas le Markdown : titres, emphases, liens
+ * et marqueurs de sources [n] sont retirés avant d'en extraire un aperçu.
+ */
+
+/**
+ * 🧹 Retrait de la mise en forme Markdown
+ */
+export function stripMarkdown(text: string): string {
+  return text
+    .replace(/```[\s\S]*?```/g, " ") // Blocs de code
+    .replace(/`([^`]*)`/g, "$1") // Code en ligne
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, " ") // Images
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1") // Liens : texte conservé
+    .replace(/\[\d{1,3}\]/g, "") // Marqueurs de sources
+    .replace(/^\s{0,3}#{1,6}\s+/gm, "") // Titres
+    .replace(/^\s{0,3}>\s?/gm, "") // Citations
+    .replace(/^\s*(?:[-*+]|\d+\.)\s+/gm, "") // Listes
+    .replace(/^\s*(?:-{3,}|\*{3,}|_{3,})\s*$/gm, " ") // Séparateurs
+    .replace(/(\*\*|__|\*|_|~~)(\S(?:.*?\S)?)\1/g, "$2") // Emphases
+    .replace(/\|/g, " ") // Tableaux
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * ✂️ Aperçu court, coupé sur un mot
+ */
+export function excerpt(text: string, maxLength: number = 140): string {
+  const plain = stripMarkdown(text);
+  if (plain.length <= maxLength) return plain;
+
+  const cut = plain.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > maxLength * 0.6 ? cut.slice(0, lastSpace) : cut)
+    .replace(/[\s.,;:!?-]+$/, "")}…`;
+}
@@ -0,0 +1,145 @@
+import { AppState, Platform } from "react-native";
+import * as Notifications from "expo-notifications";
+import * as TaskManager from "expo-task-manager";
+import type { Prompt } from "../context/PromptContext";
+import {
+  ReminderAction,
+  REMINDER_CATEGORY,
+  REMINDER_ACTIONS,
+  SNOOZE_MINUTES,
+  isReminderAction,
+  buildReminderContent,
+} from "./notifications";
+import { NotificationPrefs, getReleaseDate } from "./notificationPrefs";
+import { snoozePrompt, skipToday } from "./scheduler";
+import { runDuePromptsInBackground } from "./backgroundRunner";
+import * as storage from "./storage";
+
+/**
+ * 👆 Boutons d'action des rappels de prompts planifiés
+ *
+ * Lancer maintenant, reporter de 15 ou 60 min, passer la journée. Quand
+ * le JavaScript de l'app tourne (premier plan, ou réveil en arrière-plan
+ * sur iOS), PromptContext applique l'action depuis son écouteur de
+ * réponses. Sur Android, app en arrière-plan ou fermée, le système lance
+ * la tâche ci-dessous, qui applique l'action directement au stockage.
+ *
+ * La tâche doit être définie au chargement du bundle JS, avant le rendu :
+ * ce module est importé par index.ts.
+ */
+
+export const NOTIFICATION_ACTION_TASK_NAME = "prism-notification-actions";
+
+/**
+ * 📝 Inscription de la catégorie des rappels et de la tâche Android
+ */
+export async function registerNotificationCategories(): Promise<void> {
+  try {
+    await Notifications.setNotificationCategoryAsync(
+      REMINDER_CATEGORY,
+      REMINDER_ACTIONS.map(({ id, title }) => ({
+        identifier: id,
+        buttonTitle: title,
+        options: { opensAppToForeground: false },
+      }))
+    );
+    await Notifications.registerTaskAsync(NOTIFICATION_ACTION_TASK_NAME);
+  } catch (error) {
+    console.error("❌ Erreur inscription des actions de notification:", error);
+  }
+}
+
+/**
+ * 🔍 Action d'un rappel portée par une réponse (null pour un simple tap)
+ */
+export function parseReminderResponse(
+  response: Notifications.NotificationResponse
+): { promptId: string; action: ReminderAction } | null {
+  const promptId = response.notification.request.content.data?.promptId;
+  const action = response.actionIdentifier;
+  return typeof promptId === "string" && isReminderAction(action)
+    ? { promptId, action }
+    : null;
+}
+
+/**
+ * 🤖 Sur Android, app en arrière-plan, la tâche applique l'action :
+ * l'écouteur du premier plan l'ignore pour ne pas l'appliquer deux fois
+ */
+export const handledByBackgroundTask = () =>
+  Platform.OS === "android" && AppState.currentState !== "active";
+
+/**
+ * 😴 Nouveau rappel à la fin d'un report (après les heures calmes)
+ */
+export async function scheduleSnoozeReminder(
+  prompt: Prompt,
+  prefs: NotificationPrefs
+): Promise<void> {
+  if (!prompt.scheduled?.snoozedUntil) return;
+
+  const content = buildReminderContent(prompt, prefs);
+  await Notifications.scheduleNotificationAsync({
+    // Ponctuel : non suivi dans notificationIds, gardé à la réconciliation
+    content: { ...content, data: { ...content.data, kind: "snooze" } },
+    trigger: {
+      type: Notifications.SchedulableTriggerInputTypes.DATE,
+      date: getReleaseDate(
+        prefs.quietHours,
+        new Date(prompt.scheduled.snoozedUntil)
+      ),
+    },
+  });
+}
+
+/**
+ * 🌙 Action appliquée sans interface
+ *
+ * "Lancer maintenant" passe par l'exécution d'arrière-plan ; un report ou
+ * une journée ignorée est enregistré dans le prompt, relu par l'app à sa
+ * prochaine ouverture.
+ */
+async function applyReminderActionInBackground(
+  promptId: string,
+  action: ReminderAction
+) {
+  if (action === "run-now") {
+    await runDuePromptsInBackground({ runNowIds: [promptId] });
+    return;
+  }
+
+  const prompts = await storage.loadPrompts();
+  const prompt = prompts.find((p) => p.id === promptId);
+  if (!prompt?.scheduled) return;
+
+  const minutes = SNOOZE_MINUTES[action];
+  const updated = minutes ? snoozePrompt(prompt, minutes) : skipToday(prompt);
+  await storage.savePrompts(
+    prompts.map((p) => (p.id === promptId ? updated : p))
+  );
+
+  if (minutes) {
+    const settings = await storage.loadSettings();
+    await scheduleSnoozeReminder(updated, settings.notifications);
+  } else {
+    // Exécution du jour restée en file : retirée
+    const jobs = await storage.loadJobQueue();
+    await storage.saveJobQueue(jobs.filter((job) => job.promptId !== promptId));
+  }
+}
+
+TaskManager.defineTask<Notifications.NotificationTaskPayload>(
+  NOTIFICATION_ACTION_TASK_NAME,
+  async ({ data, error }) => {
+    if (error || !data || !("actionIdentifier" in data)) return;
+
+    const reminder = parseReminderResponse(data);
+    if (!reminder || !handledByBackgroundTask()) return;
+
+    try {
+      await applyReminderActionInBackground(reminder.promptId, reminder.action);
+    } catch (actionError) {
+      console.error("❌ Erreur action de notification:", actionError);
+    }
+  }
+);
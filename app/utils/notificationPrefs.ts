@@ -0,0 +1,174 @@
+import type {
+  NotificationBehavior,
+  NotificationContentInput,
+} from "expo-notifications";
+import type { TriggerSpec } from "./scheduler";
+import { LAST_DAY_IN_EVERY_MONTH } from "./schedule";
+
+/**
+ * 🔕 Préférences de notification
+ *
+ * Chaque catégorie de prompt a son niveau d'alerte : silencieuse (centre
+ * de notifications seulement), badge seul ou alerte complète (bannière et
+ * son). Pendant les heures calmes, les prompts dus s'exécutent
+ * normalement mais leurs notifications sont retenues jusqu'à la fin de la
+ * plage : rappels décalés, résultats programmés à l'heure de fin.
+ *
+ * Les heures calmes suivent l'heure locale de l'appareil. Fonctions
+ * pures, partagées entre PromptContext et la tâche d'arrière-plan.
+ */
+
+export type NotificationLevel = "silent" | "badge" | "full";
+
+export const NOTIFICATION_LEVEL_LABELS: Record<NotificationLevel, string> = {
+  silent: "Silencieuse",
+  badge: "Badge seul",
+  full: "Alerte",
+};
+
+export const DEFAULT_NOTIFICATION_LEVEL: NotificationLevel = "full";
+
+/**
+ * 🌙 Heures calmes, en heures pleines ; la plage peut passer minuit
+ * (22 h → 7 h). Début et fin identiques : aucune plage.
+ */
+export type QuietHours = {
+  enabled: boolean;
+  startHour: number;
+  endHour: number;
+};
+
+export type NotificationPrefs = {
+  quietHours: QuietHours;
+  categories: Record<string, NotificationLevel>; // Absente = alerte complète
+};
+
+export const DEFAULT_NOTIFICATION_PREFS: NotificationPrefs = {
+  quietHours: { enabled: false, startHour: 22, endHour: 7 },
+  categories: {},
+};
+
+export const QUIET_START_OPTIONS = [20, 21, 22, 23, 0];
+export const QUIET_END_OPTIONS = [6, 7, 8, 9];
+
+/**
+ * 🏷️ Niveau d'alerte d'une catégorie de prompt
+ */
+export const getCategoryLevel = (
+  prefs: NotificationPrefs,
+  category?: string
+): NotificationLevel =>
+  prefs.categories[category || "other"] ?? DEFAULT_NOTIFICATION_LEVEL;
+
+function isQuietHour(quiet: QuietHours, hour: number): boolean {
+  if (!quiet.enabled || quiet.startHour === quiet.endHour) return false;
+  return quiet.startHour < quiet.endHour
+    ? hour >= quiet.startHour && hour < quiet.endHour
+    : hour >= quiet.startHour || hour < quiet.endHour;
+}
+
+/**
+ * 🌙 L'instant tombe-t-il pendant les heures calmes ?
+ */
+export const isInQuietHours = (quiet: QuietHours, date: Date = new Date()) =>
+  isQuietHour(quiet, date.getHours());
+
+/**
+ * 📤 Date d'envoi d'une notification : la date prévue, ou la fin des
+ * heures calmes si elle tombe pendant la plage
+ */
+export function getReleaseDate(
+  quiet: QuietHours,
+  date: Date = new Date()
+): Date {
+  if (!isInQuietHours(quiet, date)) return date;
+
+  const release = new Date(date);
+  release.setHours(quiet.endHour, 0, 0, 0);
+  if (release <= date) release.setDate(release.getDate() + 1);
+  return release;
+}
+
+/**
+ * ⏭️ Déclencheur décalé à la fin des heures calmes, le lendemain si la
+ * plage passe minuit. Un rappel mensuel du dernier jour autorisé passe au
+ * 1er du mois suivant plutôt qu'à un jour absent de certains mois.
+ */
+function deferTrigger(spec: TriggerSpec, quiet: QuietHours): TriggerSpec {
+  if (spec.type === "date") {
+    return { type: "date", date: getReleaseDate(quiet, spec.date) };
+  }
+  if (!isQuietHour(quiet, spec.hour)) return spec;
+
+  const nextDay = spec.hour >= quiet.endHour ? 1 : 0;
+  const time = { hour: quiet.endHour, minute: 0 };
+  switch (spec.type) {
+    case "weekly":
+      return { type: "weekly", weekday: (spec.weekday + nextDay) % 7, ...time };
+    case "monthly":
+      return {
+        type: "monthly",
+        day:
+          spec.day + nextDay > LAST_DAY_IN_EVERY_MONTH
+            ? 1
+            : spec.day + nextDay,
+        ...time,
+      };
+    case "daily":
+      return { type: "daily", ...time };
+  }
+}
+
+/**
+ * 🔕 Rappels hors des heures calmes ; plusieurs rappels décalés à la
+ * même heure n'en font qu'un ("toutes les 2 h" la nuit → un seul à 7 h)
+ */
+export function applyQuietHours(
+  specs: TriggerSpec[],
+  quiet: QuietHours
+): TriggerSpec[] {
+  const keys = new Set<string>();
+  return specs
+    .map((spec) => deferTrigger(spec, quiet))
+    .filter((spec) => {
+      const key = JSON.stringify(spec);
+      if (keys.has(key)) return false;
+      keys.add(key);
+      return true;
+    });
+}
+
+/**
+ * 🔔 Contenu adapté au niveau d'alerte : son et priorité haute pour une
+ * alerte complète, pastille pour le badge seul. Le niveau est gardé dans
+ * `data` pour la présentation au premier plan.
+ */
+export function applyNotificationLevel(
+  content: NotificationContentInput,
+  level: NotificationLevel
+): NotificationContentInput {
+  const isFull = level === "full";
+  return {
+    ...content,
+    sound: isFull,
+    ...(level === "badge" && { badge: 1 }),
+    priority: isFull ? "high" : "low",
+    interruptionLevel: isFull ? "active" : "passive",
+    data: { ...content.data, level },
+  };
+}
+
+/**
+ * 📱 Présentation d'une notification reçue app ouverte
+ */
+export function getNotificationBehavior(
+  level: NotificationLevel = DEFAULT_NOTIFICATION_LEVEL
+): NotificationBehavior {
+  const isFull = level === "full";
+  return {
+    shouldShowBanner: isFull,
+    shouldShowList: true,
+    shouldPlaySound: isFull,
+    shouldSetBadge: level === "badge",
+  };
+}
@@ -0,0 +1,148 @@
+import type { NotificationRequest } from "expo-notifications";
+import type { Prompt, AppSettings } from "../context/PromptContext";
+import { buildTriggerSpecs, isRecurring } from "./scheduler";
+import { applyQuietHours } from "./notificationPrefs";
+import { DigestSettings, isInDigest } from "./digest";
+
+/**
+ * 🔄 Réconciliation des notifications planifiées
+ *
+ * Au lancement, les notifications enregistrées par le système sont
+ * comparées aux prompts (via `data.promptId`) au lieu d'être toutes
+ * replanifiées : les orphelines (prompt supprimé ou sans planification)
+ * et les doublons sont annulés, et seuls les prompts dont des rappels
+ * manquent sont replanifiés.
+ *
+ * Les notifications ponctuelles (report d'un rappel, résultat retenu
+ * pendant les heures calmes) ne sont pas suivies dans `notificationIds` :
+ * elles sont conservées tant que leur prompt existe.
+ */
+
+// Notifications ponctuelles, marquées par `data.kind`
+const ONE_OFF_KINDS = ["snooze", "result"];
+
+export type NotificationSyncPlan = {
+  keptIds: string[];
+  orphanIds: string[]; // Prompt supprimé ou qui n'a plus de rappels
+  duplicateIds: string[]; // Déclencheur en double ou identifiant non suivi
+  missingPromptIds: string[]; // Prompts à replanifier
+};
+
+/**
+ * 🩺 Résultat de la dernière réconciliation, affiché dans les paramètres
+ */
+export type NotificationSyncReport = {
+  checkedAt: string;
+  registered: number; // Notifications trouvées dans le système
+  kept: number;
+  orphansCancelled: number;
+  duplicatesCancelled: number;
+  rescheduled: number; // Prompts replanifiés
+  error?: string;
+};
+
+/**
+ * 🔔 Un prompt doit-il avoir des rappels planifiés ?
+ *
+ * En mode alerte, seule la détection de changement notifie ; le digest
+ * regroupe les siens. Quand la tâche d'arrière-plan est inscrite, elle
+ * exécute les prompts récurrents et notifie leur réponse : le rappel
+ * ferait une seconde notification pour la même exécution.
+ */
+export const expectsReminders = (
+  prompt: Prompt,
+  digest: DigestSettings,
+  backgroundRuns: boolean
+) =>
+  !!prompt.scheduled &&
+  !prompt.changeAlert?.enabled &&
+  !isInDigest(digest, prompt.id) &&
+  !(backgroundRuns && isRecurring(prompt));
+
+/**
+ * 🧮 Plan de réconciliation
+ *
+ * Pour chaque prompt, un seul rappel par déclencheur est conservé, en
+ * priorité ceux dont l'identifiant est suivi. Un prompt récurrent est
+ * replanifié (en entier, ses déclencheurs formant un tout) s'il lui
+ * manque un rappel suivi ou s'il en a moins que de déclencheurs attendus
+ * (occurrences cron ou fuseau fixe déjà passées).
+ */
+export function planNotificationSync(
+  prompts: Prompt[],
+  registered: NotificationRequest[],
+  settings: Pick<AppSettings, "notifications" | "digest">,
+  options: { backgroundRuns?: boolean } = {}
+): NotificationSyncPlan {
+  const { backgroundRuns = false } = options;
+  const plan: NotificationSyncPlan = {
+    keptIds: [],
+    orphanIds: [],
+    duplicateIds: [],
+    missingPromptIds: [],
+  };
+  const promptsById = new Map(prompts.map((p) => [p.id, p]));
+  const getPromptId = (request: NotificationRequest) => {
+    const promptId = request.content.data?.promptId;
+    return typeof promptId === "string" ? promptId : undefined;
+  };
+  const isTracked = (request: NotificationRequest) =>
+    !!promptsById
+      .get(getPromptId(request) ?? "")
+      ?.scheduled?.notificationIds?.includes(request.identifier);
+
+  const seenTriggers = new Set<string>();
+  const keptReminders = new Map<string, string[]>();
+
+  // Identifiants suivis en premier : ils l'emportent sur leurs doublons
+  const ordered = [...registered].sort(
+    (a, b) => Number(isTracked(b)) - Number(isTracked(a))
+  );
+
+  for (const request of ordered) {
+    const promptId = getPromptId(request);
+    if (!promptId) continue; // Hors de l'app : ignorée
+
+    const prompt = promptsById.get(promptId);
+    if (!prompt) {
+      plan.orphanIds.push(request.identifier);
+    } else if (ONE_OFF_KINDS.includes(String(request.content.data.kind))) {
+      plan.keptIds.push(request.identifier);
+    } else if (!expectsReminders(prompt, settings.digest, backgroundRuns)) {
+      plan.orphanIds.push(request.identifier);
+    } else {
+      const triggerKey = `${promptId}:${JSON.stringify(request.trigger)}`;
+      if (!isTracked(request) || seenTriggers.has(triggerKey)) {
+        plan.duplicateIds.push(request.identifier);
+      } else {
+        seenTriggers.add(triggerKey);
+        plan.keptIds.push(request.identifier);
+        keptReminders.set(promptId, [
+          ...(keptReminders.get(promptId) ?? []),
+          request.identifier,
+        ]);
+      }
+    }
+  }
+
+  for (const prompt of prompts) {
+    if (
+      !expectsReminders(prompt, settings.digest, backgroundRuns) ||
+      !(prompt.scheduled!.isRecurring ?? true)
+    ) {
+      continue;
+    }
+    const kept = keptReminders.get(prompt.id) ?? [];
+    const tracked = prompt.scheduled!.notificationIds ?? [];
+    const expected = applyQuietHours(
+      buildTriggerSpecs(prompt.scheduled!),
+      settings.notifications.quietHours
+    ).length;
+
+    if (kept.length < tracked.length || kept.length < expected) {
+      plan.missingPromptIds.push(prompt.id);
+    }
+  }
+
+  return plan;
+}
@@ -0,0 +1,142 @@
+import { Platform } from "react-native";
+import {
+  SchedulableTriggerInputTypes,
+  type NotificationContentInput,
+  type NotificationRequestInput,
+} from "expo-notifications";
+import type { Prompt } from "../context/PromptContext";
+import {
+  NotificationPrefs,
+  getCategoryLevel,
+  applyNotificationLevel,
+  isInQuietHours,
+  getReleaseDate,
+} from "./notificationPrefs";
+import { excerpt } from "./markdown";
+import { getCitationDomain } from "./citations";
+
+/**
+ * 🔔 Contenu des notifications liées à un prompt
+ *
+ * Partagé entre PromptContext (premier plan) et la tâche d'arrière-plan,
+ * pour que le titre, les données (`promptId`) et le respect des
+ * préférences de notification restent identiques.
+ */
+
+const MAX_QUESTION_LENGTH = 60;
+
+/**
+ * ✂️ Longueur de l'aperçu d'une réponse : seul le corps est allongé.
+ * Aucune présentation étendue n'est configurée (expo-notifications n'en
+ * expose pas) : on compte sur le comportement par défaut du système,
+ * qui déroule un corps long quand la notification est étendue (style
+ * BigText appliqué par expo-notifications sur Android, iOS), la vue
+ * repliée n'en montrant que le début ; ailleurs, un aperçu court.
+ */
+export const RESULT_EXCERPT_LENGTH = Platform.OS === "web" ? 140 : 400;
+
+/**
+ * 🗂️ Catégorie des rappels de prompts planifiés et ses boutons d'action
+ */
+export const REMINDER_CATEGORY = "prompt-reminder";
+
+export type ReminderAction =
+  | "run-now"
+  | "snooze-15"
+  | "snooze-60"
+  | "skip-today";
+
+export const REMINDER_ACTIONS: { id: ReminderAction; title: string }[] = [
+  { id: "run-now", title: "Lancer maintenant" },
+  { id: "snooze-15", title: "Dans 15 min" },
+  { id: "snooze-60", title: "Dans 1 h" },
+  { id: "skip-today", title: "Passer aujourd'hui" },
+];
+
+export const SNOOZE_MINUTES: Partial<Record<ReminderAction, number>> = {
+  "snooze-15": 15,
+  "snooze-60": 60,
+};
+
+export const isReminderAction = (
+  identifier: string
+): identifier is ReminderAction =>
+  REMINDER_ACTIONS.some((action) => action.id === identifier);
+
+/**
+ * ⏰ Rappel d'un prompt planifié, avec les actions de la catégorie et le
+ * niveau d'alerte de la catégorie du prompt
+ */
+export function buildReminderContent(
+  prompt: Pick<Prompt, "id" | "question" | "category">,
+  prefs: NotificationPrefs
+): NotificationContentInput {
+  return applyNotificationLevel(
+    {
+      title: "🤖 Prompt planifié",
+      body:
+        prompt.question.length > 100
+          ? prompt.question.substring(0, 100) + "..."
+          : prompt.question,
+      data: { promptId: prompt.id },
+      categoryIdentifier: REMINDER_CATEGORY,
+    },
+    getCategoryLevel(prefs, prompt.category)
+  );
+}
+
+/**
+ * 💬 Corps d'une notification de résultat : aperçu en texte brut de la
+ * réponse (Markdown retiré), puis le domaine de la première source
+ */
+export function buildResultBody(
+  result: Pick<Prompt, "response" | "citations">,
+  text: string = excerpt(result.response, RESULT_EXCERPT_LENGTH)
+): string {
+  const topSource = result.citations?.[0];
+  return topSource ? `${text}\n🔗 ${getCitationDomain(topSource.url)}` : text;
+}
+
+/**
+ * 📝 Notification immédiate : titre suivi de la question, tronquée
+ */
+export function buildPromptNotification(
+  prompt: Pick<Prompt, "id" | "question">,
+  title: string,
+  body: string
+): NotificationContentInput {
+  return {
+    title: `${title} : ${
+      prompt.question.length > MAX_QUESTION_LENGTH
+        ? prompt.question.substring(0, MAX_QUESTION_LENGTH) + "..."
+        : prompt.question
+    }`,
+    body,
+    data: { promptId: prompt.id, kind: "result" }, // Ponctuelle : non suivie
+  };
+}
+
+/**
+ * 📨 Notification immédiate selon les préférences : niveau d'alerte de la
+ * catégorie du prompt, retenue jusqu'à la fin des heures calmes
+ */
+export function buildPromptNotificationRequest(
+  prompt: Pick<Prompt, "id" | "question" | "category">,
+  title: string,
+  body: string,
+  prefs: NotificationPrefs,
+  now: Date = new Date()
+): NotificationRequestInput {
+  return {
+    content: applyNotificationLevel(
+      buildPromptNotification(prompt, title, body),
+      getCategoryLevel(prefs, prompt.category)
+    ),
+    trigger: isInQuietHours(prefs.quietHours, now)
+      ? {
+          type: SchedulableTriggerInputTypes.DATE,
+          date: getReleaseDate(prefs.quietHours, now),
+        }
+      : null,
+  };
+}
@@ -0,0 +1,28 @@
+import type { Persona } from "../context/PromptContext";
+import { DEFAULT_SYSTEM_PROMPT } from "./fetchAiResponse";
+
+/**
+ * 🌱 Persona initiale, reprenant le prompt système historique
+ */
+export const BUILT_IN_PERSONA: Persona = {
+  id: "default",
+  name: "Assistant français",
+  systemPrompt: DEFAULT_SYSTEM_PROMPT,
+  isDefault: true,
+};
+
+/**
+ * 🔍 Prompt système à utiliser pour un prompt donné
+ *
+ * Persona référencée si elle existe encore, sinon persona par défaut,
+ * sinon le prompt système historique.
+ */
+export function resolveSystemPrompt(
+  personas: Persona[],
+  personaId?: string
+): string {
+  const persona =
+    personas.find((p) => p.id === personaId) ||
+    personas.find((p) => p.isDefault);
+  return persona?.systemPrompt || DEFAULT_SYSTEM_PROMPT;
+}
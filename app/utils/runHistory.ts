@@ -0,0 +1,177 @@
+import type { RunStatus } from "../context/PromptContext";
+import type { AiError } from "./fetchAiResponse";
+import type { Citation } from "./citations";
+
+/**
+ * 🗂️ Historique des exécutions
+ *
+ * Chaque exécution d'un prompt produit un `PromptRun`, conservé à part du
+ * prompt lui-même (clé AsyncStorage dédiée) : le prompt ne garde que la
+ * dernière réponse, l'historique garde toutes les précédentes dans la
+ * limite de la politique de rétention.
+ */
+
+/**
+ * 📝 Une exécution d'un prompt
+ */
+export type PromptRun = {
+  id: string;
+  promptId: string;
+  startedAt: string; // ISO
+  durationMs: number;
+  model: string;
+  response: string; // Vide si l'exécution a échoué
+  citations?: Citation[];
+  status: RunStatus;
+  error?: AiError;
+};
+
+/**
+ * 📚 Historique complet, indexé par identifiant de prompt (ordre chronologique)
+ */
+export type RunHistory = Record<string, PromptRun[]>;
+
+/**
+ * 🧹 Politique de rétention (0 = illimité)
+ */
+export type HistoryRetention = {
+  maxRuns: number; // Nombre d'exécutions conservées par prompt
+  maxDays: number; // Âge maximal d'une exécution, en jours
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * ✂️ Application de la rétention aux exécutions d'un prompt
+ */
+export function pruneRuns(
+  runs: PromptRun[],
+  retention: HistoryRetention,
+  now: number = Date.now()
+): PromptRun[] {
+  let kept = runs;
+
+  if (retention.maxDays > 0) {
+    const oldest = now - retention.maxDays * DAY_MS;
+    kept = kept.filter((run) => new Date(run.startedAt).getTime() >= oldest);
+  }
+
+  if (retention.maxRuns > 0 && kept.length > retention.maxRuns) {
+    kept = kept.slice(kept.length - retention.maxRuns);
+  }
+
+  return kept;
+}
+
+/**
+ * ✂️ Application de la rétention à tout l'historique
+ */
+export function pruneHistory(
+  history: RunHistory,
+  retention: HistoryRetention,
+  now: number = Date.now()
+): RunHistory {
+  const pruned: RunHistory = {};
+  for (const [promptId, runs] of Object.entries(history)) {
+    const kept = pruneRuns(runs, retention, now);
+    if (kept.length > 0) pruned[promptId] = kept;
+  }
+  return pruned;
+}
+
+/**
+ * ➕ Ajout d'une exécution, rétention appliquée au prompt concerné
+ */
+export function appendRun(
+  history: RunHistory,
+  run: PromptRun,
+  retention: HistoryRetention
+): RunHistory {
+  const runs = [...(history[run.promptId] ?? []), run];
+  return { ...history, [run.promptId]: pruneRuns(runs, retention) };
+}
+
+/**
+ * 🔀 Fusion de deux historiques (exécutions en arrière-plan relues au
+ * retour au premier plan) : union par identifiant, ordre chronologique
+ */
+export function mergeHistories(
+  current: RunHistory,
+  stored: RunHistory,
+  retention: HistoryRetention
+): RunHistory {
+  const merged: RunHistory = { ...current };
+  for (const [promptId, runs] of Object.entries(stored)) {
+    const known = new Set((merged[promptId] ?? []).map((run) => run.id));
+    const added = runs.filter((run) => !known.has(run.id));
+    if (added.length === 0) continue;
+    merged[promptId] = pruneRuns(
+      [...(merged[promptId] ?? []), ...added].sort((a, b) =>
+        a.startedAt.localeCompare(b.startedAt)
+      ),
+      retention
+    );
+  }
+  return merged;
+}
+
+/**
+ * 🗑️ Suppression de l'historique de plusieurs prompts
+ */
+export function removeRunsFor(
+  history: RunHistory,
+  promptIds: string[]
+): RunHistory {
+  const next = { ...history };
+  promptIds.forEach((id) => delete next[id]);
+  return next;
+}
+
+/**
+ * ⏱️ Durée lisible ("850 ms", "12,4 s", "2 min 05")
+ */
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms} ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1).replace(".", ",")} s`;
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.round((ms % 60000) / 1000);
+  return `${minutes} min ${seconds.toString().padStart(2, "0")}`;
+}
+
+/**
+ * 🏷️ Libellés et couleurs d'affichage des statuts
+ */
+export const RUN_STATUS_LABELS: Record<
+  RunStatus,
+  { label: string; color: string }
+> = {
+  idle: { label: "Jamais exécuté", color: "#888" },
+  queued: { label: "En attente", color: "#f9ca24" },
+  running: { label: "En cours", color: "#81b0ff" },
+  succeeded: { label: "Réussi", color: "#4CAF50" },
+  failed: { label: "Échec", color: "#ff4757" },
+  cancelled: { label: "Interrompu", color: "#888" },
+};
+
+/**
+ * 📅 Réponse du jour et dernière réponse d'un jour précédent
+ *
+ * Sert au badge "du nouveau" du feed : seules les exécutions réussies
+ * sont comparées. `runs` est trié des plus récentes aux plus anciennes.
+ */
+export function findDailyComparison(
+  runs: PromptRun[],
+  now: Date = new Date()
+): { previous: PromptRun; latest: PromptRun } | null {
+  const today = now.toDateString();
+  const succeeded = runs.filter((run) => run.status === "succeeded");
+
+  const latest = succeeded.find(
+    (run) => new Date(run.startedAt).toDateString() === today
+  );
+  const previous = succeeded.find(
+    (run) => new Date(run.startedAt).toDateString() !== today
+  );
+
+  return latest && previous ? { previous, latest } : null;
+}
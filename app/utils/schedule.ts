@@ -0,0 +1,314 @@
+import {
+  CronSchedule,
+  parseCron,
+  getNextCronOccurrence,
+  getPreviousCronOccurrence,
+} from "./cron";
+import {
+  TimeZoneMode,
+  getZonedDay,
+  atZonedTime,
+  formatTimeZone,
+} from "./timeZone";
+
+/**
+ * 📅 Règles de planification des prompts
+ *
+ * Une planification combine une heure de référence (hour, minute) et une
+ * fréquence : tous les jours, en semaine, certains jours de la semaine,
+ * toutes les N heures, un jour donné du mois ou une expression cron
+ * (l'heure de référence est alors ignorée). Les fonctions ci-dessous
+ * calculent les occurrences dans le fuseau de la règle (heure locale de
+ * l'appareil à défaut), pour la détection des exécutions manquées comme
+ * pour l'affichage.
+ */
+
+export type ScheduleFrequency =
+  | "daily"
+  | "weekdays"
+  | "weekly"
+  | "hourly"
+  | "monthly"
+  | "cron";
+
+/**
+ * 🗓️ Règle de planification (sans l'état d'exécution)
+ */
+export type ScheduleRule = {
+  hour: number;
+  minute: number;
+  frequency: ScheduleFrequency;
+  weekdays?: number[]; // "weekly" : jours choisis (0 = dimanche, comme getDay)
+  intervalHours?: number; // "hourly" : intervalle, diviseur de 24
+  dayOfMonth?: number; // "monthly" : jour du mois (1 à 31, voir runsOnDay)
+  cron?: string; // "cron" : expression à 5 champs
+  timeZone?: string; // Fuseau IANA des heures (absent : fuseau de l'appareil)
+  timeZoneMode?: TimeZoneMode; // Suivre l'appareil (par défaut) ou fuseau fixe
+};
+
+export const FREQUENCY_LABELS: Record<ScheduleFrequency, string> = {
+  daily: "Tous les jours",
+  weekdays: "En semaine",
+  weekly: "Hebdomadaire",
+  hourly: "Toutes les N heures",
+  monthly: "Mensuel",
+  cron: "Cron",
+};
+
+/**
+ * 📆 Jours affichés du lundi au dimanche (valeurs getDay)
+ */
+export const WEEKDAY_OPTIONS: { day: number; short: string }[] = [
+  { day: 1, short: "Lun" },
+  { day: 2, short: "Mar" },
+  { day: 3, short: "Mer" },
+  { day: 4, short: "Jeu" },
+  { day: 5, short: "Ven" },
+  { day: 6, short: "Sam" },
+  { day: 0, short: "Dim" },
+];
+
+/**
+ * ⏱️ Intervalles proposés : diviseurs de 24 pour retomber chaque jour
+ * sur les mêmes heures
+ */
+export const INTERVAL_HOURS_OPTIONS = [2, 3, 4, 6, 8, 12];
+
+/**
+ * 📅 Jour du mois : au-delà de 28, ramené au dernier jour des mois plus
+ * courts (le 31 tombe le 30 avril, le 28 ou 29 février)
+ */
+export const MAX_DAY_OF_MONTH = 31;
+
+/**
+ * 📅 Dernier jour présent dans tous les mois
+ */
+export const LAST_DAY_IN_EVERY_MONTH = 28;
+
+const WORKING_DAYS = [1, 2, 3, 4, 5];
+
+/**
+ * 🔍 Nombre de jours parcourus pour trouver une occurrence (un mois et plus)
+ */
+const SEARCH_DAYS = 32;
+
+/**
+ * 🗃️ Expressions cron déjà analysées (les occurrences sont recalculées
+ * à chaque vérification)
+ */
+const cronCache = new Map<string, CronSchedule | null>();
+
+function getCronSchedule(rule: ScheduleRule): CronSchedule | null {
+  const expression = rule.cron?.trim() ?? "";
+  if (!cronCache.has(expression)) {
+    cronCache.set(expression, parseCron(expression).schedule ?? null);
+  }
+  return cronCache.get(expression)!;
+}
+
+const pad = (value: number) => value.toString().padStart(2, "0");
+
+export const formatScheduleTime = (hour: number, minute: number) =>
+  `${pad(hour)}:${pad(minute)}`;
+
+/**
+ * 🕐 Heures de la journée où la règle se déclenche
+ *
+ * Une seule heure, sauf pour "toutes les N heures" : l'heure de référence
+ * puis toutes les N heures, ramenées sur 24 h et triées.
+ */
+export function getTimesOfDay(
+  rule: ScheduleRule
+): { hour: number; minute: number }[] {
+  if (rule.frequency !== "hourly" || !rule.intervalHours) {
+    return [{ hour: rule.hour, minute: rule.minute }];
+  }
+
+  const count = Math.max(1, Math.floor(24 / rule.intervalHours));
+  return Array.from({ length: count }, (_, i) => ({
+    hour: (rule.hour + i * rule.intervalHours!) % 24,
+    minute: rule.minute,
+  })).sort((a, b) => a.hour - b.hour);
+}
+
+/**
+ * 🗓️ Nombre de jours du mois d'un jour de calendrier (voir timeZone.ts)
+ */
+const getDaysInMonth = (day: Date) =>
+  new Date(
+    Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+
+/**
+ * 📆 La règle se déclenche-t-elle ce jour de calendrier (voir timeZone.ts) ?
+ *
+ * Un jour du mois absent (le 31 en avril) tombe le dernier jour du mois.
+ */
+export function runsOnDay(rule: ScheduleRule, day: Date): boolean {
+  switch (rule.frequency) {
+    case "weekdays":
+      return WORKING_DAYS.includes(day.getUTCDay());
+    case "weekly":
+      return (rule.weekdays ?? []).includes(day.getUTCDay());
+    case "monthly":
+      return (
+        day.getUTCDate() === Math.min(rule.dayOfMonth ?? 1, getDaysInMonth(day))
+      );
+    case "daily":
+    case "hourly":
+    default:
+      return true;
+  }
+}
+
+/**
+ * ⏮️ Dernière occurrence antérieure ou égale à `now`
+ *
+ * `null` si aucune occurrence sur le dernier mois (règle hebdomadaire
+ * sans jour choisi, par exemple).
+ */
+export function getPreviousOccurrence(
+  rule: ScheduleRule,
+  now: Date = new Date()
+): Date | null {
+  if (rule.frequency === "cron") {
+    const cron = getCronSchedule(rule);
+    return cron ? getPreviousCronOccurrence(cron, now, rule.timeZone) : null;
+  }
+
+  const times = getTimesOfDay(rule).reverse();
+
+  for (let offset = 0; offset <= SEARCH_DAYS; offset++) {
+    const day = getZonedDay(now, rule.timeZone, -offset);
+    if (!runsOnDay(rule, day)) continue;
+
+    for (const { hour, minute } of times) {
+      const occurrence = atZonedTime(day, hour, minute, rule.timeZone);
+      if (occurrence <= now) return occurrence;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * ⏭️ Prochaine occurrence strictement postérieure à `now`
+ */
+export function getNextOccurrence(
+  rule: ScheduleRule,
+  now: Date = new Date()
+): Date | null {
+  if (rule.frequency === "cron") {
+    const cron = getCronSchedule(rule);
+    return cron ? getNextCronOccurrence(cron, now, rule.timeZone) : null;
+  }
+
+  const times = getTimesOfDay(rule);
+
+  for (let offset = 0; offset <= SEARCH_DAYS; offset++) {
+    const day = getZonedDay(now, rule.timeZone, offset);
+    if (!runsOnDay(rule, day)) continue;
+
+    for (const { hour, minute } of times) {
+      const occurrence = atZonedTime(day, hour, minute, rule.timeZone);
+      if (occurrence > now) return occurrence;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * ⏭️ Prochaines occurrences (aperçu du formulaire, notifications cron)
+ */
+export function getNextOccurrences(
+  rule: ScheduleRule,
+  count: number,
+  now: Date = new Date()
+): Date[] {
+  const occurrences: Date[] = [];
+  let cursor = now;
+  while (occurrences.length < count) {
+    const next = getNextOccurrence(rule, cursor);
+    if (!next) break;
+    occurrences.push(next);
+    cursor = next;
+  }
+  return occurrences;
+}
+
+/**
+ * ✅ Validation d'une règle avant enregistrement
+ *
+ * Retourne un message d'erreur, ou `undefined` si la règle est valide.
+ */
+export function validateScheduleRule(rule: ScheduleRule): string | undefined {
+  if (rule.frequency === "cron") {
+    const { error } = parseCron(rule.cron ?? "");
+    if (error) return error;
+    return getNextOccurrence(rule)
+      ? undefined
+      : "Cette expression ne se déclenche jamais.";
+  }
+  if (rule.frequency === "weekly" && !rule.weekdays?.length) {
+    return "Choisissez au moins un jour de la semaine.";
+  }
+  if (
+    rule.frequency === "hourly" &&
+    !INTERVAL_HOURS_OPTIONS.includes(rule.intervalHours ?? 0)
+  ) {
+    return "Choisissez un intervalle en heures.";
+  }
+  if (
+    rule.frequency === "monthly" &&
+    !(
+      rule.dayOfMonth !== undefined &&
+      rule.dayOfMonth >= 1 &&
+      rule.dayOfMonth <= MAX_DAY_OF_MONTH
+    )
+  ) {
+    return `Le jour du mois doit être compris entre 1 et ${MAX_DAY_OF_MONTH}.`;
+  }
+  return undefined;
+}
+
+/**
+ * 📝 Description lisible ("Du lundi au vendredi à 07:00"), suivie du
+ * fuseau s'il est fixé ("Tous les jours à 07:00 (New York)")
+ */
+export function describeSchedule(rule: ScheduleRule): string {
+  const description = describeFrequency(rule);
+  return rule.timeZoneMode === "pinned" && rule.timeZone
+    ? `${description} (${formatTimeZone(rule.timeZone)})`
+    : description;
+}
+
+function describeFrequency(rule: ScheduleRule): string {
+  const time = formatScheduleTime(rule.hour, rule.minute);
+
+  switch (rule.frequency) {
+    case "weekdays":
+      return `Du lundi au vendredi à ${time}`;
+    case "weekly": {
+      const days = WEEKDAY_OPTIONS.filter(({ day }) =>
+        rule.weekdays?.includes(day)
+      )
+        .map(({ short }) => short.toLowerCase())
+        .join(", ");
+      return `Chaque ${days || "—"} à ${time}`;
+    }
+    case "hourly":
+      return `Toutes les ${rule.intervalHours ?? "?"} h à partir de ${time}`;
+    case "monthly": {
+      const day = rule.dayOfMonth ?? 1;
+      return day > LAST_DAY_IN_EVERY_MONTH
+        ? `Le ${day} de chaque mois (ou le dernier jour) à ${time}`
+        : `Le ${day} de chaque mois à ${time}`;
+    }
+    case "cron":
+      return `Cron : ${rule.cron?.trim() ?? ""}`;
+    case "daily":
+    default:
+      return `Tous les jours à ${time}`;
+  }
+}
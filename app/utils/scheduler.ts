@@ -0,0 +1,588 @@
+import {
+  ScheduleRule,
+  getNextOccurrence,
+  getPreviousOccurrence,
+  getNextOccurrences,
+  getTimesOfDay,
+  LAST_DAY_IN_EVERY_MONTH,
+} from "./schedule";
+import type { AiErrorCode } from "./fetchAiResponse";
+import { getDeviceTimeZone, getZonedDay, atZonedTime } from "./timeZone";
+
+/**
+ * 🗓️ Moteur de planification, indépendant de React et de l'horloge système
+ *
+ * Toutes les décisions "quand exécuter" passent par ici : exécutions dues
+ * sur une fenêtre de temps, rattrapage des exécutions manquées et calcul
+ * des déclencheurs de notification. L'heure courante est fournie par une
+ * `Clock` injectable, ce qui rend chaque fonction déterministe.
+ */
+
+/**
+ * ⏰ Source de l'heure courante
+ */
+export type Clock = {
+  now: () => Date;
+};
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+/**
+ * 📝 Ce dont le moteur a besoin d'un prompt
+ */
+export type SchedulablePrompt = {
+  id: string;
+  catchUp?: CatchUpPolicy;
+  maxRetries?: number; // Nouvelles tentatives après un échec
+  scheduled?: ScheduleRule & {
+    lastRun?: string; // ISO
+    skippedUntil?: string; // ISO : occurrences manquées ignorées jusqu'ici
+    snoozedUntil?: string; // ISO : exécution reportée depuis une notification
+    isRecurring?: boolean;
+    retry?: RetryState; // Nouvelle tentative en attente après un échec
+  };
+};
+
+/**
+ * 🔁 Nouvelle tentative programmée après l'échec d'une exécution planifiée
+ */
+export type RetryState = {
+  attempt: number; // 1 pour la première nouvelle tentative
+  nextAt: string; // ISO
+};
+
+/**
+ * ⏪ Politique de rattrapage des exécutions manquées
+ *
+ * - skip : ne jamais rattraper
+ * - once : une exécution, quel que soit le nombre d'occurrences manquées
+ * - within : une exécution si la dernière occurrence date de moins de
+ *   `withinHours` heures
+ */
+export type CatchUpMode = "skip" | "once" | "within";
+
+export type CatchUpPolicy = {
+  mode: CatchUpMode;
+  withinHours?: number;
+};
+
+export const DEFAULT_CATCH_UP_POLICY: CatchUpPolicy = { mode: "once" };
+
+export const CATCH_UP_LABELS: Record<CatchUpMode, string> = {
+  skip: "Ignorer",
+  once: "Une fois",
+  within: "Si récent",
+};
+
+export const CATCH_UP_HOURS_OPTIONS = [1, 3, 6, 12, 24];
+
+/**
+ * ⏱️ Retard en deçà duquel une exécution est "à l'heure" et n'est pas
+ * soumise à la politique de rattrapage (polling, tâche d'arrière-plan)
+ */
+export const ON_TIME_TOLERANCE_MS = 15 * 60_000;
+
+/**
+ * ⏭️ Exécution manquée non rattrapée, et pourquoi
+ */
+export type SkippedRun = DueRun & {
+  reason: "policy" | "too_old";
+};
+
+export const SKIP_REASON_LABELS: Record<SkippedRun["reason"], string> = {
+  policy: "rattrapage désactivé",
+  too_old: "trop ancien",
+};
+
+/**
+ * 📋 Décision de rattrapage : exécutions à lancer et exécutions ignorées
+ */
+export type CatchUpPlan = {
+  run: DueRun[];
+  skipped: SkippedRun[];
+};
+
+/**
+ * 🎯 Exécution due
+ */
+export type DueRun = {
+  promptId: string;
+  scheduledFor: Date; // Occurrence la plus récente de la fenêtre
+  occurrences: number; // Occurrences comptées dans la fenêtre (1 si à l'heure)
+};
+
+/**
+ * ⏳ Délai minimal après l'heure prévue avant de considérer une
+ * exécution comme manquée (laisse la notification et le polling agir)
+ */
+export const MISSED_RUN_GRACE_MS = 10_000;
+
+/**
+ * 🔢 Plafond d'occurrences comptées par prompt sur une fenêtre
+ * (une règle cron "* * * * *" sur plusieurs jours)
+ */
+const MAX_COUNTED_OCCURRENCES = 1000;
+
+/**
+ * 🔁 Un prompt planifié est récurrent sauf mention contraire
+ */
+export const isRecurring = (prompt: SchedulablePrompt) =>
+  !!prompt.scheduled && (prompt.scheduled.isRecurring ?? true);
+
+/**
+ * 📆 Occurrences d'une règle dans ]from, to], dans l'ordre
+ */
+export function getOccurrencesBetween(
+  rule: ScheduleRule,
+  from: Date,
+  to: Date,
+  limit: number = MAX_COUNTED_OCCURRENCES
+): Date[] {
+  const occurrences: Date[] = [];
+  let cursor = from;
+  while (occurrences.length < limit) {
+    const next = getNextOccurrence(rule, cursor);
+    if (!next || next > to) break;
+    occurrences.push(next);
+    cursor = next;
+  }
+  return occurrences;
+}
+
+/**
+ * 🎯 Exécutions dues entre T1 (exclu) et T2 (inclus)
+ *
+ * Une entrée par prompt récurrent ayant au moins une occurrence dans la
+ * fenêtre. Les prompts non récurrents ne sont jamais exécutés
+ * automatiquement : seul leur rappel est planifié.
+ */
+export function getRunsDueBetween(
+  prompts: SchedulablePrompt[],
+  from: Date,
+  to: Date
+): DueRun[] {
+  const due: DueRun[] = [];
+
+  for (const prompt of prompts) {
+    if (!isRecurring(prompt)) continue;
+
+    const latest = getPreviousOccurrence(prompt.scheduled!, to);
+    if (!latest || latest <= from) continue;
+
+    due.push({
+      promptId: prompt.id,
+      scheduledFor: latest,
+      occurrences: getOccurrencesBetween(prompt.scheduled!, from, to).length,
+    });
+  }
+
+  return due;
+}
+
+/**
+ * 🔍 Exécutions manquées à rattraper maintenant
+ *
+ * Pour chaque prompt récurrent : occurrences postérieures à la dernière
+ * exécution ou à la dernière occurrence ignorée (à défaut, à `since`) et
+ * antérieures à maintenant moins le délai de grâce. Les prompts en cours
+ * d'exécution ou reportés (jusqu'à la fin du report) sont ignorés.
+ */
+export function getMissedRuns(
+  prompts: (SchedulablePrompt & { status?: string })[],
+  options: {
+    clock?: Clock;
+    since?: Date; // Borne basse si le prompt n'a jamais été exécuté
+    isRunning?: (promptId: string) => boolean;
+  } = {}
+): DueRun[] {
+  const { clock = systemClock, since, isRunning } = options;
+  const now = clock.now();
+  const until = new Date(now.getTime() - MISSED_RUN_GRACE_MS);
+  const due: DueRun[] = [];
+
+  for (const prompt of prompts) {
+    if (!isRecurring(prompt)) continue;
+    if (prompt.status === "running" || isRunning?.(prompt.id)) continue;
+
+    const { lastRun, skippedUntil, snoozedUntil } = prompt.scheduled!;
+    if (snoozedUntil && new Date(snoozedUntil) > now) continue;
+
+    // Dates ISO : l'ordre lexical est l'ordre chronologique
+    const mark = [lastRun, skippedUntil].filter(Boolean).sort().pop();
+    const from = mark ? new Date(mark) : since ?? new Date(0);
+
+    due.push(...getRunsDueBetween([prompt], from, until));
+  }
+
+  return due;
+}
+
+/**
+ * ⏪ Application des politiques de rattrapage aux exécutions dues
+ *
+ * Une exécution en retard de moins de ON_TIME_TOLERANCE_MS est toujours
+ * lancée ; une exécution reportée compte son retard depuis la fin du
+ * report. Au-delà, la politique du prompt décide, puis la fenêtre globale
+ * (`windowHours`, 0 = illimitée) écarte les occurrences trop anciennes.
+ */
+export function planCatchUp(
+  prompts: SchedulablePrompt[],
+  dueRuns: DueRun[],
+  options: { clock?: Clock; windowHours?: number } = {}
+): CatchUpPlan {
+  const { clock = systemClock, windowHours = 0 } = options;
+  const now = clock.now().getTime();
+  const plan: CatchUpPlan = { run: [], skipped: [] };
+
+  for (const due of dueRuns) {
+    const prompt = prompts.find((p) => p.id === due.promptId);
+    const snoozedUntil = prompt?.scheduled?.snoozedUntil;
+    const delay =
+      now -
+      Math.max(
+        due.scheduledFor.getTime(),
+        snoozedUntil ? new Date(snoozedUntil).getTime() : 0
+      );
+    if (delay <= ON_TIME_TOLERANCE_MS) {
+      plan.run.push(due);
+      continue;
+    }
+
+    const policy = prompt?.catchUp ?? DEFAULT_CATCH_UP_POLICY;
+    const maxHours = [
+      policy.mode === "within" ? policy.withinHours ?? 0 : 0,
+      windowHours,
+    ].filter((hours) => hours > 0);
+
+    if (policy.mode === "skip") {
+      plan.skipped.push({ ...due, reason: "policy" });
+    } else if (maxHours.some((hours) => delay > hours * 60 * 60 * 1000)) {
+      plan.skipped.push({ ...due, reason: "too_old" });
+    } else {
+      plan.run.push(due);
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * ⏭️ Occurrences ignorées mémorisées dans `skippedUntil`, pour ne plus
+ * les proposer au rattrapage (une marque plus récente, comme celle d'un
+ * changement de fuseau ou d'une journée passée, est conservée)
+ */
+export function markSkippedRuns<T extends SchedulablePrompt>(
+  prompts: T[],
+  skipped: SkippedRun[]
+): T[] {
+  return prompts.map((prompt) => {
+    const run = skipped.find((r) => r.promptId === prompt.id);
+    return run && prompt.scheduled
+      ? {
+          ...prompt,
+          scheduled: {
+            ...prompt.scheduled,
+            skippedUntil: [
+              prompt.scheduled.skippedUntil,
+              run.scheduledFor.toISOString(),
+            ]
+              .filter(Boolean)
+              .sort()
+              .pop(),
+          },
+        }
+      : prompt;
+  });
+}
+
+/**
+ * 📝 Description lisible d'une politique ("Si moins de 6 h de retard")
+ */
+export function describeCatchUpPolicy(policy: CatchUpPolicy): string {
+  switch (policy.mode) {
+    case "skip":
+      return "Ne pas rattraper";
+    case "within":
+      return `Si moins de ${policy.withinHours ?? "?"} h de retard`;
+    case "once":
+    default:
+      return "Rattraper une fois";
+  }
+}
+
+/**
+ * ⏱️ Délais avant chaque nouvelle tentative (+5 min, +30 min, +2 h) ; le
+ * dernier est réutilisé si la limite du prompt est plus élevée
+ */
+export const RETRY_DELAYS_MINUTES = [5, 30, 120];
+
+export const DEFAULT_MAX_RETRIES = 3;
+
+export const MAX_RETRIES_OPTIONS = [0, 1, 2, 3, 5];
+
+/**
+ * 🚫 Erreurs qu'une nouvelle tentative ne corrigera pas (configuration,
+ * requête refusée)
+ */
+const PERMANENT_ERRORS: AiErrorCode[] = [
+  "missing_api_key",
+  "bad_request",
+  "unauthorized",
+  "forbidden",
+];
+
+/**
+ * 🔁 Nouvelle tentative après un échec
+ *
+ * `previous` est la tentative qui vient d'échouer (absente pour
+ * l'exécution prévue). `undefined` si la limite est atteinte ou si
+ * l'erreur est définitive.
+ */
+export function scheduleRetry(
+  errorCode: AiErrorCode,
+  previous: RetryState | undefined,
+  maxRetries: number = DEFAULT_MAX_RETRIES,
+  clock: Clock = systemClock
+): RetryState | undefined {
+  if (PERMANENT_ERRORS.includes(errorCode)) return undefined;
+
+  const attempt = (previous?.attempt ?? 0) + 1;
+  if (attempt > maxRetries) return undefined;
+
+  const delay =
+    RETRY_DELAYS_MINUTES[Math.min(attempt, RETRY_DELAYS_MINUTES.length) - 1];
+  return {
+    attempt,
+    nextAt: new Date(clock.now().getTime() + delay * 60_000).toISOString(),
+  };
+}
+
+/**
+ * 🎯 Prompts dont la nouvelle tentative est due
+ */
+export function getDueRetries(
+  prompts: (SchedulablePrompt & { status?: string })[],
+  options: {
+    clock?: Clock;
+    isRunning?: (promptId: string) => boolean;
+  } = {}
+): string[] {
+  const { clock = systemClock, isRunning } = options;
+  const now = clock.now().toISOString();
+
+  return prompts
+    .filter(
+      (prompt) =>
+        isRecurring(prompt) &&
+        prompt.scheduled!.retry &&
+        prompt.scheduled!.retry.nextAt <= now &&
+        prompt.status !== "running" &&
+        !isRunning?.(prompt.id)
+    )
+    .map((prompt) => prompt.id);
+}
+
+/**
+ * 😴 Exécution reportée de `minutes` depuis une notification
+ *
+ * L'occurrence en attente reste due : elle est lancée à la fin du report
+ * (à l'heure pour la politique de rattrapage).
+ */
+export function snoozePrompt<T extends SchedulablePrompt>(
+  prompt: T,
+  minutes: number,
+  clock: Clock = systemClock
+): T {
+  if (!prompt.scheduled) return prompt;
+  const snoozedUntil = new Date(clock.now().getTime() + minutes * 60_000);
+  return {
+    ...prompt,
+    scheduled: {
+      ...prompt.scheduled,
+      snoozedUntil: snoozedUntil.toISOString(),
+    },
+  };
+}
+
+/**
+ * ⏭️ Occurrences du jour ignorées (jour du fuseau de la planification)
+ *
+ * Les occurrences jusqu'à minuit ne sont ni exécutées ni rattrapées ; un
+ * report ou une nouvelle tentative en attente est abandonné.
+ */
+export function skipToday<T extends SchedulablePrompt>(
+  prompt: T,
+  clock: Clock = systemClock
+): T {
+  if (!prompt.scheduled) return prompt;
+  const { timeZone } = prompt.scheduled;
+  const tomorrow = atZonedTime(
+    getZonedDay(clock.now(), timeZone, 1),
+    0,
+    0,
+    timeZone
+  );
+  return {
+    ...prompt,
+    scheduled: {
+      ...prompt.scheduled,
+      skippedUntil: new Date(tomorrow.getTime() - 1).toISOString(),
+      snoozedUntil: undefined,
+      retry: undefined,
+    },
+  };
+}
+
+/**
+ * 🌍 Changement de fuseau de l'appareil
+ *
+ * Une planification qui suit l'appareil garde le fuseau de son dernier
+ * calcul : les exécutions manquées sont d'abord détectées dans l'ancien
+ * fuseau (appel après planCatchUp et markSkippedRuns), puis elle adopte
+ * le nouveau. Les occurrences antérieures au changement ne sont pas
+ * recalculées dans le nouveau fuseau (`skippedUntil`) : le briefing du
+ * matin reçu avant le départ n'est pas relancé à l'arrivée. Un ancien
+ * prompt sans fuseau reçoit simplement celui de l'appareil.
+ */
+export function reanchorTimeZones<T extends SchedulablePrompt>(
+  prompts: T[],
+  options: { clock?: Clock; deviceTimeZone?: string } = {}
+): { prompts: T[]; changedIds: string[] } {
+  const { clock = systemClock, deviceTimeZone = getDeviceTimeZone() } =
+    options;
+  const changedIds: string[] = [];
+
+  const updated = prompts.map((prompt) => {
+    const scheduled = prompt.scheduled;
+    if (!scheduled || scheduled.timeZone === deviceTimeZone) return prompt;
+    if (scheduled.timeZone && scheduled.timeZoneMode === "pinned") {
+      return prompt;
+    }
+
+    changedIds.push(prompt.id);
+    return {
+      ...prompt,
+      scheduled: {
+        ...scheduled,
+        timeZone: deviceTimeZone,
+        ...(scheduled.timeZone && { skippedUntil: clock.now().toISOString() }),
+      },
+    };
+  });
+
+  return { prompts: changedIds.length > 0 ? updated : prompts, changedIds };
+}
+
+/**
+ * 🔔 Déclencheur de notification, indépendant d'expo-notifications
+ *
+ * `weekday` suit getDay (0 = dimanche) ; la conversion vers le format du
+ * système se fait au moment de planifier.
+ */
+export type TriggerSpec =
+  | { type: "daily"; hour: number; minute: number }
+  | { type: "weekly"; weekday: number; hour: number; minute: number }
+  | { type: "monthly"; day: number; hour: number; minute: number }
+  | { type: "date"; date: Date };
+
+/**
+ * 🔢 Occurrences cron planifiées d'avance (le système limite le nombre de
+ * notifications en attente)
+ */
+export const CRON_NOTIFICATION_BATCH = 10;
+
+/**
+ * 📅 Prochaine date d'un prompt non récurrent : aujourd'hui à l'heure
+ * prévue (dans son fuseau), ou demain si elle est déjà passée
+ */
+export function getOneShotDate(
+  rule: Pick<ScheduleRule, "hour" | "minute" | "timeZone">,
+  clock: Clock = systemClock
+): Date {
+  const now = clock.now();
+  const today = getZonedDay(now, rule.timeZone);
+  const date = atZonedTime(today, rule.hour, rule.minute, rule.timeZone);
+  return date > now
+    ? date
+    : atZonedTime(
+        getZonedDay(now, rule.timeZone, 1),
+        rule.hour,
+        rule.minute,
+        rule.timeZone
+      );
+}
+
+/**
+ * 📆 Déclencheurs datés plutôt que répétitifs ?
+ *
+ * Les rappels répétitifs du système suivent l'heure de l'appareil et ne
+ * ramènent pas un jour du mois absent au dernier jour : une expression
+ * cron, un rappel mensuel après le 28, ou une planification fixée dans un
+ * autre fuseau que celui de l'appareil, reçoit des dates calculées à
+ * renouveler.
+ */
+export function usesDatedTriggers(
+  scheduled: ScheduleRule,
+  deviceTimeZone: string = getDeviceTimeZone()
+): boolean {
+  return (
+    scheduled.frequency === "cron" ||
+    (scheduled.frequency === "monthly" &&
+      (scheduled.dayOfMonth ?? 1) > LAST_DAY_IN_EVERY_MONTH) ||
+    (!!scheduled.timeZone && scheduled.timeZone !== deviceTimeZone)
+  );
+}
+
+/**
+ * 🔔 Déclencheurs de notification d'une planification
+ *
+ * Le système ne connaît que des rappels quotidiens, hebdomadaires (un jour
+ * par déclencheur) et mensuels : "en semaine" en utilise cinq, "toutes
+ * les N heures" un par heure de la journée. Une expression cron, un jour
+ * du mois après le 28 ou un fuseau fixé différent de celui de l'appareil
+ * reçoit des déclencheurs datés pour ses prochaines occurrences, à
+ * renouveler à chaque exécution et au lancement. Un prompt non récurrent
+ * reçoit un déclencheur daté à la prochaine heure prévue.
+ */
+export function buildTriggerSpecs(
+  scheduled: NonNullable<SchedulablePrompt["scheduled"]>,
+  clock: Clock = systemClock,
+  deviceTimeZone: string = getDeviceTimeZone()
+): TriggerSpec[] {
+  const { hour, minute } = scheduled;
+
+  if (!(scheduled.isRecurring ?? true)) {
+    return [{ type: "date", date: getOneShotDate(scheduled, clock) }];
+  }
+
+  if (usesDatedTriggers(scheduled, deviceTimeZone)) {
+    return getNextOccurrences(
+      scheduled,
+      CRON_NOTIFICATION_BATCH,
+      clock.now()
+    ).map((date) => ({ type: "date", date }));
+  }
+
+  const weekly = (days: number[]): TriggerSpec[] =>
+    days.map((weekday) => ({ type: "weekly", weekday, hour, minute }));
+
+  switch (scheduled.frequency) {
+    case "weekdays":
+      return weekly([1, 2, 3, 4, 5]);
+    case "weekly":
+      return weekly(scheduled.weekdays ?? []);
+    case "monthly":
+      return [
+        { type: "monthly", day: scheduled.dayOfMonth ?? 1, hour, minute },
+      ];
+    case "daily":
+    case "hourly":
+    default:
+      return getTimesOfDay(scheduled).map((time) => ({
+        type: "daily",
+        ...time,
+      }));
+  }
+}
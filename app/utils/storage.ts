@@ -0,0 +1,171 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import type {
+  Prompt,
+  Persona,
+  AppSettings,
+} from "../context/PromptContext";
+import type { AiErrorCode } from "./fetchAiResponse";
+import { RunHistory, HistoryRetention, pruneHistory } from "./runHistory";
+import { Job, DEFAULT_CONCURRENCY, restoreQueue } from "./jobQueue";
+import { DEFAULT_NOTIFICATION_PREFS } from "./notificationPrefs";
+import { Digest, DEFAULT_DIGEST_SETTINGS } from "./digest";
+
+/**
+ * 💾 Persistance des données de l'application
+ *
+ * Lecture et écriture AsyncStorage, sans dépendance à React : utilisées
+ * par PromptContext au premier plan comme par la tâche d'arrière-plan,
+ * qui tourne sans interface. Les fonctions propagent les erreurs, à
+ * l'appelant de les signaler.
+ */
+
+export const STORAGE_KEY = "prompts";
+export const PERSONAS_KEY = "personas"; // Bibliothèque de prompts système
+export const RUNS_KEY = "promptRuns"; // Historique des exécutions, par prompt
+export const SETTINGS_KEY = "settings"; // Réglages persistés de l'application
+export const LAST_CHECK_KEY = "lastScheduleCheck"; // Dernière vérification des prompts manqués
+export const JOBS_KEY = "jobQueue"; // File d'exécution en attente
+export const DIGEST_KEY = "dailyDigest"; // Dernier digest quotidien assemblé
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  history: { maxRuns: 30, maxDays: 90 },
+  catchUpWindowHours: 24,
+  concurrency: DEFAULT_CONCURRENCY,
+  notifications: DEFAULT_NOTIFICATION_PREFS,
+  digest: DEFAULT_DIGEST_SETTINGS,
+};
+
+/**
+ * 🗄️ Anciens messages d'erreur stockés dans `response`, par code
+ *
+ * Avant l'introduction de `status`, les erreurs étaient enregistrées
+ * comme des réponses ; ces préfixes permettent de les reconnaître.
+ */
+const LEGACY_ERROR_PREFIXES: [string, AiErrorCode][] = [
+  ["🔐 Erreur de configuration", "missing_api_key"],
+  ["🔧 Erreur de requête (400)", "bad_request"],
+  ["🔐 Problème d'authentification", "unauthorized"],
+  ["🚫 Accès refusé", "forbidden"],
+  ["🚦 Limite de taux", "rate_limited"],
+  ["⏱️ Délai d'attente dépassé", "timeout"],
+  ["🔧 Problème temporaire du serveur", "server_error"],
+  ["Désolé, je n'ai pas pu générer une réponse", "empty_response"],
+  ["❌", "unknown"],
+];
+
+/**
+ * 🔄 Migration d'un prompt stocké vers le modèle `status`
+ *
+ * - `scheduled.notificationId` devient `scheduled.notificationIds`
+ * - "⏳ ..." : exécution interrompue par la fermeture de l'app → cancelled
+ * - message d'erreur connu : failed, le message passe dans `error`
+ * - réponse vide : idle ; sinon succeeded
+ */
+function migratePrompt(stored: Prompt): Prompt {
+  const prompt: Prompt = {
+    ...stored,
+    category: stored.category || "other",
+  };
+
+  // Ancien identifiant unique de notification → liste
+  const legacyScheduled = stored.scheduled as
+    | (Prompt["scheduled"] & { notificationId?: string })
+    | undefined;
+  if (legacyScheduled?.notificationId) {
+    const { notificationId, ...scheduled } = legacyScheduled;
+    prompt.scheduled = { ...scheduled, notificationIds: [notificationId] };
+  }
+
+  if (stored.status) return prompt;
+
+  const response = stored.response ?? "";
+
+  if (response.startsWith("⏳")) {
+    return { ...prompt, response: "", status: "cancelled" };
+  }
+
+  const legacyError = LEGACY_ERROR_PREFIXES.find(([prefix]) =>
+    response.startsWith(prefix)
+  );
+  if (legacyError) {
+    return {
+      ...prompt,
+      response: "",
+      source: "",
+      status: "failed",
+      error: { code: legacyError[1], message: response },
+    };
+  }
+
+  return { ...prompt, response, status: response ? "succeeded" : "idle" };
+}
+
+async function readJson<T>(key: string): Promise<T | null> {
+  const saved = await AsyncStorage.getItem(key);
+  return saved ? (JSON.parse(saved) as T) : null;
+}
+
+const writeJson = (key: string, value: unknown) =>
+  AsyncStorage.setItem(key, JSON.stringify(value));
+
+/**
+ * 📝 Prompts sauvegardés, migrés vers le modèle courant
+ */
+export async function loadPrompts(): Promise<Prompt[]> {
+  const saved = await readJson<Prompt[]>(STORAGE_KEY);
+  return saved ? saved.map(migratePrompt) : [];
+}
+
+export const savePrompts = (prompts: Prompt[]) =>
+  writeJson(STORAGE_KEY, prompts);
+
+/**
+ * 🎭 Bibliothèque de personas (vide si jamais enregistrée)
+ */
+export async function loadPersonas(): Promise<Persona[]> {
+  return (await readJson<Persona[]>(PERSONAS_KEY)) ?? [];
+}
+
+export const savePersonas = (personas: Persona[]) =>
+  writeJson(PERSONAS_KEY, personas);
+
+/**
+ * ⚙️ Réglages, complétés par les valeurs par défaut
+ */
+export async function loadSettings(): Promise<AppSettings> {
+  const saved = await readJson<Partial<AppSettings>>(SETTINGS_KEY);
+  return saved ? { ...DEFAULT_SETTINGS, ...saved } : DEFAULT_SETTINGS;
+}
+
+export const saveSettings = (settings: AppSettings) =>
+  writeJson(SETTINGS_KEY, settings);
+
+/**
+ * 📚 Historique des exécutions, rétention appliquée
+ */
+export async function loadRunHistory(
+  retention: HistoryRetention
+): Promise<RunHistory> {
+  const saved = await readJson<RunHistory>(RUNS_KEY);
+  return saved ? pruneHistory(saved, retention) : {};
+}
+
+export const saveRunHistory = (history: RunHistory) =>
+  writeJson(RUNS_KEY, history);
+
+/**
+ * 📬 File d'exécution : les exécutions interrompues repartent en attente
+ */
+export async function loadJobQueue(): Promise<Job[]> {
+  const saved = await readJson<Job[]>(JOBS_KEY);
+  return saved ? restoreQueue(saved) : [];
+}
+
+export const saveJobQueue = (queue: Job[]) => writeJson(JOBS_KEY, queue);
+
+/**
+ * 🗞️ Dernier digest quotidien (null si aucun)
+ */
+export const loadDigest = () => readJson<Digest>(DIGEST_KEY);
+
+export const saveDigest = (digest: Digest) => writeJson(DIGEST_KEY, digest);
@@ -0,0 +1,179 @@
+/**
+ * 🔀 Différences mot à mot entre deux réponses
+ *
+ * Algorithme classique de plus longue sous-séquence commune (LCS) sur les
+ * mots, après retrait du préfixe et du suffixe communs : deux réponses
+ * quotidiennes quasi identiques ne coûtent presque rien à comparer.
+ */
+
+/**
+ * 🧩 Portion de texte : inchangée, ajoutée ou supprimée
+ */
+export type DiffSegment = {
+  type: "equal" | "added" | "removed";
+  text: string;
+};
+
+/**
+ * 📊 Résumé chiffré d'une comparaison
+ */
+export type ChangeSummary = {
+  addedWords: number;
+  removedWords: number;
+  ratio: number; // 0 = identique, 1 = entièrement différent
+  isMeaningful: boolean; // Au-delà du seuil MEANINGFUL_CHANGE_RATIO
+};
+
+/**
+ * 🎚️ Part de mots modifiés à partir de laquelle un changement est signalé
+ */
+export const MEANINGFUL_CHANGE_RATIO = 0.15;
+
+/**
+ * 🛑 Taille maximale de la table LCS (mots avant × mots après)
+ *
+ * Au-delà, la zone modifiée est affichée comme un bloc supprimé puis
+ * un bloc ajouté, pour ne pas bloquer l'interface.
+ */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * ✂️ Découpage en mots, espaces de fin conservés pour la restitution
+ */
+function tokenize(text: string): string[] {
+  return text.match(/\S+\s*/g) ?? [];
+}
+
+const wordKey = (token: string) => token.trim();
+
+/**
+ * 🧹 Normalisation avant mesure : casse, Markdown et marqueurs [n] ignorés
+ */
+function normalizeForComparison(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/\[\d{1,3}\]/g, " ")
+    .replace(/[*_#>`~|]/g, " ");
+}
+
+/**
+ * 🔗 Fusion des segments consécutifs de même type
+ */
+function pushSegment(
+  segments: DiffSegment[],
+  type: DiffSegment["type"],
+  text: string
+) {
+  if (!text) return;
+  const last = segments[segments.length - 1];
+  if (last?.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+/**
+ * 🔀 Différences mot à mot entre deux textes
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const segments: DiffSegment[] = [];
+
+  // Préfixe et suffixe communs
+  let start = 0;
+  while (
+    start < a.length &&
+    start < b.length &&
+    wordKey(a[start]) === wordKey(b[start])
+  ) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (
+    endA > start &&
+    endB > start &&
+    wordKey(a[endA - 1]) === wordKey(b[endB - 1])
+  ) {
+    endA--;
+    endB--;
+  }
+
+  pushSegment(segments, "equal", b.slice(0, start).join(""));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+
+  if (n * m > MAX_DIFF_CELLS) {
+    pushSegment(segments, "removed", midA.join(""));
+    pushSegment(segments, "added", midB.join(""));
+  } else {
+    // lcs[i * (m + 1) + j] = longueur LCS de midA[i:] et midB[j:]
+    const width = m + 1;
+    const lcs = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * width + j] =
+          wordKey(midA[i]) === wordKey(midB[j])
+            ? lcs[(i + 1) * width + j + 1] + 1
+            : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (wordKey(midA[i]) === wordKey(midB[j])) {
+        pushSegment(segments, "equal", midB[j]);
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        pushSegment(segments, "removed", midA[i++]);
+      } else {
+        pushSegment(segments, "added", midB[j++]);
+      }
+    }
+    while (i < n) pushSegment(segments, "removed", midA[i++]);
+    while (j < m) pushSegment(segments, "added", midB[j++]);
+  }
+
+  pushSegment(segments, "equal", b.slice(endB).join(""));
+  return segments;
+}
+
+/**
+ * 📊 Mesure du changement entre deux réponses
+ *
+ * La comparaison porte sur le texte normalisé : une mise en forme
+ * différente ou une renumérotation des sources ne compte pas.
+ */
+export function summarizeChange(before: string, after: string): ChangeSummary {
+  const segments = diffWords(
+    normalizeForComparison(before),
+    normalizeForComparison(after)
+  );
+
+  let addedWords = 0;
+  let removedWords = 0;
+  let equalWords = 0;
+  for (const segment of segments) {
+    const count = tokenize(segment.text).length;
+    if (segment.type === "added") addedWords += count;
+    else if (segment.type === "removed") removedWords += count;
+    else equalWords += count;
+  }
+
+  const total = addedWords + removedWords + 2 * equalWords;
+  const ratio = total > 0 ? (addedWords + removedWords) / total : 0;
+
+  return {
+    addedWords,
+    removedWords,
+    ratio,
+    isMeaningful: ratio >= MEANINGFUL_CHANGE_RATIO,
+  };
+}
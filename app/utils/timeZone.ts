@@ -0,0 +1,201 @@
+/**
+ * 🌍 Fuseaux horaires des planifications
+ *
+ * Les heures d'une planification sont exprimées dans un fuseau IANA
+ * ("Europe/Paris"). Ces fonctions passent d'un instant à la date et
+ * l'heure affichées dans ce fuseau (et inversement) via Intl, sans
+ * dépendance externe. Sans fuseau, l'heure locale de l'appareil est
+ * utilisée, comme avant.
+ *
+ * Les jours de calendrier sont représentés par une Date à minuit UTC
+ * (année, mois et jour lus avec getUTC*), ce qui permet d'avancer jour
+ * par jour sans être perturbé par les changements d'heure.
+ */
+
+/**
+ * 🧭 Comportement d'une planification quand le fuseau de l'appareil change
+ *
+ * - device : les heures suivent l'appareil (07:00 là où l'on se trouve)
+ * - pinned : les heures restent celles du fuseau choisi
+ */
+export type TimeZoneMode = "device" | "pinned";
+
+export const DEFAULT_TIME_ZONE_MODE: TimeZoneMode = "device";
+
+export const TIME_ZONE_MODE_LABELS: Record<TimeZoneMode, string> = {
+  device: "Suivre l'appareil",
+  pinned: "Fuseau fixe",
+};
+
+/**
+ * 🗺️ Fuseaux proposés en plus de celui de l'appareil
+ */
+export const TIME_ZONE_OPTIONS = [
+  "Europe/Paris",
+  "Europe/London",
+  "America/New_York",
+  "America/Los_Angeles",
+  "America/Montreal",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+  "UTC",
+];
+
+/**
+ * 📱 Fuseau actuel de l'appareil
+ */
+export function getDeviceTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+  } catch {
+    return "UTC";
+  }
+}
+
+/**
+ * ✅ Le fuseau est-il reconnu par le moteur Intl ?
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 🏷️ Nom court d'un fuseau ("America/New_York" → "New York")
+ */
+export const formatTimeZone = (timeZone: string) =>
+  (timeZone.split("/").pop() ?? timeZone).replace(/_/g, " ");
+
+/**
+ * 🕰️ Date et heure affichées dans un fuseau (mois de 0 à 11)
+ */
+type WallTime = {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  if (!formatters.has(timeZone)) {
+    formatters.set(
+      timeZone,
+      new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "numeric",
+        day: "numeric",
+        hour: "numeric",
+        minute: "numeric",
+      })
+    );
+  }
+  return formatters.get(timeZone)!;
+}
+
+function getWallTime(date: Date, timeZone?: string): WallTime {
+  if (!timeZone) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth(),
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+    };
+  }
+
+  const parts = getFormatter(timeZone).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+  return {
+    year: get("year"),
+    month: get("month") - 1,
+    day: get("day"),
+    hour: get("hour") % 24, // Certains moteurs écrivent minuit "24"
+    minute: get("minute"),
+  };
+}
+
+/**
+ * ↔️ Décalage du fuseau par rapport à UTC à un instant donné, en ms
+ */
+function getOffset(date: Date, timeZone: string): number {
+  const wall = getWallTime(date, timeZone);
+  const wallAsUtc = Date.UTC(
+    wall.year,
+    wall.month,
+    wall.day,
+    wall.hour,
+    wall.minute
+  );
+  return wallAsUtc - Math.floor(date.getTime() / 60_000) * 60_000;
+}
+
+/**
+ * 📆 Jour de calendrier contenant `date` dans le fuseau, décalé de
+ * `offsetDays` jours
+ */
+export function getZonedDay(
+  date: Date,
+  timeZone?: string,
+  offsetDays: number = 0
+): Date {
+  const { year, month, day } = getWallTime(date, timeZone);
+  return new Date(Date.UTC(year, month, day + offsetDays));
+}
+
+const HALF_DAY_MS = 12 * 3_600_000;
+
+/**
+ * ⏰ Instant correspondant à une heure d'un jour de calendrier du fuseau
+ *
+ * Une heure sautée au passage à l'heure d'été est décalée d'une heure ;
+ * une heure répétée à l'heure d'hiver correspond à sa première
+ * occurrence, comme pour l'heure locale de l'appareil.
+ */
+export function atZonedTime(
+  day: Date,
+  hour: number,
+  minute: number,
+  timeZone?: string
+): Date {
+  const year = day.getUTCFullYear();
+  const month = day.getUTCMonth();
+  const date = day.getUTCDate();
+
+  if (!timeZone) return new Date(year, month, date, hour, minute, 0, 0);
+
+  // Candidats avec le décalage d'avant et d'après un éventuel changement
+  // d'heure : le plus tôt qui tombe à l'heure voulue l'emporte
+  const wallAsUtc = Date.UTC(year, month, date, hour, minute);
+  const candidates = [
+    wallAsUtc - getOffset(new Date(wallAsUtc - HALF_DAY_MS), timeZone),
+    wallAsUtc - getOffset(new Date(wallAsUtc + HALF_DAY_MS), timeZone),
+  ];
+  const matching = candidates.filter((instant) => {
+    const wall = getWallTime(new Date(instant), timeZone);
+    return wall.day === date && wall.hour === hour && wall.minute === minute;
+  });
+
+  // Heure sautée : aucun candidat, décalage d'avant (une heure plus tard)
+  return new Date(matching.length > 0 ? Math.min(...matching) : candidates[0]);
+}
+
+/**
+ * 🕐 Heure et minute d'un instant dans le fuseau
+ */
+export function getZonedTime(
+  date: Date,
+  timeZone?: string
+): { hour: number; minute: number } {
+  const { hour, minute } = getWallTime(date, timeZone);
+  return { hour, minute };
+}
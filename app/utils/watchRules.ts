@@ -0,0 +1,246 @@
+import { Citation, getCitationDomain } from "./citations";
+import { stripMarkdown } from "./markdown";
+
+/**
+ * 👀 Règles de surveillance des réponses planifiées
+ *
+ * Une règle se déclenche quand la réponse mentionne un mot-clé, correspond
+ * à une expression régulière, ou cite un domaine donné. Les règles sont
+ * évaluées après chaque exécution planifiée ; les correspondances sont
+ * surlignées dans les cartes et notifiées avec un extrait.
+ */
+
+export type WatchRuleType = "keyword" | "regex" | "domain";
+
+/**
+ * 📌 Règle attachée à un prompt
+ */
+export type WatchRule = {
+  id: string;
+  type: WatchRuleType;
+  pattern: string; // Mot-clé, expression régulière ou domaine
+};
+
+/**
+ * 🎯 Correspondance trouvée dans une réponse
+ */
+export type WatchMatch = {
+  ruleId: string;
+  type: WatchRuleType;
+  match: string; // Texte ou domaine trouvé
+  snippet: string; // Contexte affiché dans la notification
+};
+
+export const WATCH_RULE_LABELS: Record<WatchRuleType, string> = {
+  keyword: "Mot-clé",
+  regex: "Regex",
+  domain: "Domaine",
+};
+
+/**
+ * 🔗 Préfixe des liens internes marquant un passage surligné
+ */
+export const WATCH_LINK_PREFIX = "watch:";
+
+/**
+ * ✂️ Contexte conservé de part et d'autre d'une correspondance
+ */
+const SNIPPET_CONTEXT = 50;
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * 🔍 Expression régulière d'une règle textuelle (insensible à la casse)
+ *
+ * `null` pour une règle de domaine, un motif vide ou une regex invalide.
+ */
+function ruleRegExp(rule: WatchRule): RegExp | null {
+  const pattern = rule.pattern.trim();
+  if (!pattern || rule.type === "domain") return null;
+  try {
+    return new RegExp(
+      rule.type === "regex" ? pattern : escapeRegExp(pattern),
+      "gi"
+    );
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * ✅ Validation d'une règle avant enregistrement
+ *
+ * Retourne un message d'erreur, ou `undefined` si la règle est valide.
+ */
+export function validateWatchRule(
+  type: WatchRuleType,
+  pattern: string
+): string | undefined {
+  const trimmed = pattern.trim();
+  if (!trimmed) return "Le motif ne peut pas être vide.";
+  if (type === "regex") {
+    try {
+      new RegExp(trimmed);
+    } catch {
+      return "Expression régulière invalide.";
+    }
+  }
+  if (
+    type === "domain" &&
+    !/^[a-z0-9.-]+\.[a-z]{2,}$/.test(normalizeDomain(trimmed))
+  ) {
+    return "Domaine invalide (ex. lemonde.fr).";
+  }
+  return undefined;
+}
+
+/**
+ * 🌐 Domaine saisi ramené à sa forme simple ("https://www.x.fr/" → "x.fr")
+ */
+export function normalizeDomain(domain: string): string {
+  return domain
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, "")
+    .replace(/^www\./, "")
+    .replace(/\/.*$/, "");
+}
+
+/**
+ * 🌐 Le domaine d'une source correspond-il (sous-domaines inclus) ?
+ */
+export function matchesDomain(url: string, domain: string): boolean {
+  const target = normalizeDomain(domain);
+  const host = getCitationDomain(url).toLowerCase();
+  return !!target && (host === target || host.endsWith(`.${target}`));
+}
+
+/**
+ * ✂️ Extrait autour d'une correspondance
+ */
+function snippetAround(text: string, start: number, end: number): string {
+  const from = Math.max(0, start - SNIPPET_CONTEXT);
+  const to = Math.min(text.length, end + SNIPPET_CONTEXT);
+  return `${from > 0 ? "…" : ""}${text.slice(from, to).trim()}${
+    to < text.length ? "…" : ""
+  }`;
+}
+
+/**
+ * 🔍 Évaluation des règles sur une réponse
+ *
+ * Une correspondance au plus par règle : la première trouvée.
+ */
+export function evaluateWatchRules(
+  rules: WatchRule[],
+  result: { response: string; citations?: Citation[] }
+): WatchMatch[] {
+  const plain = stripMarkdown(result.response);
+  const matches: WatchMatch[] = [];
+
+  for (const rule of rules) {
+    if (rule.type === "domain") {
+      const citation = result.citations?.find((c) =>
+        matchesDomain(c.url, rule.pattern)
+      );
+      if (citation) {
+        matches.push({
+          ruleId: rule.id,
+          type: rule.type,
+          match: getCitationDomain(citation.url),
+          snippet: citation.title
+            ? `${citation.title} (${getCitationDomain(citation.url)})`
+            : citation.url,
+        });
+      }
+      continue;
+    }
+
+    const regex = ruleRegExp(rule);
+    if (!regex) continue;
+    const found = regex.exec(plain);
+    if (found && found[0]) {
+      matches.push({
+        ruleId: rule.id,
+        type: rule.type,
+        match: found[0],
+        snippet: snippetAround(
+          plain,
+          found.index,
+          found.index + found[0].length
+        ),
+      });
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * 🔔 Corps de notification : premier extrait, puis le nombre d'autres
+ * règles déclenchées
+ */
+export function describeWatchMatches(matches: WatchMatch[]): string {
+  const others = matches.length - 1;
+  return others > 0
+    ? `${matches[0].snippet} (+${others} autre${others > 1 ? "s" : ""})`
+    : matches[0].snippet;
+}
+
+/**
+ * 🛡️ Passages du Markdown à ne jamais modifier : code, liens, URLs
+ */
+const PROTECTED_MARKDOWN =
+  /```[\s\S]*?```|`[^`\n]*`|!?\[(?:\\.|[^\]\\])*\]\([^)]*\)|https?:\/\/\S+/g;
+
+/**
+ * 🖍️ Passages correspondant aux règles transformés en liens `watch:`
+ *
+ * Cards rend ces liens comme du texte surligné. Les liens existants
+ * (dont les citations [n]) et le code sont laissés intacts.
+ */
+export function highlightWatchMatches(
+  markdown: string,
+  rules: WatchRule[]
+): string {
+  const regexes = rules
+    .map((rule) => ({ rule, regex: ruleRegExp(rule) }))
+    .filter(
+      (entry): entry is { rule: WatchRule; regex: RegExp } => !!entry.regex
+    );
+  if (regexes.length === 0) return markdown;
+
+  return regexes.reduce(
+    (text, { rule, regex }) =>
+      replaceOutsideProtected(text, (chunk) =>
+        chunk.replace(
+          regex,
+          (found) =>
+            found
+              ? `[${found.replace(/([[\]\\])/g, "\\$1")}](${WATCH_LINK_PREFIX}${
+                  rule.id
+                })`
+              : found
+        )
+      ),
+    markdown
+  );
+}
+
+/**
+ * 🛡️ Application d'une transformation hors des passages protégés
+ */
+function replaceOutsideProtected(
+  markdown: string,
+  transform: (chunk: string) => string
+): string {
+  let output = "";
+  let lastIndex = 0;
+  for (const protectedMatch of markdown.matchAll(PROTECTED_MARKDOWN)) {
+    const start = protectedMatch.index ?? 0;
+    output += transform(markdown.slice(lastIndex, start)) + protectedMatch[0];
+    lastIndex = start + protectedMatch[0].length;
+  }
+  return output + transform(markdown.slice(lastIndex));
+}
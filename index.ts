@@ -1,6 +1,10 @@
 import { registerRootComponent } from 'expo';
 
 import App from './App';
+// Définit la tâche d'arrière-plan avant tout rendu (exécution sans interface)
+import './app/utils/backgroundRunner';
+// Idem pour les boutons d'action des rappels (Android, app fermée)
+import './app/utils/notificationActions';
 
 // registerRootComponent calls AppRegistry.registerComponent('main', () => App);
 // It also ensures that whether you load the app in Expo Go or in a native build,
@@ -0,0 +1,5 @@
+// Fuseau fixe pour les tests : les heures de l'appareil ne dépendent pas
+// de la machine qui les lance
+module.exports = () => {
+  process.env.TZ = "Europe/Paris";
+};